@@ -1,5 +1,5 @@
 // App.tsx
-import {StatusBar, LogBox} from 'react-native';
+import {StatusBar, LogBox, AppState} from 'react-native';
 import {SafeAreaProvider} from 'react-native-safe-area-context';
 import {GestureHandlerRootView} from 'react-native-gesture-handler';
 import {
@@ -9,6 +9,9 @@ import {
 } from '@react-navigation/native';
 import {createStackNavigator} from '@react-navigation/stack';
 import {createBottomTabNavigator} from '@react-navigation/bottom-tabs';
+import NetInfo from '@react-native-community/netinfo';
+import type {NetInfoState} from '@react-native-community/netinfo';
+import notifee from '@notifee/react-native';
 import theme from './src/theme';
 import React, {useState, useEffect} from 'react';
 // Import vector icons
@@ -25,6 +28,17 @@ import PlayerScreen from './src/screens/PlayerScreen';
 import PlayerSearchScreen from './src/screens/PlayerSearchScreen'; // Add this import
 import RankingsScreen from './src/screens/RankingsScreen';
 import TournamentDrawScreen from './src/screens/TournamentDrawScreen';
+import SettingsScreen from './src/screens/SettingsScreen';
+import DiagnosticsScreen from './src/screens/DiagnosticsScreen';
+import NotificationsScreen from './src/screens/NotificationsScreen';
+import NotFoundScreen from './src/screens/NotFoundScreen';
+import cacheService from './src/services/cacheService';
+import environmentService from './src/services/environmentService';
+import prefetchService from './src/services/prefetchService';
+import notificationService from './src/services/notificationService';
+import OfflineBanner from './src/components/OfflineBanner';
+import {linking} from './src/config/linking';
+import type {LinkTarget} from './src/config/linking';
 
 // For now, use placeholders
 const PlaceholderScreen = () => <></>;
@@ -36,7 +50,7 @@ LogBox.ignoreLogs([
 ]);
 
 // Define types for navigation
-type RootStackParamList = {
+export type RootStackParamList = {
   MainTabs: undefined;
   MatchDetail: {matchId: string};
   TeamDetail: {teamId: string};
@@ -47,6 +61,10 @@ type RootStackParamList = {
     eventId?: any;
     drawName?: any;
   };
+  Settings: undefined;
+  Diagnostics: undefined;
+  Notifications: undefined;
+  NotFound: {target?: LinkTarget} | undefined;
 };
 
 type TabParamList = {
@@ -144,6 +162,70 @@ const App = () => {
     setIsDark(!isDark);
   };
 
+  // Environment from the build or the developer menu; screens are remounted
+  // on a switch so nothing keeps showing the previous backend's data
+  const [environment, setEnvironment] = useState(
+    environmentService.getEnvironment(),
+  );
+  const [environmentLoaded, setEnvironmentLoaded] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = environmentService.subscribe(setEnvironment);
+    // Pick the environment before anything reads the cache, then drop cache
+    // entries that are too old to serve and rebuild the cache index
+    environmentService.load().then(() => {
+      setEnvironmentLoaded(true);
+      cacheService.sweep();
+      prefetchService.run('launch');
+      notificationService
+        .initialize()
+        .then(() => notificationService.sync('launch'));
+    });
+    return unsubscribe;
+  }, []);
+
+  // Warm the favorites' data again when the app comes back to the
+  // foreground, and stop prefetching once it leaves
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        prefetchService.run('foreground');
+        notificationService.sync('foreground');
+      } else if (state === 'background') {
+        prefetchService.cancel();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Opening a match alert marks it read in the notification center
+  useEffect(
+    () =>
+      notifee.onForegroundEvent(event =>
+        notificationService.handleEvent(event),
+      ),
+    [],
+  );
+
+  // Serve cached data while offline and refresh it once we reconnect. The
+  // bundled fixtures never need a connection, so demo mode stays online.
+  useEffect(() => {
+    const applyConnectivity = (state: NetInfoState) => {
+      cacheService.setOffline(
+        environmentService.getEnvironment().source === 'network' &&
+          (state.isConnected === false || state.isInternetReachable === false),
+      );
+    };
+    const unsubscribeNetInfo = NetInfo.addEventListener(applyConnectivity);
+    const unsubscribeEnvironment = environmentService.subscribe(() => {
+      NetInfo.fetch().then(applyConnectivity);
+    });
+    return () => {
+      unsubscribeNetInfo();
+      unsubscribeEnvironment();
+    };
+  }, []);
+
   // Create custom navigation theme based on DefaultTheme and DarkTheme
   const customLightTheme = {
     ...DefaultTheme,
@@ -171,6 +253,10 @@ const App = () => {
     },
   };
 
+  if (!environmentLoaded) {
+    return null;
+  }
+
   return (
     <ThemeContext.Provider value={{isDark, toggleTheme}}>
       <GestureHandlerRootView style={{flex: 1}}>
@@ -184,6 +270,8 @@ const App = () => {
             }
           />
           <NavigationContainer
+            key={environment.name}
+            linking={linking}
             theme={isDark ? customDarkTheme : customLightTheme}>
             <Stack.Navigator screenOptions={{headerShown: false}}>
               <Stack.Screen name="MainTabs" component={TabNavigator} />
@@ -195,8 +283,16 @@ const App = () => {
                 name="TournamentDraw"
                 component={TournamentDrawScreen}
               />
+              <Stack.Screen name="Settings" component={SettingsScreen} />
+              <Stack.Screen name="Diagnostics" component={DiagnosticsScreen} />
+              <Stack.Screen
+                name="Notifications"
+                component={NotificationsScreen}
+              />
+              <Stack.Screen name="NotFound" component={NotFoundScreen} />
             </Stack.Navigator>
           </NavigationContainer>
+          <OfflineBanner isDark={isDark} />
         </SafeAreaProvider>
       </GestureHandlerRootView>
     </ThemeContext.Provider>
@@ -0,0 +1,406 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {ApiError} from '../src/api/errors';
+import cacheService from '../src/services/cacheService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  // Rebuild the index from the now empty storage
+  await cacheService.sweep();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('concurrent callers for the same key share one network call', async () => {
+  const apiCall = jest.fn(
+    () =>
+      new Promise<string[]>(resolve => setTimeout(() => resolve(['m1']), 10)),
+  );
+
+  const results = await Promise.all(
+    Array.from({length: 5}, () =>
+      cacheService.cachedCall('matches', {date: '2025-03-01'}, apiCall),
+    ),
+  );
+
+  expect(apiCall).toHaveBeenCalledTimes(1);
+  results.forEach(result => expect(result).toEqual(['m1']));
+});
+
+test('different keys are fetched separately', async () => {
+  const apiCall = jest.fn(async () => ['m1']);
+
+  await Promise.all([
+    cacheService.cachedCall('matches', {date: '2025-03-01'}, apiCall),
+    cacheService.cachedCall('matches', {date: '2025-03-02'}, apiCall),
+  ]);
+
+  expect(apiCall).toHaveBeenCalledTimes(2);
+});
+
+test('a failed shared call rejects every caller and is not kept', async () => {
+  const failing = jest.fn(async () => {
+    throw new Error('Network Error');
+  });
+
+  const results = await Promise.allSettled([
+    cacheService.cachedCall('stats', {id: 'p1'}, failing),
+    cacheService.cachedCall('stats', {id: 'p1'}, failing),
+  ]);
+
+  expect(failing).toHaveBeenCalledTimes(1);
+  results.forEach(result => expect(result.status).toBe('rejected'));
+
+  const succeeding = jest.fn(async () => ({singles_wins: 3}));
+  await expect(
+    cacheService.cachedCall('stats', {id: 'p1'}, succeeding),
+  ).resolves.toEqual({singles_wins: 3});
+  expect(succeeding).toHaveBeenCalledTimes(1);
+});
+
+test('invalidate removes every entry carrying the tag', async () => {
+  const lineupCall = jest.fn(async () => [{id: 'l1'}]);
+  const scoreCall = jest.fn(async () => ({home_team_score: 2}));
+  const otherCall = jest.fn(async () => ({home_team_score: 4}));
+
+  await cacheService.cachedCall(
+    'matches',
+    {id: 'm1', type: 'lineup'},
+    lineupCall,
+    {
+      tags: ['match:m1', 'player:p1'],
+    },
+  );
+  await cacheService.cachedCall(
+    'matches',
+    {id: 'm1', type: 'score'},
+    scoreCall,
+    {
+      tags: data => (data.home_team_score > 0 ? ['match:m1'] : []),
+    },
+  );
+  await cacheService.cachedCall(
+    'matches',
+    {id: 'm2', type: 'score'},
+    otherCall,
+    {
+      tags: ['match:m2'],
+    },
+  );
+
+  await expect(cacheService.invalidate('match:m1')).resolves.toBe(2);
+
+  expect(
+    await cacheService.get('matches', {id: 'm1', type: 'lineup'}),
+  ).toBeNull();
+  expect(
+    await cacheService.get('matches', {id: 'm1', type: 'score'}),
+  ).toBeNull();
+  expect(await cacheService.get('matches', {id: 'm2', type: 'score'})).toEqual({
+    home_team_score: 4,
+  });
+});
+
+test('offline serves expired entries and refreshes them on reconnect', async () => {
+  const now = Date.now();
+  const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+  await cacheService.cachedCall('profiles', {id: 't1'}, async () => ({
+    name: 'Old',
+  }));
+
+  // Well past the 24h profile TTL
+  dateSpy.mockReturnValue(now + 48 * 60 * 60 * 1000);
+  cacheService.setOffline(true);
+
+  const refresh = jest.fn(async () => ({name: 'New'}));
+  await expect(
+    cacheService.cachedCall('profiles', {id: 't1'}, refresh),
+  ).resolves.toEqual({name: 'Old'});
+  expect(refresh).not.toHaveBeenCalled();
+  expect(cacheService.getOfflineStatus()).toEqual({
+    offline: true,
+    oldestDataTimestamp: now,
+  });
+
+  const refreshed = new Promise(resolve =>
+    cacheService.subscribe('profiles', (_params, data) => resolve(data)),
+  );
+  cacheService.setOffline(false);
+
+  await expect(refreshed).resolves.toEqual({name: 'New'});
+  expect(refresh).toHaveBeenCalledTimes(1);
+  expect(cacheService.getOfflineStatus().oldestDataTimestamp).toBeNull();
+});
+
+test('the shared request is only aborted once every caller aborts', async () => {
+  let requestSignal: AbortSignal | undefined;
+  const apiCall = jest.fn(
+    (signal: AbortSignal) =>
+      new Promise<string[]>((resolve, reject) => {
+        requestSignal = signal;
+        const timer = setTimeout(() => resolve(['d1']), 10);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new Error('canceled'));
+        });
+      }),
+  );
+
+  const first = new AbortController();
+  const second = new AbortController();
+  const firstCall = cacheService.cachedCall(
+    'tournaments',
+    {drawId: 'd1'},
+    apiCall,
+    {signal: first.signal},
+  );
+  const secondCall = cacheService.cachedCall(
+    'tournaments',
+    {drawId: 'd1'},
+    apiCall,
+    {signal: second.signal},
+  );
+  await new Promise(resolve => setTimeout(resolve, 0));
+
+  first.abort();
+  await expect(firstCall).rejects.toMatchObject({name: 'AbortError'});
+  expect(requestSignal?.aborted).toBe(false);
+
+  second.abort();
+  await expect(secondCall).rejects.toMatchObject({name: 'AbortError'});
+  expect(requestSignal?.aborted).toBe(true);
+  expect(apiCall).toHaveBeenCalledTimes(1);
+});
+
+test('cached data that fails validation is quarantined and refetched', async () => {
+  const validate = (data: any) => {
+    if (typeof data.name !== 'string') {
+      throw new Error('name: expected string, got undefined');
+    }
+    return data as {name: string};
+  };
+
+  // Shape written by an older app version
+  await cacheService.cachedCall('profiles', {id: 'p9'}, async () => ({
+    full_name: 'Old Shape',
+  }));
+
+  const refetch = jest.fn(async () => ({name: 'New Shape'}));
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  await expect(
+    cacheService.cachedCall('profiles', {id: 'p9'}, refetch, {validate}),
+  ).resolves.toEqual({name: 'New Shape'});
+
+  expect(refetch).toHaveBeenCalledTimes(1);
+  const quarantine = await cacheService.getQuarantine();
+  expect(quarantine).toHaveLength(1);
+  expect(quarantine[0].reason).toBe('name: expected string, got undefined');
+});
+
+test('each namespace keeps its own entries', async () => {
+  await cacheService.cachedCall('profiles', {id: 't1'}, async () => 'prod');
+  cacheService.setNamespace('staging');
+  try {
+    await expect(
+      cacheService.cachedCall('profiles', {id: 't1'}, async () => 'staging'),
+    ).resolves.toBe('staging');
+    cacheService.setNamespace('');
+    await expect(
+      cacheService.cachedCall('profiles', {id: 't1'}, async () => 'refetched'),
+    ).resolves.toBe('prod');
+  } finally {
+    cacheService.setNamespace('');
+  }
+});
+
+test('related entries from a batch response serve single lookups', async () => {
+  await cacheService.cachedCall(
+    'batch',
+    {type: 'scores', matchIds: ['m1', 'm2']},
+    async () => ({m1: {home: 4}, m2: {home: 1}}),
+    {
+      related: scores =>
+        Object.entries(scores).map(([id, score]) => ({
+          category: 'matches',
+          params: {id, type: 'score'},
+          data: score,
+        })),
+    },
+  );
+
+  const single = jest.fn(async () => ({home: 0}));
+  await expect(
+    cacheService.cachedCall('matches', {id: 'm2', type: 'score'}, single),
+  ).resolves.toEqual({home: 1});
+  expect(single).not.toHaveBeenCalled();
+});
+
+test('keys ignore param order, undefined params and long array order', async () => {
+  const teamIds = Array.from({length: 20}, (_, i) => `team-${i}`);
+  await cacheService.set('batch', {type: 'teams', teamIds, season: '2024'}, 1);
+
+  await expect(
+    cacheService.get('batch', {
+      season: '2024',
+      teamIds: [...teamIds].reverse(),
+      type: 'teams',
+      page: undefined,
+    }),
+  ).resolves.toBe(1);
+
+  // Long id lists are hashed rather than spelled out in the storage key
+  const [key] = await AsyncStorage.getAllKeys();
+  expect(key).not.toContain('team-19');
+});
+
+test('the least recently used entries are evicted first', async () => {
+  let clock = Date.now();
+  jest.spyOn(Date, 'now').mockImplementation(() => clock++);
+
+  const {maxEntries} = await cacheService.getUsage();
+  for (let i = 0; i < maxEntries; i++) {
+    await cacheService.set('matches', {id: `m${i}`}, i);
+  }
+  // Reading the oldest entry makes m1 the least recently used
+  await expect(cacheService.get('matches', {id: 'm0'})).resolves.toBe(0);
+  await cacheService.set('matches', {id: 'extra'}, -1);
+
+  await expect(cacheService.peek('matches', {id: 'm1'})).resolves.toBeNull();
+  await expect(cacheService.peek('matches', {id: 'm0'})).resolves.toBe(0);
+  await expect(cacheService.peek('matches', {id: 'm2'})).resolves.toBe(2);
+  expect((await cacheService.getUsage()).totalEntries).toBe(maxEntries);
+});
+
+test('the index follows removals and is rebuilt from storage by a sweep', async () => {
+  await cacheService.set('matches', {id: 'm1'}, 'm1');
+  await cacheService.set('stats', {id: 'p1'}, 'p1');
+  await cacheService.set('stats', {id: 'p2'}, 'p2');
+
+  await cacheService.clearCategory('stats');
+  let usage = await cacheService.getUsage();
+  expect(usage.totalEntries).toBe(1);
+  expect(usage.categories.stats.entries).toBe(0);
+
+  // Storage changed behind the index's back: one entry vanished, one is
+  // past even the stale window, and one can't be parsed
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.removeItem(keys[0]);
+  await AsyncStorage.setItem(
+    '@tennis_cache:rankings:{"id":"old"}',
+    JSON.stringify({data: 1, timestamp: 0, ttl: 1000}),
+  );
+  await AsyncStorage.setItem('@tennis_cache:matches:{"id":"bad"}', '{');
+  await cacheService.set('profiles', {id: 't1'}, 't1');
+
+  await expect(cacheService.sweep()).resolves.toBe(2);
+  usage = await cacheService.getUsage();
+  expect(usage.totalEntries).toBe(1);
+  expect(usage.categories.profiles.entries).toBe(1);
+  expect(await AsyncStorage.getAllKeys()).toHaveLength(1);
+});
+
+test('an expired entry is served at once and refreshed in the background', async () => {
+  const now = Date.now();
+  const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+  await cacheService.cachedCall('matches', {date: '2025-03-01'}, async () => [
+    'old',
+  ]);
+
+  // Past the five hour matches TTL
+  dateSpy.mockReturnValue(now + 6 * 60 * 60 * 1000);
+  let finish: (data: string[]) => void = () => {};
+  const refresh = jest.fn(
+    () =>
+      new Promise<string[]>(resolve => {
+        finish = resolve;
+      }),
+  );
+  const refreshed = new Promise(resolve => {
+    const unsubscribe = cacheService.subscribe('matches', (_params, data) => {
+      unsubscribe();
+      resolve(data);
+    });
+  });
+
+  await expect(
+    cacheService.cachedCall('matches', {date: '2025-03-01'}, refresh),
+  ).resolves.toEqual(['old']);
+  expect(refresh).toHaveBeenCalledTimes(1);
+
+  finish(['new']);
+  await expect(refreshed).resolves.toEqual(['new']);
+  await expect(
+    cacheService.get('matches', {date: '2025-03-01'}),
+  ).resolves.toEqual(['new']);
+
+  // Without stale-while-revalidate the caller waits for fresh data
+  dateSpy.mockReturnValue(now + 12 * 60 * 60 * 1000);
+  await expect(
+    cacheService.cachedCall(
+      'matches',
+      {date: '2025-03-01'},
+      async () => ['newer'],
+      {
+        staleWhileRevalidate: false,
+      },
+    ),
+  ).resolves.toEqual(['newer']);
+});
+
+test('cache policies decide whether the network is used', async () => {
+  await cacheService.cachedCall('matches', {id: 'm1'}, async () => 'cached');
+  const network = jest.fn(async () => 'live');
+
+  await expect(
+    cacheService.cachedCall('matches', {id: 'm1'}, network, {
+      policy: 'cache-first',
+    }),
+  ).resolves.toBe('cached');
+  expect(network).not.toHaveBeenCalled();
+
+  await expect(
+    cacheService.cachedCall('matches', {id: 'm1'}, network, {
+      policy: 'network-first',
+    }),
+  ).resolves.toBe('live');
+  await expect(
+    cacheService.cachedCall('matches', {id: 'm1'}, network, {
+      policy: 'network-only',
+    }),
+  ).resolves.toBe('live');
+  expect(network).toHaveBeenCalledTimes(2);
+});
+
+test('network-first falls back to the cache when offline', async () => {
+  await cacheService.cachedCall('matches', {id: 'm1'}, async () => 'cached');
+  const offline = jest.fn(async () => {
+    throw new ApiError('Offline', 'Unable to connect to the server');
+  });
+
+  await expect(
+    cacheService.cachedCall('matches', {id: 'm1'}, offline, {
+      policy: 'network-first',
+    }),
+  ).resolves.toBe('cached');
+  await expect(
+    cacheService.cachedCall('matches', {id: 'm1'}, offline, {
+      policy: 'network-only',
+    }),
+  ).rejects.toMatchObject({kind: 'Offline'});
+  // Nothing cached to fall back on
+  await expect(
+    cacheService.cachedCall('matches', {id: 'm2'}, offline, {
+      policy: 'network-first',
+    }),
+  ).rejects.toMatchObject({kind: 'Offline'});
+});
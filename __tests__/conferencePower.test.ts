@@ -0,0 +1,40 @@
+/**
+ * @format
+ */
+
+import {buildConferencePower} from '../src/utils/conferencePower';
+
+const team = (team_id: string, rank: number, conference?: string) => ({
+  team_id,
+  rank,
+  points: 10 - rank,
+  conference,
+});
+
+test('conferences are grouped and scored by their ranked entries', () => {
+  const rows = buildConferencePower(
+    [
+      team('uga', 1, 'SEC'),
+      team('stan', 2, 'PAC_12'),
+      team('uf', 3, 'SEC'),
+      team('yale', 4),
+    ],
+    // The SEC player has no conference of their own and goes with the team
+    [
+      {team_id: 'stan', rank: 1, conference: 'PAC_12'},
+      {team_id: 'uf', rank: 2},
+    ],
+    [{team_id: 'yale', rank: 1}],
+  );
+
+  expect(rows.map(row => row.conference)).toEqual(['SEC', 'PAC_12']);
+  expect(rows[0]).toMatchObject({
+    bestRank: 1,
+    averageRank: 2,
+    points: 16,
+  });
+  expect(rows[0].singles).toHaveLength(1);
+  // Teams #1 and #3 of 4, and singles #2 of 2
+  expect(rows[0].score).toBeCloseTo(10 * (1 + 0.5 + 0.5 * 0.5));
+  expect(rows[1].score).toBeCloseTo(10 * (0.75 + 0.5 * 1));
+});
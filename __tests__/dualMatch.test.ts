@@ -0,0 +1,64 @@
+/**
+ * @format
+ */
+
+import {getTeamPointTally, isMatchLive} from '../src/utils/dualMatch';
+import type {MatchLineup} from '../src/api';
+
+const court = (
+  match_type: 'DOUBLES' | 'SINGLES',
+  position: number,
+  winner: 1 | 2 | null,
+): MatchLineup =>
+  ({
+    id: `${match_type}-${position}`,
+    match_id: 'match',
+    match_type,
+    position,
+    side1_player1_id: 'a',
+    side1_score: '',
+    side1_won: winner === 1,
+    side2_player1_id: 'b',
+    side2_score: '',
+    side2_won: winner === 2,
+  } as MatchLineup);
+
+test('a match is live from its start until it is final', () => {
+  const match = {
+    completed: false,
+    start_date: '2025-03-01T00:00:00Z',
+    scheduled_time: '2025-03-01T17:00:00Z',
+  };
+  expect(isMatchLive(match, new Date('2025-03-01T16:59:00Z'))).toBe(false);
+  expect(isMatchLive(match, new Date('2025-03-01T18:30:00Z'))).toBe(true);
+  expect(isMatchLive(match, new Date('2025-03-03T18:30:00Z'))).toBe(false);
+  expect(
+    isMatchLive({...match, completed: true}, new Date('2025-03-01T18:30:00Z')),
+  ).toBe(false);
+});
+
+test('a match without a scheduled time is not live', () => {
+  const tbd = {completed: false, start_date: '2025-03-01T00:00:00Z'};
+  expect(isMatchLive(tbd, new Date('2025-03-01T09:00:00Z'))).toBe(false);
+});
+
+test('the doubles point goes to the first team to win two courts', () => {
+  expect(
+    getTeamPointTally([
+      court('DOUBLES', 1, 2),
+      court('DOUBLES', 2, null),
+      court('SINGLES', 1, 1),
+    ]),
+  ).toEqual({home: 1, away: 0, doublesPoint: null});
+
+  expect(
+    getTeamPointTally([
+      court('DOUBLES', 1, 2),
+      court('DOUBLES', 2, 2),
+      court('DOUBLES', 3, 1),
+      court('SINGLES', 1, 1),
+      court('SINGLES', 2, 2),
+      court('SINGLES', 3, 1),
+    ]),
+  ).toEqual({home: 2, away: 2, doublesPoint: 'away'});
+});
@@ -0,0 +1,94 @@
+/**
+ * @format
+ */
+
+import entityStore from '../src/services/entityStore';
+
+beforeEach(() => entityStore.clear());
+
+test('partial records fill gaps without blanking fuller data', () => {
+  entityStore.putTeams([
+    {id: 't1', name: 'Stanford (M)', conference: 'PAC_12', division: 'DIV1'},
+  ]);
+  entityStore.putRankings([
+    {
+      ranking_list_id: 'l1',
+      team_id: 't1',
+      team_name: 'Stanford',
+      rank: 1,
+      points: 100,
+      wins: 10,
+      losses: 1,
+    },
+  ]);
+  entityStore.putPlayerTeam('p1', {team_id: 't1', team_name: 'Stanford'});
+
+  expect(entityStore.getTeam('t1')?.name).toBe('Stanford (M)');
+  expect(entityStore.getPlayerTeam('p1')?.division).toBe('DIV1');
+
+  entityStore.putTeams([
+    {id: 't1', name: 'Stanford (M)', abbreviation: 'STAN'},
+  ]);
+  expect(entityStore.getTeam('t1')).toMatchObject({
+    conference: 'PAC_12',
+    abbreviation: 'STAN',
+  });
+});
+
+test('subscribers hear about changes once per update', () => {
+  const listener = jest.fn();
+  const unsubscribe = entityStore.subscribe(listener);
+
+  entityStore.putMatchesWithData({
+    matches: [
+      {
+        id: 'm1',
+        start_date: '2025-03-01T17:00:00Z',
+        no_scheduled_time: false,
+        is_conference_match: false,
+        gender: 'MALE',
+        home_team_id: 't1',
+        away_team_id: 't2',
+        season: '2024',
+        completed: true,
+      },
+    ],
+    teams: {t1: {id: 't1', name: 'Home'}, t2: {id: 't2', name: 'Away'}},
+    scores: {m1: {home_team_score: 4, away_team_score: 2}},
+  });
+  expect(listener).toHaveBeenCalledTimes(1);
+
+  // Same data again keeps identity and stays quiet
+  const team = entityStore.getTeam('t1');
+  entityStore.putTeams([{id: 't1', name: 'Home'}]);
+  expect(entityStore.getTeam('t1')).toBe(team);
+  expect(listener).toHaveBeenCalledTimes(1);
+
+  unsubscribe();
+});
+
+test('a shorter fetch of a ranking list keeps the rows it did not return', () => {
+  const row = (team_id: string, rank: number, points: number) => ({
+    ranking_list_id: 'l1',
+    team_id,
+    team_name: team_id,
+    rank,
+    points,
+    wins: 0,
+    losses: 0,
+  });
+  entityStore.putRankings([
+    row('t1', 1, 90),
+    row('t2', 2, 80),
+    row('t3', 3, 70),
+  ]);
+  entityStore.putRankings([row('t1', 1, 95)]);
+
+  expect(
+    entityStore.getRankings('l1')?.map(entry => [entry.rank, entry.points]),
+  ).toEqual([
+    [1, 95],
+    [2, 80],
+    [3, 70],
+  ]);
+});
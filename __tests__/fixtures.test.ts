@@ -0,0 +1,116 @@
+/**
+ * @format
+ */
+
+import {AxiosHeaders} from 'axios';
+import {api, getErrorKind} from '../src/api';
+import {
+  fixtureKey,
+  recordResponse,
+  startRecording,
+  stopRecording,
+} from '../src/api/fixtures';
+import environmentService from '../src/services/environmentService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await environmentService.setEnvironment('fixtures');
+});
+
+afterAll(async () => {
+  await environmentService.setEnvironment('production');
+  jest.restoreAllMocks();
+});
+
+test('the bundled season serves valid responses through the api object', async () => {
+  const teams = await api.teams.getAll();
+  expect(teams.length).toBeGreaterThan(0);
+
+  const matches = await api.matches.getAllByTeam(teams[0].id, '2025');
+  expect(matches.length).toBeGreaterThan(0);
+  const completed = matches.find(match => match.completed)!;
+  const lineup = await api.matches.getLineup(completed.id);
+  expect(lineup.map(line => line.match_type)).toContain('SINGLES');
+
+  const lists = await api.rankings.getTeamRankingLists('DIV1', 'M');
+  const rankings = await api.rankings.getTeamRankings(lists[0].id);
+  expect(rankings[0].rank).toBe(1);
+});
+
+test('only params a recording did not use fall back to it', async () => {
+  const matches = await api.matches.getAll('2025-03-01');
+  expect(
+    matches.every(match => match.start_date.startsWith('2025-03-01')),
+  ).toBe(true);
+  // Another date's recording doesn't stand in for an unrecorded one
+  const error = await api.matches.getAll('2031-01-01').catch(err => err);
+  expect(getErrorKind(error)).toBe('NotFound');
+
+  // Rosters are recorded without the year they're asked for
+
+  const [team] = await api.teams.getAll();
+  const roster = await api.teams.getRoster(team.id, '2025');
+  expect(Array.isArray(roster)).toBe(true);
+});
+
+test('batch endpoints are assembled from single-entity fixtures', async () => {
+  const [match] = await api.matches.getAll();
+  const scores = await api.batch.getMatchScores([match.id, 'missing']);
+  expect(Object.keys(scores)).toEqual([match.id]);
+});
+
+test('unknown ids answer NotFound', async () => {
+  const error = await api.teams.getById('missing').catch(err => err);
+  expect(getErrorKind(error)).toBe('NotFound');
+});
+
+test('record mode captures responses in the fixture format', async () => {
+  await startRecording();
+  recordResponse({
+    data: [{id: 't1'}],
+    status: 200,
+    statusText: 'OK',
+    headers: {},
+    config: {
+      method: 'get',
+      url: '/teams',
+      params: {gender: 'MALE'},
+      headers: new AxiosHeaders(),
+    },
+  });
+  const recording = await stopRecording();
+  expect(recording?.responses).toEqual({
+    [fixtureKey('get', '/teams', {gender: 'MALE'})]: [{id: 't1'}],
+  });
+});
+
+test('lists without server paging are paged and filtered locally', async () => {
+  const all = await api.teams.getAll();
+  const first = await api.teams.getPage({page: 1, page_size: 5});
+  expect(first.items).toHaveLength(5);
+  expect(first.total_count).toBe(all.length);
+  expect(first.has_next).toBe(true);
+
+  const last = await api.teams.getPage({
+    page: Math.ceil(all.length / 5),
+    page_size: 5,
+  });
+  expect(last.has_next).toBe(false);
+  expect(last.has_previous).toBe(true);
+
+  const men = await api.teams.getPage({gender: 'M', page_size: 100});
+  expect(men.items.every(team => team.name.includes('(M)'))).toBe(true);
+  expect(men.total_count).toBeLessThan(all.length);
+
+  const bigTen = await api.teams.getPage({
+    conference: 'Big Ten',
+    gender: 'M',
+    page_size: 100,
+  });
+  expect(bigTen.items.length).toBeGreaterThan(0);
+  expect(bigTen.items.every(team => team.conference === 'Big Ten')).toBe(true);
+});
@@ -0,0 +1,40 @@
+/**
+ * @format
+ */
+
+import {getStateFromPath} from '@react-navigation/native';
+import {linking, links, LINK_SCHEME} from '../src/config/linking';
+
+jest.mock('@notifee/react-native', () => ({
+  __esModule: true,
+  default: {},
+  EventType: {PRESS: 1},
+}));
+
+// The stack a link opens, top screen last
+const routesFor = (url: string) =>
+  getStateFromPath(url.replace(LINK_SCHEME, ''), linking.config)?.routes.map(
+    ({name, params}) => ({name, params}),
+  );
+
+test('links open the screen on top of the tabs', () => {
+  expect(routesFor(links.match('M 1'))).toEqual([
+    {name: 'MainTabs', params: undefined},
+    {name: 'MatchDetail', params: {matchId: 'M 1'}},
+  ]);
+  expect(routesFor(links.tournamentDraw('T1', "Men's Singles"))).toEqual([
+    {name: 'MainTabs', params: undefined},
+    {
+      name: 'TournamentDraw',
+      params: {tournamentId: 'T1', drawName: "Men's Singles"},
+    },
+  ]);
+  expect(routesFor(links.tournamentDraw('T1'))?.[1]).toEqual({
+    name: 'TournamentDraw',
+    params: {tournamentId: 'T1'},
+  });
+});
+
+test('unknown paths fall back to the not-found screen', () => {
+  expect(routesFor(`${LINK_SCHEME}scores/today`)?.pop()?.name).toBe('NotFound');
+});
@@ -0,0 +1,129 @@
+/**
+ * @format
+ */
+
+import notifee from '@notifee/react-native';
+import {api} from '../src/api';
+import type {Match} from '../src/api';
+import environmentService from '../src/services/environmentService';
+import notificationService from '../src/services/notificationService';
+import {PreferencesManager} from '../src/utils/preferencesManager';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('react-native-device-info', () =>
+  require('react-native-device-info/jest/react-native-device-info-mock'),
+);
+jest.mock('@notifee/react-native', () => ({
+  __esModule: true,
+  default: {
+    createTriggerNotification: jest.fn(async () => ''),
+    displayNotification: jest.fn(async () => ''),
+    getTriggerNotificationIds: jest.fn(async () => []),
+    cancelTriggerNotifications: jest.fn(async () => {}),
+    cancelDisplayedNotifications: jest.fn(async () => {}),
+  },
+  AndroidImportance: {HIGH: 4},
+  AuthorizationStatus: {DENIED: 0},
+  EventType: {PRESS: 1},
+  TriggerType: {TIMESTAMP: 0},
+}));
+jest.mock('react-native-background-fetch', () => ({}));
+
+let teamId: string;
+let finished: Match;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await environmentService.setEnvironment('fixtures');
+  const teams = await api.teams.getAll();
+  teamId = teams[0].id;
+  const matches = await api.matches.getAllByTeam(teamId);
+  finished = matches.find(match => match.completed)!;
+  await PreferencesManager.savePreferences({favoriteTeams: [teamId]});
+});
+
+afterAll(async () => {
+  await environmentService.setEnvironment('production');
+  jest.restoreAllMocks();
+});
+
+test('reminders are scheduled and results posted once a match finishes', async () => {
+  const startsAt = Date.now() + 3 * 60 * 60 * 1000;
+  const upcoming = {
+    ...finished,
+    completed: false,
+    scheduled_time: new Date(startsAt).toISOString(),
+  };
+  const schedule = jest
+    .spyOn(api.matches, 'getAllByTeam')
+    .mockResolvedValueOnce([upcoming])
+    .mockResolvedValueOnce([finished]);
+
+  await notificationService.sync('foreground');
+  expect(notifee.createTriggerNotification).toHaveBeenCalledWith(
+    expect.objectContaining({id: `start-${finished.id}`}),
+    {type: 0, timestamp: startsAt - 30 * 60 * 1000},
+  );
+  expect(notifee.displayNotification).not.toHaveBeenCalled();
+
+  await notificationService.sync('background');
+  expect(notifee.displayNotification).toHaveBeenCalledWith(
+    expect.objectContaining({id: `result-${finished.id}`}),
+  );
+  const [alert] = await notificationService.getAlerts();
+  expect(alert).toMatchObject({
+    id: `result-${finished.id}`,
+    event: 'result',
+    teamId,
+    read: false,
+  });
+  expect(alert.title).toMatch(/^Final: .+ \d+, .+ \d+$/);
+
+  await notificationService.markRead(alert.id);
+  expect((await notificationService.getAlerts())[0].read).toBe(true);
+  schedule.mockRestore();
+});
+
+test('turning off a team stops its reminders', async () => {
+  const upcoming = {
+    ...finished,
+    completed: false,
+    scheduled_time: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  };
+  const schedule = jest
+    .spyOn(api.matches, 'getAllByTeam')
+    .mockResolvedValue([upcoming]);
+  (notifee.createTriggerNotification as jest.Mock).mockClear();
+
+  await notificationService.setSettingsFor(teamId, {
+    start: false,
+    result: true,
+  });
+
+  expect(notifee.createTriggerNotification).not.toHaveBeenCalled();
+  schedule.mockRestore();
+});
+
+test('a match without a scheduled time gets no start reminder', async () => {
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const tbd = {
+    ...finished,
+    completed: false,
+    start_date: tomorrow.toISOString().split('T')[0],
+    scheduled_time: undefined,
+  };
+  const schedule = jest
+    .spyOn(api.matches, 'getAllByTeam')
+    .mockResolvedValue([tbd]);
+  (notifee.createTriggerNotification as jest.Mock).mockClear();
+
+  await notificationService.setSettingsFor(teamId, {
+    start: true,
+    result: true,
+  });
+
+  expect(notifee.createTriggerNotification).not.toHaveBeenCalled();
+  schedule.mockRestore();
+});
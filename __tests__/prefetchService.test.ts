@@ -0,0 +1,89 @@
+/**
+ * @format
+ */
+
+import {api} from '../src/api';
+import cacheService from '../src/services/cacheService';
+import entityStore from '../src/services/entityStore';
+import environmentService from '../src/services/environmentService';
+import prefetchService from '../src/services/prefetchService';
+import {PreferencesManager} from '../src/utils/preferencesManager';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock'),
+);
+jest.mock('react-native-device-info', () =>
+  require('react-native-device-info/jest/react-native-device-info-mock'),
+);
+
+let teamId: string;
+let playerId: string;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await environmentService.setEnvironment('fixtures');
+  const teams = await api.teams.getAll();
+  teamId = teams[0].id;
+  playerId = (await api.teams.getRoster(teamId))[0].person_id;
+  await PreferencesManager.savePreferences({
+    favoriteTeams: [teamId],
+    favoritePlayers: [playerId],
+  });
+});
+
+beforeEach(() => entityStore.clear());
+
+afterAll(async () => {
+  await environmentService.setEnvironment('production');
+  cacheService.setOffline(false);
+  jest.restoreAllMocks();
+});
+
+test('launch warms the favorites without more than two requests at once', async () => {
+  let active = 0;
+  let peak = 0;
+  type Group = Record<string, (...args: any[]) => Promise<unknown>>;
+  const track = (group: Group, method: string) => {
+    const original = group[method];
+    return jest.spyOn(group, method).mockImplementation(async (...args) => {
+      active += 1;
+      peak = Math.max(peak, active);
+      try {
+        return await original(...args);
+      } finally {
+        active -= 1;
+      }
+    });
+  };
+  const spies = [
+    track(api.batch, 'getTeams'),
+    track(api.matches, 'getAllByTeam'),
+    track(api.players, 'getById'),
+    track(api.players, 'getTeam'),
+    track(api.players, 'getStats'),
+    track(api.players, 'getMatchResults'),
+  ];
+
+  await prefetchService.run('launch');
+
+  expect(entityStore.getTeam(teamId)).toBeDefined();
+  expect(entityStore.getPlayer(playerId)).toBeDefined();
+  expect(entityStore.getPlayerTeam(playerId)).toBeDefined();
+  expect(spies.every(spy => spy.mock.calls.length === 1)).toBe(true);
+  expect(peak).toBe(2);
+  spies.forEach(spy => spy.mockRestore());
+});
+
+test('nothing is prefetched while offline', async () => {
+  cacheService.setOffline(true);
+  const spy = jest.spyOn(api.batch, 'getTeams');
+
+  await prefetchService.run('launch');
+
+  expect(spy).not.toHaveBeenCalled();
+  cacheService.setOffline(false);
+  spy.mockRestore();
+});
@@ -0,0 +1,46 @@
+/**
+ * @format
+ */
+
+import {filterRankings, rankingConferences} from '../src/utils/rankingFilters';
+
+const doubles = [
+  {
+    rank: 1,
+    player1_name: 'Ann Smith',
+    player2_name: 'Beth Jones',
+    team_name: 'Stanford (W)',
+    conference: 'PAC_12',
+  },
+  {
+    rank: 2,
+    player1_name: 'Cara Lee',
+    player2_name: 'Dana Park',
+    team_name: 'Georgia (W)',
+    conference: 'SEC',
+  },
+  {
+    rank: 3,
+    player1_name: 'Eve Moss',
+    player2_name: 'Fay Hart',
+    team_name: 'Florida (W)',
+    conference: 'SEC',
+  },
+];
+
+test('conferences come from the list, by name', () => {
+  const independent = {rank: 4, team_name: 'Yale (W)'};
+  expect(rankingConferences([...doubles, independent])).toEqual([
+    'PAC_12',
+    'SEC',
+  ]);
+});
+
+test('search matches either partner or the team within a conference', () => {
+  expect(filterRankings(doubles, '', null)).toBe(doubles);
+  expect(filterRankings(doubles, ' jones', null).map(d => d.rank)).toEqual([1]);
+  expect(filterRankings(doubles, 'florida', 'SEC').map(d => d.rank)).toEqual([
+    3,
+  ]);
+  expect(filterRankings(doubles, 'a', 'SEC').map(d => d.rank)).toEqual([2, 3]);
+});
@@ -0,0 +1,57 @@
+/**
+ * @format
+ */
+
+import {
+  buildRankingOverlay,
+  rankingsInSeason,
+} from '../src/utils/rankingHistory';
+import {getCurrentSeason, getSeasonOf} from '../src/utils/season';
+
+const point = (publish_date: string, rank: number) => ({publish_date, rank});
+
+test('seasons run from August to the next summer', () => {
+  expect(getSeasonOf('2024-08-12')).toBe('2024');
+  expect(getSeasonOf('2025-07-31T00:00:00Z')).toBe('2024');
+  // Dates and today agree on where the season starts
+  expect(getCurrentSeason(new Date(2024, 7, 12))).toBe('2024');
+  expect(getCurrentSeason(new Date(2025, 6, 31))).toBe('2024');
+  expect(
+    rankingsInSeason(
+      [point('2025-08-10', 3), point('2025-04-01', 5), point('2024-10-01', 9)],
+      '2024',
+    ).map(entry => entry.rank),
+  ).toEqual([5, 9]);
+});
+
+test('series share one date axis with gaps where they were unranked', () => {
+  const overlay = buildRankingOverlay([
+    {
+      id: 'stan',
+      label: 'Stanford',
+      // Newest first, as the history endpoints return them
+      rankingHistory: [
+        point('2025-09-16T00:00:00Z', 2),
+        point('2025-05-01', 4),
+        point('2025-04-15', 6),
+      ],
+    },
+    {
+      id: 'cal',
+      label: 'California',
+      rankingHistory: [point('2025-05-01', 12), point('2025-04-08', 15)],
+    },
+  ]);
+
+  expect(overlay.dates).toEqual([
+    '2025-04-08',
+    '2025-04-15',
+    '2025-05-01',
+    '2025-09-16',
+  ]);
+  expect(overlay.ranks).toEqual([
+    [null, 6, 4, 2],
+    [15, null, 12, null],
+  ]);
+  expect(overlay.seasonStarts).toEqual([3]);
+});
@@ -0,0 +1,73 @@
+/**
+ * @format
+ */
+
+import {
+  compareRankings,
+  previousRankingList,
+} from '../src/utils/rankingMovement';
+
+const entries = (...keys: string[]) =>
+  keys.map((key, index) => ({key, rank: index + 1, name: key}));
+
+test('the previous list is the latest one published before the selected', () => {
+  const list = (id: string, planned_publish_date: string) => ({
+    id,
+    planned_publish_date,
+    publish_date: `${planned_publish_date}T12:00:00`,
+  });
+  const lists = [
+    list('c', '2025-03-18'),
+    list('b', '2025-03-11'),
+    list('a', '2025-03-04'),
+  ];
+
+  expect(previousRankingList(lists, lists[0])?.id).toBe('b');
+  expect(previousRankingList(lists, lists[1])?.id).toBe('a');
+  expect(previousRankingList(lists, lists[2])).toBeNull();
+});
+
+test('movement, debuts and drop-outs against the previous list', () => {
+  const comparison = compareRankings(
+    entries('B', 'A', 'C', 'D'),
+    entries('A', 'B', 'C', 'E', 'F', 'G', 'H'),
+    {moverCount: 2},
+  );
+
+  expect(comparison.movements).toEqual({
+    B: {kind: 'up', delta: 1},
+    A: {kind: 'down', delta: -1},
+    C: {kind: 'same'},
+    D: {kind: 'new'},
+  });
+  expect(comparison.droppedOut.map(entry => entry.key)).toEqual([
+    'E',
+    'F',
+    'G',
+    'H',
+  ]);
+  expect(comparison.risers).toEqual([
+    {key: 'B', rank: 1, name: 'B', previousRank: 2, delta: 1},
+  ]);
+  expect(comparison.fallers.map(mover => mover.key)).toEqual(['A']);
+});
+
+test('rows that crossed the shown edge keep their movement', () => {
+  // Three ranks shown, lists fetched two further
+  const comparison = compareRankings(
+    entries('A', 'B', 'D', 'C', 'E'),
+    entries('A', 'B', 'C', 'D', 'E'),
+    {shownRanks: 3},
+  );
+
+  expect(comparison.movements).toEqual({
+    A: {kind: 'same'},
+    B: {kind: 'same'},
+    D: {kind: 'up', delta: 1},
+  });
+  expect(comparison.droppedOut).toEqual([{key: 'C', rank: 3, name: 'C'}]);
+  expect(comparison.fallers).toEqual([
+    {key: 'C', rank: 4, name: 'C', previousRank: 3, delta: -1},
+  ]);
+  expect(comparison.risers.map(mover => mover.key)).toEqual(['D']);
+});
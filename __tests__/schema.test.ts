@@ -0,0 +1,32 @@
+/**
+ * @format
+ */
+
+import * as schemas from '../src/api/schemas';
+
+const match = {
+  id: 'm1',
+  start_date: '2025-03-01T17:00:00Z',
+  timezone: null,
+  no_scheduled_time: false,
+  is_conference_match: true,
+  gender: 'MALE',
+  home_team_id: 't1',
+  away_team_id: 't2',
+  season: '2024',
+  completed: false,
+};
+
+test('valid responses pass through unchanged, extra fields included', () => {
+  const response = [{...match, venue: 'Stadium Court'}];
+  expect(schemas.matches.parse(response)).toBe(response);
+});
+
+test('mismatches name the offending field', () => {
+  expect(() =>
+    schemas.matches.parse([match, {...match, completed: 'yes'}]),
+  ).toThrow('[1].completed: expected boolean, got string');
+  expect(() => schemas.tournamentDrawDetails.parse({matches: []})).toThrow(
+    'draw_id: expected string, got undefined',
+  );
+});
@@ -0,0 +1,123 @@
+/**
+ * @format
+ */
+
+import {
+  drawRoundSummary,
+  flipScore,
+  matchBoxScore,
+  summaryToText,
+} from '../src/utils/shareSummaries';
+import type {
+  Match,
+  MatchLineup,
+  Player,
+  Team,
+  TournamentMatch,
+} from '../src/api';
+
+jest.mock('@notifee/react-native', () => ({
+  __esModule: true,
+  default: {},
+  EventType: {PRESS: 1},
+}));
+
+const player = (id: string, first_name: string, last_name: string) =>
+  ({person_id: id, first_name, last_name} as Player);
+
+const court = (
+  match_type: 'DOUBLES' | 'SINGLES',
+  position: number,
+  side1: string[],
+  side2: string[],
+  side1_score: string,
+  winner: 1 | 2 | null,
+): MatchLineup => ({
+  id: `${match_type}-${position}`,
+  match_id: 'M1',
+  match_type,
+  position,
+  side1_player1_id: side1[0],
+  side1_player2_id: side1[1],
+  side1_score,
+  side1_won: winner === 1,
+  side2_player1_id: side2[0],
+  side2_player2_id: side2[1],
+  side2_score: flipScore(side1_score),
+  side2_won: winner === 2,
+});
+
+test('scores flip to the other side, tiebreaks included', () => {
+  expect(flipScore('6-4, 6-7(4)')).toBe('4-6 7(4)-6');
+  expect(flipScore('')).toBe('');
+});
+
+test('a box score lists each court winner first', () => {
+  const summary = matchBoxScore({
+    match: {
+      id: 'M1',
+      start_date: '2025-03-01T17:00:00Z',
+      completed: true,
+      home_team_id: 'H',
+      away_team_id: 'A',
+    } as Match,
+    homeTeam: {id: 'H', name: 'Stanford (M)'} as Team,
+    awayTeam: {id: 'A', name: 'Cal (M)'} as Team,
+    lineup: [
+      court('DOUBLES', 1, ['a', 'b'], ['c', 'd'], '6-3', 1),
+      court('DOUBLES', 2, ['e', 'f'], ['g', 'h'], '6-4', 1),
+      court('SINGLES', 1, ['a'], ['c'], '4-6 6-7(5)', 2),
+    ],
+    score: {home_team_score: 4, away_team_score: 1, home_team_won: true},
+    players: {
+      a: player('a', 'Ann', 'Smith'),
+      c: player('c', 'Cara', 'Lee'),
+    },
+  });
+
+  expect(summary.title).toBe('Stanford 4, Cal 1');
+  expect(summary.sections).toEqual([
+    {
+      title: 'Doubles (Stanford)',
+      lines: ['#1 A. Smith/TBD d. C. Lee/TBD 6-3', '#2 TBD/TBD d. TBD/TBD 6-4'],
+    },
+    {title: 'Singles', lines: ['#1 C. Lee d. A. Smith 6-4 7(5)-6']},
+    {title: 'Result', lines: ['Stanford wins']},
+  ]);
+  expect(summaryToText(summary)).toContain('collegetennis://match/M1');
+});
+
+test('a draw round lists every match and shows no school logos', () => {
+  const match = (
+    side1: TournamentMatch['side1'],
+    side2: TournamentMatch['side2'],
+    winning_side?: number,
+  ) =>
+    ({side1, side2, winning_side, score_side1: '6-2 6-3'} as TournamentMatch);
+  const summary = drawRoundSummary({
+    tournamentId: 'T1',
+    drawName: 'Singles',
+    roundName: 'Round of 16',
+    matches: [
+      match(
+        {
+          participant_name: 'A. Smith',
+          school_id: 'S1',
+          school_name: 'Stanford',
+        },
+        {participant_name: 'C. Lee', school_id: 'S2', school_name: 'Cal'},
+        1,
+      ),
+      match({}, {}),
+      match({}, {}),
+    ],
+  });
+
+  expect(summary.sections[0].lines).toEqual([
+    'A. Smith (Stanford) d. C. Lee (Cal) 6-2 6-3',
+    'TBD vs TBD',
+    'TBD vs TBD',
+  ]);
+  expect(summary.homeTeamId).toBeUndefined();
+  expect(summary.awayTeamId).toBeUndefined();
+});
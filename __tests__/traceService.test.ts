@@ -0,0 +1,66 @@
+/**
+ * @format
+ */
+
+import {api} from '../src/api';
+import environmentService from '../src/services/environmentService';
+import traceService, {
+  endpointFor,
+  percentile,
+} from '../src/services/traceService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await environmentService.setEnvironment('fixtures');
+});
+
+afterAll(async () => {
+  await environmentService.setEnvironment('production');
+  jest.restoreAllMocks();
+});
+
+test('endpoints group urls by route, not by id', () => {
+  expect(endpointFor('get', '/players/4F2A9C10/stats?season=2024')).toBe(
+    'GET /players/:id/stats',
+  );
+  expect(endpointFor('post', '/batch/match-scores')).toBe(
+    'POST /batch/match-scores',
+  );
+});
+
+test('percentiles use the nearest rank', () => {
+  const durations = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+  expect(percentile(durations, 50)).toBe(50);
+  expect(percentile(durations, 90)).toBe(90);
+  expect(percentile(durations, 99)).toBe(100);
+  expect(percentile([], 50)).toBe(0);
+});
+
+test('requests are traced with their cache outcome', async () => {
+  traceService.clear();
+  const [team] = await api.teams.getAll();
+  await api.teams.getById(team.id);
+  await api.teams.getById(team.id);
+
+  const [trace] = traceService
+    .getTraces()
+    .filter(({endpoint}) => endpoint === 'GET /teams/:id');
+  expect(trace).toMatchObject({
+    status: 200,
+    category: 'profiles',
+    cache: 'miss',
+    retries: 0,
+    error: null,
+  });
+  expect(trace.size).toBeGreaterThan(0);
+  expect(traceService.getCacheCounts().profiles.hit).toBe(1);
+
+  const exported = JSON.parse(JSON.stringify(traceService.export()));
+  expect(exported.endpoints.map(({endpoint}: any) => endpoint)).toContain(
+    'GET /teams/:id',
+  );
+});
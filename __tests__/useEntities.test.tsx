@@ -0,0 +1,40 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import type {Team} from '../src/api';
+import {useTeams} from '../src/hooks/useEntities';
+import entityStore from '../src/services/entityStore';
+
+beforeEach(() => entityStore.clear());
+
+test('a team map keeps its identity until the store or the ids change', async () => {
+  const seen: Array<Record<string, Team>> = [];
+  const Teams = ({ids}: {ids: string[]}) => {
+    seen.push(useTeams(ids));
+    return null;
+  };
+
+  entityStore.putTeams([{id: 't1', name: 'Stanford (M)'}]);
+  let renderer!: ReactTestRenderer.ReactTestRenderer;
+  await ReactTestRenderer.act(() => {
+    renderer = ReactTestRenderer.create(<Teams ids={['t1', 't2']} />);
+  });
+  await ReactTestRenderer.act(() => {
+    renderer.update(<Teams ids={['t1', 't2']} />);
+  });
+  expect(seen[1]).toBe(seen[0]);
+  expect(Object.keys(seen[0])).toEqual(['t1']);
+
+  await ReactTestRenderer.act(() => {
+    entityStore.putTeams([{id: 't2', name: 'California (M)'}]);
+  });
+  expect(Object.keys(seen[seen.length - 1])).toEqual(['t1', 't2']);
+
+  await ReactTestRenderer.act(() => {
+    renderer.update(<Teams ids={['t2']} />);
+  });
+  expect(Object.keys(seen[seen.length - 1])).toEqual(['t2']);
+});
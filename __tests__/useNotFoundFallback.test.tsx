@@ -0,0 +1,70 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import {ApiError, getErrorKind} from '../src/api';
+import {
+  primaryRequest,
+  useNotFoundFallback,
+} from '../src/hooks/useNotFoundFallback';
+
+const mockReplace = jest.fn();
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('@react-navigation/native', () => ({
+  useNavigation: () => ({replace: mockReplace}),
+}));
+
+const notFound = () => new ApiError('NotFound', 'No data found', 404);
+
+// A detail screen's load: the match itself, then its lineup
+const loadMatch = async (
+  match: () => Promise<unknown>,
+  lineup: () => Promise<unknown>,
+): Promise<unknown> => {
+  try {
+    await primaryRequest(match());
+    await lineup();
+    return null;
+  } catch (error) {
+    return error;
+  }
+};
+
+const MatchScreen = ({error}: {error: unknown}) => {
+  useNotFoundFallback(error, 'match');
+  return null;
+};
+
+const renderWithError = async (error: unknown) => {
+  await ReactTestRenderer.act(() => {
+    ReactTestRenderer.create(<MatchScreen error={error} />);
+  });
+};
+
+beforeEach(() => mockReplace.mockClear());
+
+test('a valid match whose lineup 404s stays on screen', async () => {
+  const error = await loadMatch(
+    () => Promise.resolve({id: 'match-1'}),
+    () => Promise.reject(notFound()),
+  );
+
+  expect(getErrorKind(error)).toBe('NotFound');
+  await renderWithError(error);
+  expect(mockReplace).not.toHaveBeenCalled();
+});
+
+test('a match that does not exist is swapped for the not-found screen', async () => {
+  const error = await loadMatch(
+    () => Promise.reject(notFound()),
+    () => Promise.resolve([]),
+  );
+
+  await renderWithError(error);
+  expect(mockReplace).toHaveBeenCalledWith('NotFound', {target: 'match'});
+});
@@ -3,7 +3,25 @@
  */
 
 import {AppRegistry} from 'react-native';
+import notifee from '@notifee/react-native';
+import BackgroundFetch from 'react-native-background-fetch';
 import App from './App';
 import {name as appName} from './app.json';
+import environmentService from './src/services/environmentService';
+import notificationService from './src/services/notificationService';
 
 AppRegistry.registerComponent(appName, () => App);
+
+// Notifications opened while the app isn't running
+notifee.onBackgroundEvent(event => notificationService.handleEvent(event));
+
+// Android runs the background check without the app when it was closed
+BackgroundFetch.registerHeadlessTask(async ({taskId, timeout}) => {
+  if (timeout) {
+    BackgroundFetch.finish(taskId);
+    return;
+  }
+  await environmentService.load();
+  await notificationService.sync('background');
+  BackgroundFetch.finish(taskId);
+});
@@ -0,0 +1,81 @@
+// src/api/errors.ts
+import type {AxiosError} from 'axios';
+
+// What went wrong, independent of how a screen chooses to show it
+export type ApiErrorKind =
+  | 'NotFound'
+  | 'Empty'
+  | 'ServerError'
+  | 'Offline'
+  | 'Unauthorized'
+  | 'InvalidResponse'
+  | 'Unknown';
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  url?: string;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    status?: number,
+    url?: string,
+  ) {
+    super(message);
+    this.name = `${kind}Error`;
+    this.kind = kind;
+    this.status = status;
+    this.url = url;
+  }
+}
+
+// Checked by kind rather than instanceof, which transpiled Error subclasses
+// don't always support
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof Error &&
+  typeof (error as Partial<ApiError>).kind === 'string';
+
+export const getErrorKind = (error: unknown): ApiErrorKind =>
+  isApiError(error) ? error.kind : 'Unknown';
+
+/**
+ * Map a failed axios request onto an ApiError
+ */
+export const toApiError = (error: AxiosError<any>): ApiError => {
+  const url = error.config?.url;
+  const {response} = error;
+
+  if (!response) {
+    // The request went out but nothing came back
+    return error.request
+      ? new ApiError(
+          'Offline',
+          'Unable to connect to the server',
+          undefined,
+          url,
+        )
+      : new ApiError('Unknown', error.message, undefined, url);
+  }
+
+  const {status} = response;
+  if (status === 404) {
+    return new ApiError('NotFound', 'No data found', status, url);
+  }
+  if (status === 401 || status === 403) {
+    return new ApiError('Unauthorized', 'Access denied', status, url);
+  }
+  // The positions endpoint answers 500 when a season has no position data
+  if (status === 500 && url?.includes('/positions')) {
+    return new ApiError('Empty', 'No position data available', status, url);
+  }
+  if (status >= 500) {
+    return new ApiError('ServerError', 'Server error', status, url);
+  }
+  return new ApiError(
+    'Unknown',
+    response.data?.message || error.message || 'Invalid request',
+    status,
+    url,
+  );
+};
@@ -0,0 +1,299 @@
+// src/api/fixtures.ts
+// Recorded API responses. The bundled fixtures environment replays them
+// through an axios adapter, so the api object and every screen work
+// unchanged; record mode captures live responses in the same format.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {AxiosError, AxiosHeaders, CanceledError} from 'axios';
+import type {
+  AxiosAdapter,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import {debugLog} from '../services/traceService';
+
+export interface FixtureSet {
+  version: 1;
+  recordedAt: string;
+  // Response bodies keyed by fixtureKey()
+  responses: Record<string, unknown>;
+}
+
+const RECORDING_KEY = '@tennis_fixture_recording';
+const RECORDING_PERSIST_DELAY = 2000;
+
+/**
+ * Key for a request, e.g. `GET /matches?date=2025-03-01`. Query params are
+ * sorted so the same request always maps to the same fixture.
+ */
+export const fixtureKey = (
+  method: string,
+  url: string,
+  params?: Record<string, unknown>,
+): string => {
+  const query = Object.keys(params ?? {})
+    .filter(name => params?.[name] !== undefined && params?.[name] !== null)
+    .sort()
+    .map(name => `${name}=${String(params?.[name])}`)
+    .join('&');
+  return `${method.toUpperCase()} ${url}${query ? `?${query}` : ''}`;
+};
+
+const pathOf = (key: string): string => key.split('?')[0];
+
+const queryOf = (key: string): Record<string, string> => {
+  const query = key.split('?')[1];
+  if (!query) {
+    return {};
+  }
+  return Object.fromEntries(
+    query.split('&').map(pair => {
+      const separator = pair.indexOf('=');
+      return [pair.slice(0, separator), pair.slice(separator + 1)];
+    }),
+  );
+};
+
+// Batch endpoints take arbitrary id lists, so they're answered from the
+// single-entity fixtures instead of being recorded per combination
+const idsFromBody = (body: unknown): string[] => {
+  if (Array.isArray(body)) {
+    return body.map(String);
+  }
+  const teamIds = (body as {team_ids?: unknown} | null)?.team_ids;
+  return Array.isArray(teamIds) ? teamIds.map(String) : [];
+};
+
+const BATCH_ROUTES: Record<
+  string,
+  (ids: string[], find: (key: string) => unknown) => unknown
+> = {
+  'POST /teams/batch': (ids, find) =>
+    ids.map(id => find(`GET /teams/${id}`)).filter(Boolean),
+  'POST /batch/teams': (ids, find) =>
+    Object.fromEntries(
+      ids.map(id => [id, find(`GET /teams/${id}`)]).filter(([, team]) => team),
+    ),
+  'POST /batch/match-scores': (ids, find) =>
+    Object.fromEntries(
+      ids
+        .map(id => [id, find(`GET /matches/${id}/score`)])
+        .filter(([, score]) => score),
+    ),
+  // Logos aren't bundled; TeamLogo shows its placeholder instead
+  'POST /teams/logos/batch': () => ({logos: {}}),
+};
+
+class FixtureStore {
+  private set: FixtureSet;
+  // Recorded keys per path, for requests with params the recordings didn't
+  // use, e.g. paging over a list recorded whole
+  private pathIndex = new Map<
+    string,
+    Array<{key: string; query: Record<string, string>}>
+  >();
+
+  constructor(set: FixtureSet) {
+    this.set = set;
+    Object.keys(set.responses).forEach(key => {
+      const path = pathOf(key);
+      const recorded = this.pathIndex.get(path) ?? [];
+      recorded.push({key, query: queryOf(key)});
+      this.pathIndex.set(path, recorded);
+    });
+  }
+
+  private find = (key: string): unknown => {
+    if (key in this.set.responses) {
+      return this.set.responses[key];
+    }
+    // Params any recording of the path uses pick the data (a date, a
+    // season), so they have to match; the rest are ignored
+    const query = queryOf(key);
+    const recorded = this.pathIndex.get(pathOf(key)) ?? [];
+    const selecting = new Set(
+      recorded.flatMap(entry => Object.keys(entry.query)),
+    );
+    const match = recorded.find(entry =>
+      [...selecting].every(name => entry.query[name] === query[name]),
+    );
+    return match ? this.set.responses[match.key] : undefined;
+  };
+
+  /**
+   * Look up the response for a request. Params no recording of the path
+   * uses (paging, limits) are ignored; any other unrecorded request is
+   * missing.
+   */
+  resolve(key: string, body?: unknown): unknown {
+    const batch = BATCH_ROUTES[pathOf(key)];
+    if (batch && !(key in this.set.responses)) {
+      return batch(idsFromBody(body), this.find);
+    }
+    return this.find(key);
+  }
+}
+
+let bundledStore: FixtureStore | null = null;
+
+// The bundled season is only parsed once fixtures are first used
+const getBundledStore = (): FixtureStore => {
+  if (!bundledStore) {
+    bundledStore = new FixtureStore(
+      require('../fixtures/season.json') as FixtureSet,
+    );
+  }
+  return bundledStore;
+};
+
+const parseBody = (data: unknown): unknown => {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+const toResponse = (
+  config: InternalAxiosRequestConfig,
+  status: number,
+  data: unknown,
+): AxiosResponse => ({
+  data,
+  status,
+  statusText: status === 200 ? 'OK' : 'Not Found',
+  headers: new AxiosHeaders(),
+  config,
+  request: {},
+});
+
+/**
+ * Axios adapter answering every request from the bundled fixtures.
+ * Unrecorded requests get a 404, like a missing record on the server.
+ */
+export const fixtureAdapter: AxiosAdapter = async config => {
+  if (config.signal?.aborted) {
+    throw new CanceledError(undefined, undefined, config);
+  }
+
+  const key = fixtureKey(
+    config.method ?? 'get',
+    config.url ?? '',
+    config.params,
+  );
+  const data = getBundledStore().resolve(key, parseBody(config.data));
+  if (data === undefined) {
+    throw new AxiosError(
+      `No fixture for ${key}`,
+      AxiosError.ERR_BAD_REQUEST,
+      config,
+      {},
+      toResponse(config, 404, {message: 'No fixture recorded'}),
+    );
+  }
+  return toResponse(config, 200, data);
+};
+
+// Record mode
+
+let recording: FixtureSet | null = null;
+let recordingLoad: Promise<void> | null = null;
+let recordingPersistTimer: ReturnType<typeof setTimeout> | null = null;
+
+const loadRecording = async (): Promise<FixtureSet | null> => {
+  if (!recordingLoad) {
+    recordingLoad = AsyncStorage.getItem(RECORDING_KEY)
+      .then(stored => {
+        if (stored) {
+          recording = JSON.parse(stored);
+        }
+      })
+      .catch(error => console.error('Fixture recording load error:', error));
+  }
+  await recordingLoad;
+  return recording;
+};
+
+const flushRecording = () => {
+  if (recordingPersistTimer) {
+    clearTimeout(recordingPersistTimer);
+    recordingPersistTimer = null;
+  }
+  const write = recording
+    ? AsyncStorage.setItem(RECORDING_KEY, JSON.stringify(recording))
+    : AsyncStorage.removeItem(RECORDING_KEY);
+  write.catch(error => console.error('Fixture recording save error:', error));
+};
+
+// Batches writes, since a screen load records several responses at once
+const persistRecording = () => {
+  if (recordingPersistTimer) {
+    return;
+  }
+  recordingPersistTimer = setTimeout(flushRecording, RECORDING_PERSIST_DELAY);
+};
+
+/**
+ * Whether live responses are being captured. Recording survives restarts so
+ * a session can be built up across several launches.
+ */
+export const isRecording = async (): Promise<boolean> =>
+  (await loadRecording()) !== null;
+
+/**
+ * Start capturing live responses, discarding any previous recording
+ */
+export const startRecording = async (): Promise<void> => {
+  await loadRecording();
+  recording = {
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    responses: {},
+  };
+  flushRecording();
+  debugLog('Fixture recording started');
+};
+
+/**
+ * Stop capturing and return what was recorded, in the bundled fixture format
+ */
+export const stopRecording = async (): Promise<FixtureSet | null> => {
+  const finished = await loadRecording();
+  recording = null;
+  flushRecording();
+  debugLog(
+    `Fixture recording stopped: ${
+      Object.keys(finished?.responses ?? {}).length
+    } responses`,
+  );
+  return finished;
+};
+
+export const getRecordingSize = async (): Promise<number> =>
+  Object.keys((await loadRecording())?.responses ?? {}).length;
+
+/**
+ * Capture a successful live response while recording. Batch endpoints are
+ * skipped since replay builds them from single-entity responses.
+ */
+export const recordResponse = (response: AxiosResponse): void => {
+  const {config} = response;
+  const key = fixtureKey(
+    config.method ?? 'get',
+    config.url ?? '',
+    config.params,
+  );
+  if (BATCH_ROUTES[pathOf(key)]) {
+    return;
+  }
+  loadRecording().then(current => {
+    if (!current) {
+      return;
+    }
+    current.responses[key] = response.data;
+    current.recordedAt = new Date().toISOString();
+    persistRecording();
+  });
+};
@@ -1,12 +1,28 @@
 // src/api/index.ts
-import axios from 'axios';
-import type {AxiosResponse} from 'axios';
-import {Alert} from 'react-native';
+import axios, {CanceledError} from 'axios';
+import type {
+  AxiosError,
+  AxiosResponse,
+  GenericAbortSignal,
+  InternalAxiosRequestConfig,
+} from 'axios';
 import cacheService from '../services/cacheService';
-
-// Base URL should come from environment config
-const BASE_URL = 'https://shark-app-bei8p.ondigitalocean.app/api/v1';
-// const BASE_URL = 'http://localhost:8000/api/v1';
+import entityStore from '../services/entityStore';
+import environmentService from '../services/environmentService';
+import traceService, {debugLog, endpointFor} from '../services/traceService';
+import type {CachePolicy, RelatedEntry} from '../services/cacheService';
+import {ApiError, toApiError} from './errors';
+import {fixtureAdapter, recordResponse} from './fixtures';
+import {isSchemaError} from './schema';
+import type {Schema} from './schema';
+import * as schemas from './schemas';
+
+export {ApiError, isApiError, getErrorKind} from './errors';
+export type {ApiErrorKind} from './errors';
+
+// Base URL of the environment picked by the build or the developer menu
+const getBaseUrl = (): string =>
+  environmentService.getEnvironment().baseUrl ?? '';
 
 // API response interfaces
 export interface Team {
@@ -55,6 +71,9 @@ export interface MatchLineup {
   side2_player2_id?: string;
   side2_score: string;
   side2_won: boolean;
+  // Shown next to the players when a lineup carries them
+  side1_name?: string;
+  side2_name?: string;
 }
 
 export interface MatchScore {
@@ -231,6 +250,30 @@ export interface TournamentsResponse {
   has_previous: boolean;
 }
 
+// One page of a paginated list
+export interface Page<T> {
+  items: T[];
+  total_count: number;
+  page: number;
+  page_size: number;
+  has_next: boolean;
+  has_previous: boolean;
+}
+
+export interface PageParams {
+  page?: number; // 1-based
+  page_size?: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 25;
+
+export interface TeamPageParams extends PageParams {
+  query?: string;
+  division?: string;
+  gender?: string; // 'M' or 'F'
+  conference?: string;
+}
+
 export interface TournamentDraw {
   draw_id: string;
   tournament_id: string;
@@ -314,6 +357,21 @@ export interface TournamentDrawDetails {
   participants_count: number;
 }
 
+export interface RankingHistoryEntry {
+  ranking_list_id?: string;
+  rank: number;
+  points?: number;
+  wins?: number;
+  losses?: number;
+  publish_date: string;
+}
+
+export interface MatchesWithData {
+  matches: Match[];
+  teams: Record<string, Team>;
+  scores: Record<string, MatchScore>;
+}
+
 export interface TeamBatchRequest {
   team_ids: string[];
 }
@@ -322,192 +380,567 @@ export interface TeamLogoBatchResponse {
   logos: {[teamId: string]: string}; // team_id -> base64 encoded logo
 }
 
+export interface RequestOptions {
+  // How the request uses the cache; defaults to cache-first
+  cachePolicy?: CachePolicy;
+  // Cancels the request, e.g. when the screen unmounts
+  signal?: AbortSignal;
+}
+
+// True for requests cancelled through RequestOptions.signal
+export const isAbortError = (error: unknown): boolean =>
+  axios.isCancel(error) ||
+  (error instanceof Error && error.name === 'AbortError');
+
 // Create axios instance
 const apiClient = axios.create({
-  baseURL: BASE_URL,
+  baseURL: getBaseUrl(),
   timeout: 50000,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// Response interceptor for error handling
-apiClient.interceptors.response.use(
-  response => response,
-  error => {
-    const {response} = error;
-
-    if (response) {
-      const url = error.config?.url || '';
-
-      // Don't show alerts for 404 errors on player-specific season data
-      // These are expected when a player has no data for a specific season
-      if (response.status === 404) {
-        console.log('No data found (404):', url);
-        return Promise.reject(error);
-      }
+// The bundled fixtures environment swaps the transport, not the api object
+const networkAdapter = apiClient.defaults.adapter;
+const applyEnvironment = () => {
+  apiClient.defaults.baseURL = getBaseUrl();
+  apiClient.defaults.adapter =
+    environmentService.getEnvironment().source === 'fixtures'
+      ? fixtureAdapter
+      : networkAdapter;
+};
+applyEnvironment();
 
-      // Don't show alerts for 500 errors on positions endpoint
-      // This often happens when there's no position data for a season
-      if (response.status === 500 && url.includes('/positions')) {
-        console.log('No position data available (500):', url);
-        return Promise.reject(error);
-      }
+// Follow environment switches from the developer menu and demo mode
+environmentService.subscribe(applyEnvironment);
 
-      // Don't show alerts for empty responses (common when no season data)
-      if (
-        response.status === 200 &&
-        (!response.data ||
-          (Array.isArray(response.data) && response.data.length === 0))
-      ) {
-        console.log('Empty data received:', url);
-        return Promise.reject(error);
-      }
+// Retry settings for idempotent GETs that fail with a 5xx or network error
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 8000;
 
-      // Only show alerts for actual unexpected errors
-      if (response.status >= 500 && !url.includes('/positions')) {
-        Alert.alert(
-          'Server Error',
-          'Something went wrong on our end. Please try again later.',
-        );
-      } else if (response.status === 401) {
-        Alert.alert('Unauthorized', 'Please log in to continue.');
-      } else if (response.status === 403) {
-        Alert.alert(
-          'Access Denied',
-          "You don't have permission to access this resource.",
-        );
-      } else if (response.status === 400) {
-        const errorMessage = response.data?.message || 'Invalid request';
-        Alert.alert('Error', errorMessage);
-      }
-    } else if (error.request) {
-      // Only show network errors
-      Alert.alert(
-        'Network Error',
-        'Unable to connect to the server. Please check your internet connection.',
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  retryCount?: number;
+  // Set on the first attempt; retries reuse the config
+  traceStart?: number;
+}
+
+const shouldRetry = (error: AxiosError): boolean => {
+  const config = error.config as RetryableRequestConfig | undefined;
+  if (!config || config.method !== 'get') {
+    return false;
+  }
+  if ((config.retryCount ?? 0) >= MAX_RETRIES) {
+    return false;
+  }
+  if (error.response) {
+    // /positions answers 500 when a season has no data; retrying won't help
+    return error.response.status >= 500 && !config.url?.includes('/positions');
+  }
+  // No response: retry dropped connections, but not timeouts or offline
+  return (
+    error.code !== 'ECONNABORTED' && !cacheService.getOfflineStatus().offline
+  );
+};
+
+// Exponential backoff with full jitter, so retries from many screens spread out
+const retryDelay = (attempt: number): number =>
+  Math.random() *
+  Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (attempt - 1));
+
+const waitForRetry = (
+  delay: number,
+  signal?: GenericAbortSignal,
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener?.('abort', onAbort);
+  });
+
+// Body length in characters, from the header when the server sends one
+const responseSize = (response?: AxiosResponse): number => {
+  if (!response || response.data === undefined || response.data === null) {
+    return 0;
+  }
+  const contentLength = Number(response.headers?.['content-length']);
+  if (contentLength > 0) {
+    return contentLength;
+  }
+  return typeof response.data === 'string'
+    ? response.data.length
+    : JSON.stringify(response.data).length;
+};
+
+// Record a finished request, after its last retry, for the diagnostics screen
+const traceRequest = (
+  config: RetryableRequestConfig | undefined,
+  response?: AxiosResponse,
+  error?: ApiError,
+) => {
+  if (!config) {
+    return;
+  }
+  const url = config.url ?? '';
+  const method = config.method ?? 'get';
+  const context = traceService.contextFor(config.signal);
+  traceService.recordRequest({
+    timestamp: config.traceStart ?? Date.now(),
+    method: method.toUpperCase(),
+    url,
+    endpoint: endpointFor(method, url),
+    status: response?.status ?? error?.status ?? null,
+    duration: Date.now() - (config.traceStart ?? Date.now()),
+    size: responseSize(response),
+    retries: config.retryCount ?? 0,
+    category: context?.category ?? null,
+    cache: context?.cache ?? null,
+    error: error?.kind ?? null,
+  });
+};
+
+apiClient.interceptors.request.use(config => {
+  const traced = config as RetryableRequestConfig;
+  traced.traceStart = traced.traceStart ?? Date.now();
+  return config;
+});
+
+// Response interceptor: retries, then turns failures into typed ApiErrors.
+// Screens decide how to present them.
+apiClient.interceptors.response.use(
+  response => {
+    // A 200 without a body means there's nothing for this request
+    if (response.data === null || response.data === '') {
+      const emptyError = new ApiError(
+        'Empty',
+        'Empty response',
+        response.status,
+        response.config.url,
+      );
+      traceRequest(response.config, response, emptyError);
+      return Promise.reject(emptyError);
+    }
+    traceRequest(response.config, response);
+    // Capture live responses while record mode is on
+    if (environmentService.getEnvironment().source === 'network') {
+      recordResponse(response);
+    }
+    return response;
+  },
+  async error => {
+    // Cancelled on purpose; nothing to report
+    if (axios.isCancel(error)) {
+      return Promise.reject(error);
+    }
+
+    if (shouldRetry(error)) {
+      const config = error.config as RetryableRequestConfig;
+      config.retryCount = (config.retryCount ?? 0) + 1;
+      const delay = retryDelay(config.retryCount);
+      debugLog(
+        `Retry ${config.retryCount}/${MAX_RETRIES} in ${Math.round(delay)}ms:`,
+        config.url,
       );
+      await waitForRetry(delay, config.signal);
+      return apiClient(config);
     }
 
-    return Promise.reject(error);
+    const apiError = toApiError(error);
+    traceRequest(error.config, error.response, apiError);
+    return Promise.reject(apiError);
   },
 );
 
+// Check a response against its schema; mismatches surface as InvalidResponse
+// errors naming the offending field
+const validateWith =
+  <T>(schema: Schema<T>) =>
+  (data: unknown): T => {
+    try {
+      return schema.parse(data);
+    } catch (error) {
+      if (isSchemaError(error)) {
+        throw new ApiError('InvalidResponse', error.message);
+      }
+      throw error;
+    }
+  };
+
+// Cache tags tie entries to the entities they describe
+const cacheTags = {
+  match: (id: string) => `match:${id}`,
+  team: (id: string) => `team:${id}`,
+  player: (id: string) => `player:${id}`,
+};
+
+const lineupPlayerIds = (lineup: MatchLineup[]): string[] => {
+  const playerIds = new Set<string>();
+  lineup.forEach(line => {
+    [
+      line.side1_player1_id,
+      line.side1_player2_id,
+      line.side2_player1_id,
+      line.side2_player2_id,
+    ].forEach(playerId => playerId && playerIds.add(playerId));
+  });
+  return Array.from(playerIds);
+};
+
+// Entries for the single-entity calls a batch response also answers
+const relatedTeams = (teams: Team[]): RelatedEntry[] =>
+  teams.map(team => ({
+    category: 'profiles',
+    params: {type: 'team', id: team.id},
+    data: team,
+  }));
+
+const relatedScores = (scores: Record<string, MatchScore>): RelatedEntry[] =>
+  Object.entries(scores).map(([id, score]) => ({
+    category: 'matches',
+    params: {id, type: 'score'},
+    data: score,
+    tags: [cacheTags.match(id)],
+  }));
+
+// Wrap a paginated response, which keeps its items under `key` like
+// TournamentsResponse, as a Page. Servers that ignore the page parameters
+// send the whole list, which is filtered and sliced here instead.
+const toPage = <T>(
+  data: unknown,
+  key: string,
+  {page = 1, page_size = DEFAULT_PAGE_SIZE}: PageParams,
+  matches?: (item: T) => boolean,
+): Page<T> => {
+  if (Array.isArray(data)) {
+    const all: T[] = matches ? data.filter(matches) : data;
+    const start = (page - 1) * page_size;
+    return {
+      items: all.slice(start, start + page_size),
+      total_count: all.length,
+      page,
+      page_size,
+      has_next: start + page_size < all.length,
+      has_previous: page > 1,
+    };
+  }
+  const envelope = (data ?? {}) as Record<string, any>;
+  return {
+    items: envelope[key] ?? envelope.items,
+    total_count: envelope.total_count,
+    page: envelope.page ?? page,
+    page_size: envelope.page_size ?? page_size,
+    has_next: envelope.has_next,
+    has_previous: envelope.has_previous ?? page > 1,
+  };
+};
+
+// Client-side version of the /teams filters, for servers without them
+const teamMatches =
+  ({query, division, gender, conference}: TeamPageParams) =>
+  (team: Team): boolean => {
+    if (division && team.division !== division) {
+      return false;
+    }
+    if (conference && team.conference !== conference) {
+      return false;
+    }
+    if (
+      gender &&
+      team.gender !== gender &&
+      !team.name.includes(gender === 'M' ? '(M)' : '(W)')
+    ) {
+      return false;
+    }
+    const search = query?.trim().toLowerCase();
+    if (!search) {
+      return true;
+    }
+    return [
+      team.name,
+      team.abbreviation,
+      team.conference,
+      team.conference?.replace(/_/g, ' '),
+    ].some(field => field?.toLowerCase().includes(search));
+  };
+
+// A match just went final: drop its in-progress lineup and score along with
+// the team stats, schedules and player results that now need the result
+const invalidateCompletedMatch = async (match: Match) => {
+  const lineup = await cacheService.peek<MatchLineup[]>('matches', {
+    id: match.id,
+    type: 'lineup',
+  });
+  const tags = [cacheTags.match(match.id)];
+  if (match.home_team_id) {
+    tags.push(cacheTags.team(match.home_team_id));
+  }
+  if (match.away_team_id) {
+    tags.push(cacheTags.team(match.away_team_id));
+  }
+  if (lineup) {
+    tags.push(...lineupPlayerIds(lineup).map(cacheTags.player));
+  }
+  debugLog(`Match ${match.id} completed, invalidating related cache`);
+  await cacheService.invalidate(tags);
+};
+
 // API endpoints with caching
 export const api = {
   // Matches endpoints
   matches: {
-    getAll: async (date?: string): Promise<Match[]> => {
+    getAll: async (
+      date?: string,
+      options: RequestOptions = {},
+    ): Promise<Match[]> => {
       const params = date ? {date} : {};
-      return cacheService.cachedCall('matches', params, async () => {
-        const response: AxiosResponse<Match[]> = await apiClient.get(
-          '/matches',
-          {params},
-        );
-        return response.data;
-      });
+      return cacheService.cachedCall(
+        'matches',
+        params,
+        async signal => {
+          const response: AxiosResponse<Match[]> = await apiClient.get(
+            '/matches',
+            {params, signal},
+          );
+          return response.data;
+        },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.matches),
+          onData: entityStore.putMatches,
+        },
+      );
     },
 
-    getById: async (id: string): Promise<Match> => {
-      return cacheService.cachedCall('matches', {id}, async () => {
-        const response: AxiosResponse<Match> = await apiClient.get(
-          `/matches/${id}`,
-        );
-        return response.data;
-      });
+    getById: async (
+      id: string,
+      options: RequestOptions = {},
+    ): Promise<Match> => {
+      return cacheService.cachedCall(
+        'matches',
+        {id},
+        async signal => {
+          const previous = await cacheService.peek<Match>('matches', {id});
+          const response: AxiosResponse<Match> = await apiClient.get(
+            `/matches/${id}`,
+            {signal},
+          );
+          if (previous && !previous.completed && response.data.completed) {
+            await invalidateCompletedMatch(response.data);
+          }
+          return response.data;
+        },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.match),
+          tags: [cacheTags.match(id)],
+          onData: match => entityStore.putMatches([match]),
+        },
+      );
     },
 
-    getLineup: async (id: string): Promise<MatchLineup[]> => {
+    getLineup: async (
+      id: string,
+      options: RequestOptions = {},
+    ): Promise<MatchLineup[]> => {
       return cacheService.cachedCall(
         'matches',
         {id, type: 'lineup'},
-        async () => {
+        async signal => {
           const response: AxiosResponse<MatchLineup[]> = await apiClient.get(
             `/matches/${id}/lineup`,
+            {signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.matchLineups),
+          tags: lineup => [
+            cacheTags.match(id),
+            ...lineupPlayerIds(lineup).map(cacheTags.player),
+          ],
+          onData: lineup => entityStore.putLineup(id, lineup),
+        },
       );
     },
 
-    getScore: async (id: string): Promise<MatchScore> => {
+    getScore: async (
+      id: string,
+      options: RequestOptions = {},
+    ): Promise<MatchScore> => {
       return cacheService.cachedCall(
         'matches',
         {id, type: 'score'},
-        async () => {
+        async signal => {
           const response: AxiosResponse<MatchScore> = await apiClient.get(
             `/matches/${id}/score`,
+            {signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.matchScore),
+          tags: [cacheTags.match(id)],
+          onData: score => entityStore.putScores({[id]: score}),
+        },
       );
     },
 
-    getAllByTeam: async (teamId: string, season?: string): Promise<Match[]> => {
+    getAllByTeam: async (
+      teamId: string,
+      season?: string,
+      options: RequestOptions = {},
+    ): Promise<Match[]> => {
       const params: any = {team_id: teamId};
       if (season) {
         params.season = season;
       }
 
-      return cacheService.cachedCall('matches', {teamId, season}, async () => {
-        try {
-          const response: AxiosResponse<Match[]> = await apiClient.get(
-            `/matches/by-team/${teamId}`,
-            {params: season ? {season} : {}},
-          );
-          return response.data;
-        } catch (routeError) {
-          console.log(
-            'Dedicated team matches endpoint not available, using fallback',
-          );
-          const allMatches: AxiosResponse<Match[]> = await apiClient.get(
-            '/matches',
-            {params},
-          );
-          return allMatches.data;
-        }
-      });
+      return cacheService.cachedCall(
+        'matches',
+        {teamId, season},
+        async signal => {
+          try {
+            const response: AxiosResponse<Match[]> = await apiClient.get(
+              `/matches/by-team/${teamId}`,
+              {params: season ? {season} : {}, signal},
+            );
+            return response.data;
+          } catch (routeError) {
+            console.log(
+              'Dedicated team matches endpoint not available, using fallback',
+            );
+            const allMatches: AxiosResponse<Match[]> = await apiClient.get(
+              '/matches',
+              {params, signal},
+            );
+            return allMatches.data;
+          }
+        },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.matches),
+          tags: [cacheTags.team(teamId)],
+          onData: entityStore.putMatches,
+        },
+      );
     },
   },
 
   // Teams endpoints
   teams: {
-    getAll: async (params = {}): Promise<Team[]> => {
+    getAll: async (
+      params = {},
+      options: RequestOptions = {},
+    ): Promise<Team[]> => {
       return cacheService.cachedCall(
         'profiles',
         {type: 'teams', ...params},
-        async () => {
+        async signal => {
           const response: AxiosResponse<Team[]> = await apiClient.get(
             '/teams',
-            {params},
+            {params, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.teams),
+          onData: entityStore.putTeams,
+        },
       );
     },
 
-    getById: async (id: string): Promise<Team> => {
+    // One page of teams, sorted by name, for infinite-scroll lists
+    getPage: async (
+      params: TeamPageParams = {},
+      options: RequestOptions = {},
+    ): Promise<Page<Team>> => {
+      const pageParams = {
+        page: 1,
+        page_size: DEFAULT_PAGE_SIZE,
+        ...params,
+        query: params.query?.trim() || undefined,
+      };
+      return cacheService.cachedCall(
+        'profiles',
+        {type: 'teamsPage', ...pageParams},
+        async signal => {
+          const response = await apiClient.get('/teams', {
+            params: pageParams,
+            signal,
+          });
+          const data = Array.isArray(response.data)
+            ? [...(response.data as Team[])].sort((a, b) =>
+                a.name.localeCompare(b.name),
+              )
+            : response.data;
+          return toPage<Team>(data, 'teams', pageParams, teamMatches(params));
+        },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.teamsPage),
+          onData: teams => entityStore.putTeams(teams.items),
+        },
+      );
+    },
+
+    getById: async (
+      id: string,
+      options: RequestOptions = {},
+    ): Promise<Team> => {
       return cacheService.cachedCall(
         'profiles',
         {type: 'team', id},
-        async () => {
+        async signal => {
           const response: AxiosResponse<Team> = await apiClient.get(
             `/teams/${id}`,
+            {signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.team),
+          onData: team => entityStore.putTeams([team]),
+        },
       );
     },
 
-    getBatch: async (teamIds: string[]): Promise<Team[]> => {
+    getBatch: async (
+      teamIds: string[],
+      options: RequestOptions = {},
+    ): Promise<Team[]> => {
+      // Keyed apart from batch.getTeams, which caches a map by team id
       return cacheService.cachedCall(
         'batch',
-        {type: 'teams', teamIds},
-        async () => {
+        {type: 'teamList', teamIds},
+        async signal => {
           try {
             const response: AxiosResponse<Team[]> = await apiClient.post(
               '/teams/batch',
               {team_ids: teamIds},
+              {signal},
             );
             return response.data;
           } catch (error) {
@@ -516,159 +949,251 @@ export const api = {
               'Batch endpoint failed, falling back to individual requests',
             );
             const teams = await Promise.all(
-              teamIds.map(id => api.teams.getById(id)),
+              teamIds.map(id => api.teams.getById(id, {...options, signal})),
             );
             return teams;
           }
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.teams),
+          related: relatedTeams,
+          onData: entityStore.putTeams,
+        },
       );
     },
 
     getLogo: (id: string): string => {
-      return `${BASE_URL}/teams/${id}/logo`;
+      return `${getBaseUrl()}/teams/${id}/logo`;
     },
 
     getLogosBatch: async (
       teamIds: string[],
+      options: RequestOptions = {},
     ): Promise<TeamLogoBatchResponse> => {
       return cacheService.cachedCall(
         'batch',
         {type: 'logos', teamIds},
-        async () => {
+        async signal => {
           try {
             const response: AxiosResponse<TeamLogoBatchResponse> =
-              await apiClient.post('/teams/logos/batch', {team_ids: teamIds});
+              await apiClient.post(
+                '/teams/logos/batch',
+                {team_ids: teamIds},
+                {signal},
+              );
             return response.data;
           } catch (error) {
             console.error('Failed to fetch logos batch:', error);
             return {logos: {}};
           }
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.teamLogoBatchResponse),
+        },
       );
     },
 
-    getRoster: async (id: string, year?: string): Promise<Player[]> => {
+    getRoster: async (
+      id: string,
+      year?: string,
+      options: RequestOptions = {},
+    ): Promise<Player[]> => {
       return cacheService.cachedCall(
         'profiles',
         {type: 'roster', id, year},
-        async () => {
+        async signal => {
           const params = year ? {year} : {};
           const response: AxiosResponse<Player[]> = await apiClient.get(
             `/teams/${id}/roster`,
-            {params},
+            {params, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.players),
+          onData: entityStore.putPlayers,
+        },
       );
     },
   },
 
   // Players endpoints
   players: {
-    getAll: async (teamId?: string): Promise<Player[]> => {
+    getAll: async (
+      teamId?: string,
+      options: RequestOptions = {},
+    ): Promise<Player[]> => {
       const params = teamId ? {team_id: teamId} : {};
       return cacheService.cachedCall(
         'profiles',
         {type: 'players', ...params},
-        async () => {
+        async signal => {
           const response: AxiosResponse<Player[]> = await apiClient.get(
             '/players',
-            {params},
+            {params, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.players),
+          onData: entityStore.putPlayers,
+        },
       );
     },
 
-    getById: async (id: string): Promise<Player> => {
+    getById: async (
+      id: string,
+      options: RequestOptions = {},
+    ): Promise<Player> => {
       return cacheService.cachedCall(
         'profiles',
         {type: 'player', id},
-        async () => {
+        async signal => {
           const response: AxiosResponse<Player> = await apiClient.get(
             `/players/${id}`,
+            {signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.player),
+          onData: player => entityStore.putPlayers([player]),
+        },
       );
     },
 
-    getTeam: async (id: string, season?: string): Promise<PlayerTeam> => {
+    getTeam: async (
+      id: string,
+      season?: string,
+      options: RequestOptions = {},
+    ): Promise<PlayerTeam> => {
       return cacheService.cachedCall(
         'profiles',
         {type: 'playerTeam', id, season},
-        async () => {
+        async signal => {
           const params = season ? {season} : {};
           const response: AxiosResponse<PlayerTeam> = await apiClient.get(
             `/players/${id}/team`,
-            {params},
+            {params, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.playerTeam),
+          onData: team => entityStore.putPlayerTeam(id, team),
+        },
       );
     },
 
-    getStats: async (id: string, season?: string): Promise<PlayerStats> => {
+    getStats: async (
+      id: string,
+      season?: string,
+      options: RequestOptions = {},
+    ): Promise<PlayerStats> => {
       return cacheService.cachedCall(
         'stats',
         {type: 'player', id, season},
-        async () => {
+        async signal => {
           const params = season ? {season} : {};
           const response: AxiosResponse<PlayerStats> = await apiClient.get(
             `/players/${id}/stats`,
-            {params},
+            {params, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.playerStats),
+          tags: [cacheTags.player(id)],
+        },
       );
     },
 
     getPositions: async (
       id: string,
       season?: string,
+      options: RequestOptions = {},
     ): Promise<PlayerPositions> => {
       return cacheService.cachedCall(
         'stats',
         {type: 'positions', id, season},
-        async () => {
+        async signal => {
           const params = season ? {season} : {};
           const response: AxiosResponse<PlayerPositions> = await apiClient.get(
             `/players/${id}/positions`,
-            {params},
+            {params, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.playerPositions),
+          tags: [cacheTags.player(id)],
+        },
       );
     },
 
     getMatchResults: async (
       id: string,
       season?: string,
+      options: RequestOptions = {},
     ): Promise<PlayerMatchResult[]> => {
       return cacheService.cachedCall(
         'matches',
         {type: 'playerResults', id, season},
-        async () => {
+        async signal => {
           const params = season ? {season} : {};
           const response: AxiosResponse<PlayerMatchResult[]> =
-            await apiClient.get(`/players/${id}/match-results`, {params});
+            await apiClient.get(`/players/${id}/match-results`, {
+              params,
+              signal,
+            });
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.playerMatchResults),
+          tags: [cacheTags.player(id)],
+        },
       );
     },
 
-    getWTN: async (id: string, season?: string): Promise<any> => {
+    getWTN: async (
+      id: string,
+      season?: string,
+      options: RequestOptions = {},
+    ): Promise<PlayerWTN[]> => {
       return cacheService.cachedCall(
         'stats',
         {type: 'wtn', id, season},
-        async () => {
+        async signal => {
           const params = season ? {season} : {};
-          const response: AxiosResponse<any> = await apiClient.get(
+          const response: AxiosResponse<PlayerWTN[]> = await apiClient.get(
             `/players/${id}/wtn`,
-            {params},
+            {params, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.playerWTNs),
+        },
       );
     },
 
@@ -676,20 +1201,68 @@ export const api = {
       query?: string,
       gender?: string,
       season?: string,
+      options: RequestOptions = {},
     ): Promise<PlayerSearchResult[]> => {
       return cacheService.cachedCall(
         'profiles',
         {type: 'search', query, gender, season},
-        async () => {
+        async signal => {
           const params: any = {};
           if (query) params.query = query;
           if (gender) params.gender = gender;
           if (season) params.season_name = season;
 
           const response: AxiosResponse<PlayerSearchResult[]> =
-            await apiClient.get('/players/search', {params});
+            await apiClient.get('/players/search', {params, signal});
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.playerSearchResults),
+          onData: entityStore.putSearchResults,
+        },
+      );
+    },
+
+    // One page of search results, for infinite-scroll lists
+    searchPage: async (
+      query?: string,
+      gender?: string,
+      season?: string,
+      {page = 1, page_size = DEFAULT_PAGE_SIZE}: PageParams = {},
+      options: RequestOptions = {},
+    ): Promise<Page<PlayerSearchResult>> => {
+      return cacheService.cachedCall(
+        'profiles',
+        {type: 'searchPage', query, gender, season, page, page_size},
+        async signal => {
+          const params: any = {page, page_size};
+          if (query) {
+            params.query = query;
+          }
+          if (gender) {
+            params.gender = gender;
+          }
+          if (season) {
+            params.season_name = season;
+          }
+
+          const response = await apiClient.get('/players/search', {
+            params,
+            signal,
+          });
+          return toPage<PlayerSearchResult>(response.data, 'players', {
+            page,
+            page_size,
+          });
+        },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.playerSearchPage),
+          onData: results => entityStore.putSearchResults(results.items),
+        },
       );
     },
   },
@@ -699,61 +1272,92 @@ export const api = {
     getTeamStats: async (
       teamId: string,
       season?: string,
+      options: RequestOptions = {},
     ): Promise<TeamStats> => {
       return cacheService.cachedCall(
         'stats',
         {type: 'team', teamId, season},
-        async () => {
+        async signal => {
           const params = season ? {season} : {};
           const response: AxiosResponse<TeamStats> = await apiClient.get(
             `/stats/teams/${teamId}`,
-            {params},
+            {params, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.teamStats),
+          tags: [cacheTags.team(teamId)],
+        },
       );
     },
 
-    getPlayerStats: async (playerId: string, season?: string): Promise<any> => {
+    getPlayerStats: async (
+      playerId: string,
+      season?: string,
+      options: RequestOptions = {},
+    ): Promise<PlayerStats> => {
       return cacheService.cachedCall(
         'stats',
         {type: 'playerStats', playerId, season},
-        async () => {
+        async signal => {
           const params = season ? {season} : {};
-          const response: AxiosResponse<any> = await apiClient.get(
+          const response: AxiosResponse<PlayerStats> = await apiClient.get(
             `/stats/players/${playerId}`,
-            {params},
+            {params, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.playerStats),
+          tags: [cacheTags.player(playerId)],
+        },
       );
     },
   },
 
   // Seasons endpoints
   seasons: {
-    getAll: async (): Promise<Season[]> => {
+    getAll: async (options: RequestOptions = {}): Promise<Season[]> => {
       return cacheService.cachedCall(
         'profiles',
         {type: 'seasons'},
-        async () => {
+        async signal => {
           const response: AxiosResponse<Season[]> = await apiClient.get(
             '/seasons',
+            {signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.seasons),
+        },
       );
     },
 
-    getByName: async (name: string): Promise<Season | null> => {
+    getByName: async (
+      name: string,
+      options: RequestOptions = {},
+    ): Promise<Season | null> => {
       return cacheService.cachedCall(
         'profiles',
         {type: 'season', name},
-        async () => {
-          const allSeasons = await api.seasons.getAll();
+        async signal => {
+          const allSeasons = await api.seasons.getAll({...options, signal});
           const season = allSeasons.find(s => s.name === name);
           return season || null;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.optionalSeason),
+        },
       );
     },
   },
@@ -765,34 +1369,48 @@ export const api = {
       divisionType: string = 'DIV1',
       gender: string = 'M',
       limit: number = 100,
+      options: RequestOptions = {},
     ): Promise<RankingList[]> => {
       return cacheService.cachedCall(
         'rankings',
         {type: 'teamLists', divisionType, gender, limit},
-        async () => {
+        async signal => {
           const response: AxiosResponse<RankingList[]> = await apiClient.get(
             '/rankings/teams/lists',
-            {params: {division_type: divisionType, gender: gender}},
+            {params: {division_type: divisionType, gender: gender}, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.rankingLists),
+          onData: entityStore.putRankingLists,
+        },
       );
     },
 
     getTeamRankings: async (
       rankingId: string,
       limit: number = 100,
+      options: RequestOptions = {},
     ): Promise<TeamRanking[]> => {
       return cacheService.cachedCall(
         'rankings',
         {type: 'team', rankingId, limit},
-        async () => {
+        async signal => {
           const response: AxiosResponse<TeamRanking[]> = await apiClient.get(
             `/rankings/teams/lists/${rankingId}`,
-            {params: {limit}},
+            {params: {limit}, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.teamRankings),
+          onData: entityStore.putRankings,
+        },
       );
     },
 
@@ -800,34 +1418,52 @@ export const api = {
       divisionType: string = 'DIV1',
       gender: string = 'M',
       limit: number = 25,
+      options: RequestOptions = {},
     ): Promise<TeamRanking[]> => {
       return cacheService.cachedCall(
         'rankings',
         {type: 'latestTeam', divisionType, gender, limit},
-        async () => {
+        async signal => {
           const response: AxiosResponse<TeamRanking[]> = await apiClient.get(
             '/rankings/teams/latest',
-            {params: {division_type: divisionType, gender: gender, limit}},
+            {
+              params: {division_type: divisionType, gender: gender, limit},
+              signal,
+            },
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.teamRankings),
+          onData: entityStore.putRankings,
+        },
       );
     },
 
     getTeamRankingHistory: async (
       teamId: string,
       limit: number = 10,
-    ): Promise<any> => {
+      options: RequestOptions = {},
+    ): Promise<RankingHistoryEntry[]> => {
       return cacheService.cachedCall(
         'rankings',
         {type: 'teamHistory', teamId, limit},
-        async () => {
-          const response: AxiosResponse<any> = await apiClient.get(
-            `/rankings/teams/${teamId}/history`,
-            {params: {limit}},
-          );
+        async signal => {
+          const response: AxiosResponse<RankingHistoryEntry[]> =
+            await apiClient.get(`/rankings/teams/${teamId}/history`, {
+              params: {limit},
+              signal,
+            });
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.rankingHistory),
+          tags: [cacheTags.team(teamId)],
+        },
       );
     },
 
@@ -835,34 +1471,48 @@ export const api = {
     getSinglesRankingLists: async (
       divisionType: string = 'DIV1',
       gender: string = 'M',
+      options: RequestOptions = {},
     ): Promise<RankingList[]> => {
       return cacheService.cachedCall(
         'rankings',
         {type: 'singlesLists', divisionType, gender},
-        async () => {
+        async signal => {
           const response: AxiosResponse<RankingList[]> = await apiClient.get(
             '/rankings/singles/lists',
-            {params: {division_type: divisionType, gender: gender}},
+            {params: {division_type: divisionType, gender: gender}, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.rankingLists),
+          onData: entityStore.putRankingLists,
+        },
       );
     },
 
     getSinglesRankings: async (
       rankingId: string,
       limit: number = 100,
+      options: RequestOptions = {},
     ): Promise<PlayerRanking[]> => {
       return cacheService.cachedCall(
         'rankings',
         {type: 'singles', rankingId, limit},
-        async () => {
+        async signal => {
           const response: AxiosResponse<PlayerRanking[]> = await apiClient.get(
             `/rankings/singles/lists/${rankingId}`,
-            {params: {limit}},
+            {params: {limit}, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.playerRankings),
+          onData: entityStore.putRankings,
+        },
       );
     },
 
@@ -870,34 +1520,51 @@ export const api = {
       divisionType: string = 'DIV1',
       gender: string = 'M',
       limit: number = 25,
+      options: RequestOptions = {},
     ): Promise<PlayerRanking[]> => {
       return cacheService.cachedCall(
         'rankings',
         {type: 'latestSingles', divisionType, gender, limit},
-        async () => {
+        async signal => {
           const response: AxiosResponse<PlayerRanking[]> = await apiClient.get(
             '/rankings/singles/latest',
-            {params: {division_type: divisionType, gender: gender, limit}},
+            {
+              params: {division_type: divisionType, gender: gender, limit},
+              signal,
+            },
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.playerRankings),
+          onData: entityStore.putRankings,
+        },
       );
     },
 
     getPlayerSinglesHistory: async (
       playerId: string,
       limit: number = 10,
-    ): Promise<any> => {
+      options: RequestOptions = {},
+    ): Promise<RankingHistoryEntry[]> => {
       return cacheService.cachedCall(
         'rankings',
         {type: 'singlesHistory', playerId, limit},
-        async () => {
-          const response: AxiosResponse<any> = await apiClient.get(
-            `/rankings/singles/players/${playerId}/history`,
-            {params: {limit}},
-          );
+        async signal => {
+          const response: AxiosResponse<RankingHistoryEntry[]> =
+            await apiClient.get(
+              `/rankings/singles/players/${playerId}/history`,
+              {params: {limit}, signal},
+            );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.rankingHistory),
+        },
       );
     },
 
@@ -905,34 +1572,48 @@ export const api = {
     getDoublesRankingLists: async (
       divisionType: string = 'DIV1',
       gender: string = 'M',
+      options: RequestOptions = {},
     ): Promise<RankingList[]> => {
       return cacheService.cachedCall(
         'rankings',
         {type: 'doublesLists', divisionType, gender},
-        async () => {
+        async signal => {
           const response: AxiosResponse<RankingList[]> = await apiClient.get(
             '/rankings/doubles/lists',
-            {params: {division_type: divisionType, gender: gender}},
+            {params: {division_type: divisionType, gender: gender}, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.rankingLists),
+          onData: entityStore.putRankingLists,
+        },
       );
     },
 
     getDoublesRankings: async (
       rankingId: string,
       limit: number = 100,
+      options: RequestOptions = {},
     ): Promise<DoublesRanking[]> => {
       return cacheService.cachedCall(
         'rankings',
         {type: 'doubles', rankingId, limit},
-        async () => {
+        async signal => {
           const response: AxiosResponse<DoublesRanking[]> = await apiClient.get(
             `/rankings/doubles/lists/${rankingId}`,
-            {params: {limit}},
+            {params: {limit}, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.doublesRankings),
+          onData: entityStore.putRankings,
+        },
       );
     },
 
@@ -940,34 +1621,51 @@ export const api = {
       divisionType: string = 'DIV1',
       gender: string = 'M',
       limit: number = 25,
+      options: RequestOptions = {},
     ): Promise<DoublesRanking[]> => {
       return cacheService.cachedCall(
         'rankings',
         {type: 'latestDoubles', divisionType, gender, limit},
-        async () => {
+        async signal => {
           const response: AxiosResponse<DoublesRanking[]> = await apiClient.get(
             '/rankings/doubles/latest',
-            {params: {division_type: divisionType, gender: gender, limit}},
+            {
+              params: {division_type: divisionType, gender: gender, limit},
+              signal,
+            },
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.doublesRankings),
+          onData: entityStore.putRankings,
+        },
       );
     },
 
     getPlayerDoublesHistory: async (
       playerId: string,
       limit: number = 10,
-    ): Promise<any> => {
+      options: RequestOptions = {},
+    ): Promise<RankingHistoryEntry[]> => {
       return cacheService.cachedCall(
         'rankings',
         {type: 'doublesHistory', playerId, limit},
-        async () => {
-          const response: AxiosResponse<any> = await apiClient.get(
-            `/rankings/doubles/players/${playerId}/history`,
-            {params: {limit}},
-          );
+        async signal => {
+          const response: AxiosResponse<RankingHistoryEntry[]> =
+            await apiClient.get(
+              `/rankings/doubles/players/${playerId}/history`,
+              {params: {limit}, signal},
+            );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.rankingHistory),
+        },
       );
     },
   },
@@ -989,27 +1687,46 @@ export const api = {
         query?: string;
         division_type?: string;
       } = {},
+      options: RequestOptions = {},
     ): Promise<TournamentsResponse> => {
       return cacheService.cachedCall(
         'tournaments',
         {type: 'search', ...params},
-        async () => {
+        async signal => {
           const response: AxiosResponse<TournamentsResponse> =
-            await apiClient.get('/tournament-draws/tournaments', {params});
+            await apiClient.get('/tournament-draws/tournaments', {
+              params,
+              signal,
+            });
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.tournamentsResponse),
+        },
       );
     },
 
-    getById: async (id: string): Promise<TournamentWithDraws> => {
+    getById: async (
+      id: string,
+      options: RequestOptions = {},
+    ): Promise<TournamentWithDraws> => {
       return cacheService.cachedCall(
         'tournaments',
         {type: 'detail', id},
-        async () => {
+        async signal => {
           const response: AxiosResponse<TournamentWithDraws> =
-            await apiClient.get(`/tournament-draws/tournaments/${id}`);
+            await apiClient.get(`/tournament-draws/tournaments/${id}`, {
+              signal,
+            });
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.tournamentWithDraws),
+        },
       );
     },
 
@@ -1019,33 +1736,48 @@ export const api = {
         gender?: string;
         event_type?: string;
       } = {},
+      options: RequestOptions = {},
     ): Promise<TournamentDraw[]> => {
       return cacheService.cachedCall(
         'tournaments',
         {type: 'draws', tournamentId, ...params},
-        async () => {
+        async signal => {
           const response: AxiosResponse<TournamentDraw[]> = await apiClient.get(
             `/tournament-draws/tournaments/${tournamentId}/draws`,
-            {params},
+            {params, signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.tournamentDraws),
+        },
       );
     },
 
     getDrawDetails: async (
       drawId: string,
       stage?: string,
+      options: RequestOptions = {},
     ): Promise<TournamentDrawDetails> => {
       return cacheService.cachedCall(
         'tournaments',
         {type: 'drawDetails', drawId, stage},
-        async () => {
+        async signal => {
           const params = stage ? {stage} : {};
           const response: AxiosResponse<TournamentDrawDetails> =
-            await apiClient.get(`/tournament-draws/draws/${drawId}`, {params});
+            await apiClient.get(`/tournament-draws/draws/${drawId}`, {
+              params,
+              signal,
+            });
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.tournamentDrawDetails),
+        },
       );
     },
 
@@ -1054,17 +1786,24 @@ export const api = {
         page?: number;
         page_size?: number;
       } = {},
+      options: RequestOptions = {},
     ): Promise<TournamentsResponse> => {
       return cacheService.cachedCall(
         'tournaments',
         {type: 'upcoming', ...params},
-        async () => {
+        async signal => {
           const response: AxiosResponse<TournamentsResponse> =
             await apiClient.get('/tournament-draws/tournaments/upcoming', {
               params,
+              signal,
             });
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.tournamentsResponse),
+        },
       );
     },
 
@@ -1073,17 +1812,24 @@ export const api = {
         page?: number;
         page_size?: number;
       } = {},
+      options: RequestOptions = {},
     ): Promise<TournamentsResponse> => {
       return cacheService.cachedCall(
         'tournaments',
         {type: 'current', ...params},
-        async () => {
+        async signal => {
           const response: AxiosResponse<TournamentsResponse> =
             await apiClient.get('/tournament-draws/tournaments/current', {
               params,
+              signal,
             });
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.tournamentsResponse),
+        },
       );
     },
 
@@ -1093,77 +1839,133 @@ export const api = {
         page?: number;
         page_size?: number;
       } = {},
+      options: RequestOptions = {},
     ): Promise<TournamentsResponse> => {
       return cacheService.cachedCall(
         'tournaments',
         {type: 'recent', ...params},
-        async () => {
+        async signal => {
           const response: AxiosResponse<TournamentsResponse> =
             await apiClient.get('/tournament-draws/tournaments/recent', {
               params,
+              signal,
             });
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.tournamentsResponse),
+        },
       );
     },
 
-    getDrawStages: async (drawId: string): Promise<string[]> => {
+    getDrawStages: async (
+      drawId: string,
+      options: RequestOptions = {},
+    ): Promise<string[]> => {
       return cacheService.cachedCall(
         'tournaments',
         {type: 'stages', drawId},
-        async () => {
+        async signal => {
           const response: AxiosResponse<string[]> = await apiClient.get(
             `/tournament-draws/draws/${drawId}/stages`,
+            {signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.drawStages),
+        },
       );
     },
   },
 
   // Batch endpoints
   batch: {
-    getTeams: async (teamIds: string[]): Promise<Record<string, Team>> => {
+    getTeams: async (
+      teamIds: string[],
+      options: RequestOptions = {},
+    ): Promise<Record<string, Team>> => {
       if (teamIds.length === 0) return {};
 
       return cacheService.cachedCall(
         'batch',
         {type: 'teams', teamIds},
-        async () => {
-          const response = await apiClient.post('/batch/teams', teamIds);
+        async signal => {
+          const response = await apiClient.post('/batch/teams', teamIds, {
+            signal,
+          });
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.teamsById),
+          related: teams => relatedTeams(Object.values(teams)),
+          onData: teams => entityStore.putTeams(Object.values(teams)),
+        },
       );
     },
 
     getMatchScores: async (
       matchIds: string[],
+      options: RequestOptions = {},
     ): Promise<Record<string, MatchScore>> => {
       if (matchIds.length === 0) return {};
 
       return cacheService.cachedCall(
         'batch',
         {type: 'scores', matchIds},
-        async () => {
+        async signal => {
           const response = await apiClient.post(
             '/batch/match-scores',
             matchIds,
+            {signal},
           );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.matchScoresById),
+          tags: matchIds.map(cacheTags.match),
+          related: relatedScores,
+          onData: entityStore.putScores,
+        },
       );
     },
 
-    getMatchesWithData: async (date: string): Promise<any> => {
+    getMatchesWithData: async (
+      date: string,
+      options: RequestOptions = {},
+    ): Promise<MatchesWithData> => {
       return cacheService.cachedCall(
         'batch',
         {type: 'matchesWithData', date},
-        async () => {
-          const response = await apiClient.get('/batch/matches-with-data', {
-            params: {date},
-          });
+        async signal => {
+          const response: AxiosResponse<MatchesWithData> = await apiClient.get(
+            '/batch/matches-with-data',
+            {
+              params: {date},
+              signal,
+            },
+          );
           return response.data;
         },
+        {
+          policy: options.cachePolicy,
+          signal: options.signal,
+          validate: validateWith(schemas.matchesWithData),
+          tags: data => data.matches.map(match => cacheTags.match(match.id)),
+          related: data => [
+            ...relatedTeams(Object.values(data.teams)),
+            ...relatedScores(data.scores),
+          ],
+          onData: entityStore.putMatchesWithData,
+        },
       );
     },
   },
@@ -0,0 +1,116 @@
+// src/api/schema.ts
+// Minimal runtime validators for API responses. A schema checks a value and
+// returns it unchanged, typed, or throws a SchemaError naming the bad field.
+
+export class SchemaError extends Error {
+  path: string;
+  expected: string;
+  received: string;
+
+  constructor(path: string, expected: string, received: string) {
+    super(`${path || 'response'}: expected ${expected}, got ${received}`);
+    this.name = 'SchemaError';
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+export const isSchemaError = (error: unknown): error is SchemaError =>
+  error instanceof Error && error.name === 'SchemaError';
+
+export interface Schema<T> {
+  description: string;
+  parse: (value: unknown, path?: string) => T;
+}
+
+const describeValue = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+};
+
+const primitive = <T>(type: 'string' | 'number' | 'boolean'): Schema<T> => ({
+  description: type,
+  parse: (value, path = '') => {
+    if (typeof value !== type) {
+      throw new SchemaError(path, type, describeValue(value));
+    }
+    return value as T;
+  },
+});
+
+export const string = (): Schema<string> => primitive('string');
+export const number = (): Schema<number> => primitive('number');
+export const boolean = (): Schema<boolean> => primitive('boolean');
+
+// For fields the app passes through without reading
+export const unknown = (): Schema<any> => ({
+  description: 'any',
+  parse: value => value,
+});
+
+// Optional fields also accept null, which the backend sends for missing values
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  description: `${schema.description}?`,
+  parse: (value, path = '') =>
+    value === undefined || value === null
+      ? (value as undefined)
+      : schema.parse(value, path),
+});
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  description: `${schema.description} | null`,
+  parse: (value, path = '') =>
+    value === null ? null : schema.parse(value, path),
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  description: `${item.description}[]`,
+  parse: (value, path = '') => {
+    if (!Array.isArray(value)) {
+      throw new SchemaError(path, 'array', describeValue(value));
+    }
+    value.forEach((entry, index) => item.parse(entry, `${path}[${index}]`));
+    return value as T[];
+  },
+});
+
+export const record = <T>(item: Schema<T>): Schema<Record<string, T>> => ({
+  description: `Record<string, ${item.description}>`,
+  parse: (value, path = '') => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', describeValue(value));
+    }
+    Object.entries(value).forEach(([key, entry]) =>
+      item.parse(entry, path ? `${path}.${key}` : key),
+    );
+    return value as Record<string, T>;
+  },
+});
+
+// Every property of T needs a schema, so interfaces and schemas can't drift
+// apart at compile time. Extra fields in the response are allowed.
+export const object = <T>(
+  shape: {[K in keyof T]-?: Schema<T[K]>},
+  name = 'object',
+): Schema<T> => ({
+  description: name,
+  parse: (value, path = '') => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new SchemaError(path, name, describeValue(value));
+    }
+    (Object.keys(shape) as Array<keyof T>).forEach(key => {
+      const field = String(key);
+      shape[key].parse(
+        (value as Record<string, unknown>)[field],
+        path ? `${path}.${field}` : field,
+      );
+    });
+    return value as T;
+  },
+});
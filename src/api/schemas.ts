@@ -0,0 +1,490 @@
+// src/api/schemas.ts
+// Runtime schemas for the response interfaces in ./index
+import {
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  unknown,
+} from './schema';
+import type {Schema} from './schema';
+import type {
+  DoublesRanking,
+  Match,
+  MatchesWithData,
+  MatchLineup,
+  MatchScore,
+  Page,
+  Player,
+  PlayerMatchResult,
+  PlayerPosition,
+  PlayerPositions,
+  PlayerRanking,
+  PlayerSearchResult,
+  PlayerStats,
+  PlayerTeam,
+  PlayerWTN,
+  RankingHistoryEntry,
+  RankingList,
+  Season,
+  Team,
+  TeamLogoBatchResponse,
+  TeamRanking,
+  TeamStats,
+  Tournament,
+  TournamentDraw,
+  TournamentDrawDetails,
+  TournamentMatch,
+  TournamentMatchParticipant,
+  TournamentsResponse,
+  TournamentWithDraws,
+} from './index';
+
+export const team = object<Team>(
+  {
+    id: string(),
+    name: string(),
+    abbreviation: optional(string()),
+    division: optional(string()),
+    conference: optional(string()),
+    region: optional(string()),
+    typename: optional(string()),
+    gender: optional(string()),
+  },
+  'Team',
+);
+
+export const player = object<Player>(
+  {
+    person_id: string(),
+    tennis_id: optional(string()),
+    first_name: string(),
+    last_name: string(),
+    avatar_url: optional(string()),
+  },
+  'Player',
+);
+
+export const match = object<Match>(
+  {
+    id: string(),
+    start_date: string(),
+    timezone: optional(string()),
+    no_scheduled_time: boolean(),
+    is_conference_match: boolean(),
+    gender: string(),
+    home_team_id: optional(string()),
+    away_team_id: optional(string()),
+    season: string(),
+    completed: boolean(),
+    scheduled_time: optional(string()),
+  },
+  'Match',
+);
+
+export const matchLineup = object<MatchLineup>(
+  {
+    id: string(),
+    match_id: string(),
+    match_type: string(),
+    position: number(),
+    side1_player1_id: string(),
+    side1_player2_id: optional(string()),
+    side1_score: string(),
+    side1_won: boolean(),
+    side2_player1_id: string(),
+    side2_player2_id: optional(string()),
+    side2_score: string(),
+    side2_won: boolean(),
+    side1_name: optional(string()),
+    side2_name: optional(string()),
+  },
+  'MatchLineup',
+);
+
+export const matchScore = object<MatchScore>(
+  {
+    home_team_score: number(),
+    away_team_score: number(),
+    home_team_won: optional(boolean()),
+    away_team_won: optional(boolean()),
+  },
+  'MatchScore',
+);
+
+export const teamStats = object<TeamStats>(
+  {
+    total_wins: number(),
+    total_losses: number(),
+    conference_wins: number(),
+    conference_losses: number(),
+    home_wins: number(),
+    home_losses: number(),
+    away_wins: number(),
+    away_losses: number(),
+  },
+  'TeamStats',
+);
+
+export const playerStats = object<PlayerStats>(
+  {
+    singles_wins: number(),
+    singles_losses: number(),
+    singles_win_pct: number(),
+    doubles_wins: number(),
+    doubles_losses: number(),
+    doubles_win_pct: number(),
+    wtn_singles: optional(number()),
+    wtn_doubles: optional(number()),
+  },
+  'PlayerStats',
+);
+
+export const playerTeam = object<PlayerTeam>(
+  {
+    team_id: string(),
+    team_name: string(),
+    abbreviation: optional(string()),
+    conference: optional(string()),
+    gender: optional(string()),
+  },
+  'PlayerTeam',
+);
+
+const playerPosition = object<PlayerPosition>(
+  {
+    position: number(),
+    matches_count: number(),
+    wins: number(),
+    losses: number(),
+  },
+  'PlayerPosition',
+);
+
+export const playerPositions = object<PlayerPositions>(
+  {
+    singles: array(playerPosition),
+    doubles: array(playerPosition),
+  },
+  'PlayerPositions',
+);
+
+export const playerMatchResult = object<PlayerMatchResult>(
+  {
+    id: string(),
+    match_id: string(),
+    date: string(),
+    opponent_name: string(),
+    opponent_team_id: optional(string()),
+    is_home: boolean(),
+    match_type: string(),
+    position: number(),
+    score: string(),
+    won: boolean(),
+    partner_name: optional(string()),
+    opponent_name1: string(),
+    opponent_name2: optional(string()),
+  },
+  'PlayerMatchResult',
+);
+
+export const playerSearchResult = object<PlayerSearchResult>(
+  {
+    person_id: string(),
+    tennis_id: optional(string()),
+    first_name: string(),
+    last_name: string(),
+    avatar_url: optional(string()),
+    team_id: optional(string()),
+    team_name: optional(string()),
+    gender: optional(string()),
+    conference: optional(string()),
+    division: optional(string()),
+    season_name: optional(string()),
+    season_id: optional(string()),
+    school_name: optional(string()),
+    school_id: optional(string()),
+    wtn_singles: optional(number()),
+    wtn_doubles: optional(number()),
+  },
+  'PlayerSearchResult',
+);
+
+export const playerWTN = object<PlayerWTN>(
+  {
+    person_id: string(),
+    tennis_id: string(),
+    season_id: string(),
+    wtn_type: string(),
+    confidence: number(),
+    tennis_number: number(),
+    is_ranked: boolean(),
+  },
+  'PlayerWTN',
+);
+
+export const season = object<Season>(
+  {
+    id: string(),
+    name: string(),
+    status: string(),
+    start_date: string(),
+    end_date: string(),
+  },
+  'Season',
+);
+
+export const rankingList = object<RankingList>(
+  {
+    id: string(),
+    division_type: string(),
+    gender: string(),
+    match_format: string(),
+    publish_date: optional(string()),
+    planned_publish_date: optional(string()),
+    date_range_start: string(),
+    date_range_end: string(),
+  },
+  'RankingList',
+);
+
+export const teamRanking = object<TeamRanking>(
+  {
+    team_id: string(),
+    ranking_list_id: string(),
+    rank: number(),
+    points: number(),
+    wins: number(),
+    losses: number(),
+    team_name: string(),
+    conference: optional(string()),
+  },
+  'TeamRanking',
+);
+
+export const playerRanking = object<PlayerRanking>(
+  {
+    player_id: string(),
+    team_id: string(),
+    ranking_list_id: string(),
+    rank: number(),
+    points: number(),
+    wins: number(),
+    losses: number(),
+    player_name: string(),
+    team_name: string(),
+    conference: optional(string()),
+  },
+  'PlayerRanking',
+);
+
+export const doublesRanking = object<DoublesRanking>(
+  {
+    team_id: string(),
+    player1_id: string(),
+    player2_id: string(),
+    ranking_list_id: string(),
+    rank: number(),
+    points: number(),
+    wins: number(),
+    losses: number(),
+    player1_name: string(),
+    player2_name: string(),
+    team_name: string(),
+    conference: optional(string()),
+  },
+  'DoublesRanking',
+);
+
+export const rankingHistoryEntry = object<RankingHistoryEntry>(
+  {
+    ranking_list_id: optional(string()),
+    rank: number(),
+    points: optional(number()),
+    wins: optional(number()),
+    losses: optional(number()),
+    publish_date: string(),
+  },
+  'RankingHistoryEntry',
+);
+
+const tournament = object<Tournament>(
+  {
+    tournament_id: string(),
+    name: string(),
+    start_date_time: string(),
+    end_date_time: string(),
+    location_name: string(),
+    organization_name: string(),
+    organization_division: optional(string()),
+    tournament_type: string(),
+    draws_count: number(),
+    events: array(string()),
+  },
+  'Tournament',
+);
+
+export const tournamentsResponse = object<TournamentsResponse>(
+  {
+    tournaments: array(tournament),
+    total_count: number(),
+    page: number(),
+    page_size: number(),
+    has_next: boolean(),
+    has_previous: boolean(),
+  },
+  'TournamentsResponse',
+);
+
+export const tournamentDraw = object<TournamentDraw>(
+  {
+    draw_id: string(),
+    tournament_id: string(),
+    event_id: string(),
+    draw_name: string(),
+    draw_type: string(),
+    draw_size: number(),
+    event_type: string(),
+    gender: string(),
+    draw_completed: boolean(),
+    draw_active: boolean(),
+    match_up_format: string(),
+    stage: optional(string()),
+  },
+  'TournamentDraw',
+);
+
+export const tournamentWithDraws = object<TournamentWithDraws>(
+  {
+    tournament_id: string(),
+    name: string(),
+    start_date_time: string(),
+    end_date_time: string(),
+    location_name: string(),
+    organization_name: string(),
+    tournament_type: string(),
+    draws: array(tournamentDraw),
+  },
+  'TournamentWithDraws',
+);
+
+const tournamentMatchParticipant = object<TournamentMatchParticipant>(
+  {
+    participant_id: optional(string()),
+    participant_name: optional(string()),
+    draw_position: optional(number()),
+    seed_number: optional(number()),
+    school_name: optional(string()),
+    school_id: optional(string()),
+    player1_id: optional(string()),
+    player1_name: optional(string()),
+    player2_id: optional(string()),
+    player2_name: optional(string()),
+  },
+  'TournamentMatchParticipant',
+);
+
+const tournamentMatch = object<TournamentMatch>(
+  {
+    id: number(),
+    match_up_id: string(),
+    draw_id: string(),
+    tournament_id: string(),
+    event_id: string(),
+    round_name: string(),
+    round_number: number(),
+    round_position: number(),
+    match_type: string(),
+    match_format: string(),
+    match_status: string(),
+    side1: tournamentMatchParticipant,
+    side2: tournamentMatchParticipant,
+    winning_side: optional(number()),
+    winner_participant_id: optional(string()),
+    winner_participant_name: optional(string()),
+    score_side1: optional(string()),
+    score_side2: optional(string()),
+    scheduled_date: optional(string()),
+    scheduled_time: optional(string()),
+    venue_name: optional(string()),
+  },
+  'TournamentMatch',
+);
+
+export const tournamentDrawDetails = object<TournamentDrawDetails>(
+  {
+    draw_id: string(),
+    tournament_id: string(),
+    event_id: string(),
+    draw_name: string(),
+    draw_type: string(),
+    draw_size: number(),
+    event_type: string(),
+    gender: string(),
+    draw_completed: boolean(),
+    draw_active: boolean(),
+    match_up_format: string(),
+    tournament: unknown(),
+    matches: array(tournamentMatch),
+    total_matches: number(),
+    completed_matches: number(),
+    scheduled_matches: number(),
+    participants_count: number(),
+  },
+  'TournamentDrawDetails',
+);
+
+export const teamLogoBatchResponse = object<TeamLogoBatchResponse>(
+  {
+    logos: record(string()),
+  },
+  'TeamLogoBatchResponse',
+);
+
+export const matchesWithData = object<MatchesWithData>(
+  {
+    matches: array(match),
+    teams: record(team),
+    scores: record(matchScore),
+  },
+  'MatchesWithData',
+);
+
+// Paginated lists, unwrapped by toPage in ./index
+const page = <T>(item: Schema<T>, name: string) =>
+  object<Page<T>>(
+    {
+      items: array(item),
+      total_count: number(),
+      page: number(),
+      page_size: number(),
+      has_next: boolean(),
+      has_previous: boolean(),
+    },
+    name,
+  );
+
+export const teams = array(team);
+export const players = array(player);
+export const matches = array(match);
+export const matchLineups = array(matchLineup);
+export const playerMatchResults = array(playerMatchResult);
+export const playerSearchResults = array(playerSearchResult);
+export const playerWTNs = array(playerWTN);
+export const seasons = array(season);
+export const optionalSeason = nullable(season);
+export const rankingLists = array(rankingList);
+export const teamRankings = array(teamRanking);
+export const playerRankings = array(playerRanking);
+export const doublesRankings = array(doublesRanking);
+export const rankingHistory = array(rankingHistoryEntry);
+export const tournamentDraws = array(tournamentDraw);
+export const drawStages = array(string());
+export const teamsById = record(team);
+export const matchScoresById = record(matchScore);
+export const teamsPage = page(team, 'TeamsPage');
+export const playerSearchPage = page(playerSearchResult, 'PlayerSearchPage');
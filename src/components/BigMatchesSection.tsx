@@ -12,6 +12,7 @@ import {useNavigation} from '@react-navigation/native';
 import {StackNavigationProp} from '@react-navigation/stack';
 import Icon from 'react-native-vector-icons/Feather';
 import {api} from '../api';
+import type {RequestOptions} from '../api';
 import theme from '../theme';
 import TeamLogo from './TeamLogo';
 
@@ -19,6 +20,7 @@ import TeamLogo from './TeamLogo';
 interface BigMatchesSectionProps {
   favoriteTeams?: string[];
   isDark: boolean;
+  refreshKey?: number; // Bumped by the parent on pull-to-refresh
 }
 
 // Define interface for matches with proper null/undefined handling
@@ -52,6 +54,7 @@ type BigMatchesNavigationProp =
 const BigMatchesSection: React.FC<BigMatchesSectionProps> = ({
   favoriteTeams = [],
   isDark,
+  refreshKey = 0,
 }) => {
   const navigation = useNavigation<BigMatchesNavigationProp>();
   const [loading, setLoading] = useState(true);
@@ -59,6 +62,9 @@ const BigMatchesSection: React.FC<BigMatchesSectionProps> = ({
   const [teamRankings, setTeamRankings] = useState<Record<string, number>>({});
 
   useEffect(() => {
+    const options: RequestOptions =
+      refreshKey > 0 ? {cachePolicy: 'network-first'} : {};
+
     const fetchBigMatches = async () => {
       setLoading(true);
       try {
@@ -66,7 +72,7 @@ const BigMatchesSection: React.FC<BigMatchesSectionProps> = ({
         const today = new Date();
 
         // Fetch upcoming matches for the next 7 days
-        const matches = await api.matches.getAll();
+        const matches = await api.matches.getAll(undefined, options);
 
         // Filter to only include upcoming matches in the next week
         const nextWeek = new Date(today);
@@ -91,6 +97,7 @@ const BigMatchesSection: React.FC<BigMatchesSectionProps> = ({
           'DIV1',
           'M',
           100,
+          options,
         );
         const menRankingsMap: Record<string, number> = {};
         latestRankings.forEach(rank => {
@@ -101,6 +108,7 @@ const BigMatchesSection: React.FC<BigMatchesSectionProps> = ({
           'DIV1',
           'F',
           100,
+          options,
         );
         const womenRankingsMap: Record<string, number> = {};
         latestWomenRankings.forEach(rank => {
@@ -163,7 +171,7 @@ const BigMatchesSection: React.FC<BigMatchesSectionProps> = ({
     };
 
     fetchBigMatches();
-  }, [favoriteTeams]);
+  }, [favoriteTeams, refreshKey]);
 
   // Navigate to match details
   const navigateToMatch = (matchId: string) => {
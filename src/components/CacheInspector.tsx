@@ -0,0 +1,270 @@
+// src/components/CacheInspector.tsx
+import React, {useState, useEffect} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Feather';
+import theme from '../theme';
+import cacheService from '../services/cacheService';
+import type {CacheConfig, CacheUsage} from '../services/cacheService';
+
+interface CacheInspectorProps {
+  isDark: boolean;
+}
+
+const CATEGORY_LABELS: Record<keyof CacheConfig, string> = {
+  rankings: 'Rankings',
+  tournaments: 'Tournaments',
+  stats: 'Stats',
+  matches: 'Matches',
+  profiles: 'Teams & Players',
+  batch: 'Batch',
+};
+
+// Format a serialized size for display
+const formatSize = (size: number): string => {
+  if (size < 1024) {
+    return `${size} B`;
+  }
+  if (size < 1024 * 1024) {
+    return `${(size / 1024).toFixed(1)} KB`;
+  }
+  return `${(size / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+const CacheInspector: React.FC<CacheInspectorProps> = ({isDark}) => {
+  const [usage, setUsage] = useState<CacheUsage | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const loadUsage = async () => {
+    setLoading(true);
+    try {
+      setUsage(await cacheService.getUsage());
+    } catch (error) {
+      console.error('Failed to load cache usage:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
+  const handleClearCategory = (category: keyof CacheConfig) => {
+    Alert.alert(
+      'Clear Cache',
+      `Remove all cached ${CATEGORY_LABELS[category].toLowerCase()} data?`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            await cacheService.clearCategory(category);
+            await loadUsage();
+          },
+        },
+      ],
+    );
+  };
+
+  const handleClearAll = () => {
+    Alert.alert('Clear Cache', 'Remove all cached data?', [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Clear All',
+        style: 'destructive',
+        onPress: async () => {
+          await cacheService.clear();
+          await cacheService.clearQuarantine();
+          await loadUsage();
+        },
+      },
+    ]);
+  };
+
+  const textColor = isDark ? theme.colors.text.dark : theme.colors.text.light;
+  const dimColor = isDark ? theme.colors.text.dimDark : theme.colors.gray[500];
+  const borderColor = isDark
+    ? theme.colors.border.dark
+    : theme.colors.border.light;
+
+  if (loading || !usage) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="small" color={theme.colors.primary[500]} />
+      </View>
+    );
+  }
+
+  const usedFraction = Math.min(usage.totalSize / usage.maxSize, 1);
+
+  return (
+    <View>
+      {/* Overall usage */}
+      <View style={styles.summaryRow}>
+        <Text style={[styles.summaryText, {color: textColor}]}>
+          {formatSize(usage.totalSize)} of {formatSize(usage.maxSize)}
+        </Text>
+        <Text style={[styles.summarySubtext, {color: dimColor}]}>
+          {usage.totalEntries} / {usage.maxEntries} entries
+        </Text>
+      </View>
+      <View
+        style={[
+          styles.usageTrack,
+          {
+            backgroundColor: isDark
+              ? theme.colors.gray[800]
+              : theme.colors.gray[200],
+          },
+        ]}>
+        <View
+          style={[
+            styles.usageFill,
+            {
+              width: `${usedFraction * 100}%`,
+              backgroundColor:
+                usedFraction > 0.9
+                  ? theme.colors.warning
+                  : theme.colors.primary[500],
+            },
+          ]}
+        />
+      </View>
+
+      {/* Per-category usage */}
+      {(Object.keys(usage.categories) as Array<keyof CacheConfig>).map(
+        category => {
+          const categoryUsage = usage.categories[category];
+          return (
+            <View
+              key={category}
+              style={[styles.categoryRow, {borderBottomColor: borderColor}]}>
+              <View style={styles.categoryInfo}>
+                <Text style={[styles.categoryName, {color: textColor}]}>
+                  {CATEGORY_LABELS[category]}
+                </Text>
+                <Text style={[styles.categoryDetail, {color: dimColor}]}>
+                  {categoryUsage.entries}{' '}
+                  {categoryUsage.entries === 1 ? 'entry' : 'entries'} ·{' '}
+                  {formatSize(categoryUsage.size)}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.clearButton}
+                disabled={categoryUsage.entries === 0}
+                onPress={() => handleClearCategory(category)}>
+                <Icon
+                  name="trash-2"
+                  size={18}
+                  color={
+                    categoryUsage.entries === 0 ? dimColor : theme.colors.error
+                  }
+                />
+              </TouchableOpacity>
+            </View>
+          );
+        },
+      )}
+
+      {/* Entries dropped for no longer matching the API schema */}
+      {usage.quarantined > 0 && (
+        <View style={styles.quarantineRow}>
+          <Icon name="alert-octagon" size={14} color={theme.colors.warning} />
+          <Text style={[styles.quarantineText, {color: dimColor}]}>
+            {usage.quarantined} cached{' '}
+            {usage.quarantined === 1 ? 'entry' : 'entries'} quarantined after
+            failing validation
+          </Text>
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[styles.clearAllButton, {borderColor: theme.colors.error}]}
+        onPress={handleClearAll}>
+        <Text style={styles.clearAllText}>Clear All Cached Data</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    paddingVertical: theme.spacing[4],
+    alignItems: 'center',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: theme.spacing[2],
+  },
+  summaryText: {
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: '600',
+  },
+  summarySubtext: {
+    fontSize: theme.typography.fontSize.xs,
+  },
+  usageTrack: {
+    height: 6,
+    borderRadius: theme.borderRadius.full,
+    overflow: 'hidden',
+    marginBottom: theme.spacing[3],
+  },
+  usageFill: {
+    height: '100%',
+    borderRadius: theme.borderRadius.full,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing[3],
+    borderBottomWidth: 1,
+  },
+  categoryInfo: {
+    flex: 1,
+  },
+  categoryName: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+  categoryDetail: {
+    fontSize: theme.typography.fontSize.xs,
+    marginTop: 2,
+  },
+  clearButton: {
+    padding: theme.spacing[2],
+  },
+  quarantineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing[3],
+  },
+  quarantineText: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.xs,
+    marginLeft: theme.spacing[2],
+  },
+  clearAllButton: {
+    marginTop: theme.spacing[4],
+    paddingVertical: theme.spacing[3],
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  clearAllText: {
+    color: theme.colors.error,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+});
+
+export default CacheInspector;
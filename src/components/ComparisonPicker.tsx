@@ -0,0 +1,296 @@
+// src/components/ComparisonPicker.tsx
+// Search for a team or player to overlay on a ranking history chart
+import React, {useState, useEffect, useRef} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Modal,
+  SafeAreaView,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Feather';
+import {isAbortError} from '../api';
+import theme from '../theme';
+import TeamLogo from './TeamLogo';
+import {useDebouncedValue} from '../hooks/useDebouncedValue';
+
+export interface ComparisonOption {
+  id: string;
+  label: string;
+  subtitle?: string;
+  teamId?: string;
+}
+
+interface ComparisonPickerProps {
+  visible: boolean;
+  onClose: () => void;
+  title: string;
+  placeholder: string;
+  search: (query: string, signal: AbortSignal) => Promise<ComparisonOption[]>;
+  // Shown before anything is typed, e.g. conference rivals
+  suggestions?: ComparisonOption[];
+  suggestionsTitle?: string;
+  // Already on the chart
+  excludeIds: string[];
+  onSelect: (option: ComparisonOption) => void;
+  isDark: boolean;
+}
+
+const ComparisonPicker: React.FC<ComparisonPickerProps> = ({
+  visible,
+  onClose,
+  title,
+  placeholder,
+  search,
+  suggestions = [],
+  suggestionsTitle = 'Suggested',
+  excludeIds,
+  onSelect,
+  isDark,
+}) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [results, setResults] = useState<ComparisonOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const query = useDebouncedValue(searchQuery.trim(), 300);
+  // Latest search, so a re-render of the screen doesn't restart one
+  const searchRef = useRef(search);
+  searchRef.current = search;
+
+  // Start from the suggestions each time the picker opens
+  useEffect(() => {
+    if (!visible) {
+      setSearchQuery('');
+      setResults([]);
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible || query.length < 2) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    searchRef
+      .current(query, controller.signal)
+      .then(options => {
+        if (!controller.signal.aborted) {
+          setResults(options);
+        }
+      })
+      .catch(error => {
+        if (!controller.signal.aborted && !isAbortError(error)) {
+          console.error('Error searching comparisons:', error);
+          setResults([]);
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [visible, query]);
+
+  const searching = query.length >= 2;
+  const options = (searching ? results : suggestions).filter(
+    option => !excludeIds.includes(option.id),
+  );
+
+  const textColor = isDark ? theme.colors.text.dark : theme.colors.text.light;
+  const dimColor = isDark ? theme.colors.text.dimDark : theme.colors.gray[600];
+
+  const renderOption = ({item}: {item: ComparisonOption}) => (
+    <TouchableOpacity
+      style={[
+        styles.itemCard,
+        {
+          backgroundColor: isDark ? theme.colors.card.dark : theme.colors.white,
+          borderColor: isDark
+            ? theme.colors.border.dark
+            : theme.colors.border.light,
+        },
+      ]}
+      onPress={() => onSelect(item)}>
+      {item.teamId && <TeamLogo teamId={item.teamId} size="small" />}
+      <View style={styles.itemInfo}>
+        <Text style={[styles.itemName, {color: textColor}]} numberOfLines={1}>
+          {item.label}
+        </Text>
+        {item.subtitle && (
+          <Text
+            style={[styles.itemDescription, {color: dimColor}]}
+            numberOfLines={1}>
+            {item.subtitle}
+          </Text>
+        )}
+      </View>
+      <Icon name="plus" size={20} color={theme.colors.primary[500]} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={false}
+      onRequestClose={onClose}>
+      <SafeAreaView
+        style={[
+          styles.modalContainer,
+          {
+            backgroundColor: isDark
+              ? theme.colors.background.dark
+              : theme.colors.background.light,
+          },
+        ]}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Icon name="arrow-left" size={24} color={textColor} />
+          </TouchableOpacity>
+          <Text style={[styles.title, {color: textColor}]}>{title}</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View
+          style={[
+            styles.searchContainer,
+            {
+              backgroundColor: isDark
+                ? theme.colors.background.dark
+                : theme.colors.gray[100],
+              borderColor: isDark
+                ? theme.colors.border.dark
+                : theme.colors.border.light,
+            },
+          ]}>
+          <Icon
+            name="search"
+            size={20}
+            color={isDark ? theme.colors.text.dimDark : theme.colors.gray[500]}
+          />
+          <TextInput
+            style={[styles.searchInput, {color: textColor}]}
+            placeholder={placeholder}
+            placeholderTextColor={
+              isDark ? theme.colors.text.dimDark : theme.colors.gray[500]
+            }
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            autoCorrect={false}
+            autoCapitalize="none"
+          />
+          {loading && (
+            <ActivityIndicator size="small" color={theme.colors.primary[500]} />
+          )}
+        </View>
+
+        {!searching && options.length > 0 && (
+          <Text style={[styles.sectionTitle, {color: dimColor}]}>
+            {suggestionsTitle}
+          </Text>
+        )}
+
+        <FlatList
+          data={options}
+          keyExtractor={item => item.id}
+          renderItem={renderOption}
+          style={styles.list}
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            searching && !loading ? (
+              <Text style={[styles.emptyText, {color: dimColor}]}>
+                No matches for "{query}"
+              </Text>
+            ) : null
+          }
+        />
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    padding: theme.spacing[4],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing[4],
+  },
+  closeButton: {
+    padding: theme.spacing[2],
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  title: {
+    fontSize: theme.typography.fontSize.xl,
+    fontWeight: 'bold',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 50,
+    borderRadius: theme.borderRadius.lg,
+    paddingHorizontal: theme.spacing[3],
+    marginBottom: theme.spacing[3],
+    borderWidth: 1,
+  },
+  searchInput: {
+    flex: 1,
+    height: '100%',
+    marginLeft: theme.spacing[2],
+    fontSize: theme.typography.fontSize.base,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: theme.spacing[2],
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingBottom: theme.spacing[4],
+  },
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing[3],
+    borderWidth: 1,
+    borderRadius: theme.borderRadius.md,
+    marginBottom: theme.spacing[2],
+  },
+  itemInfo: {
+    marginLeft: theme.spacing[3],
+    flex: 1,
+  },
+  itemName: {
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: '600',
+  },
+  itemDescription: {
+    fontSize: theme.typography.fontSize.sm,
+    marginTop: theme.spacing[0.5],
+  },
+  emptyText: {
+    padding: theme.spacing[6],
+    textAlign: 'center',
+    fontSize: theme.typography.fontSize.sm,
+  },
+});
+
+export default ComparisonPicker;
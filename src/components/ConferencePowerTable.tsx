@@ -0,0 +1,370 @@
+// src/components/ConferencePowerTable.tsx
+// Conferences ranked by strength, each expanding to its ranked teams,
+// singles players and doubles pairs
+import React, {useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Feather';
+import theme from '../theme';
+import TeamLogo from './TeamLogo';
+import type {ConferencePower} from '../utils/conferencePower';
+import {conferenceLabel} from '../utils/rankingFilters';
+
+interface TeamEntry {
+  team_id: string;
+  rank: number;
+  points: number;
+  team_name: string;
+  conference?: string;
+}
+
+interface SinglesEntry {
+  player_id: string;
+  team_id: string;
+  rank: number;
+  player_name: string;
+  conference?: string;
+}
+
+interface DoublesEntry {
+  player1_id: string;
+  player2_id: string;
+  team_id: string;
+  rank: number;
+  player1_name: string;
+  player2_name: string;
+  conference?: string;
+}
+
+export type ConferencePowerRow = ConferencePower<
+  TeamEntry,
+  SinglesEntry,
+  DoublesEntry
+>;
+
+interface ConferencePowerTableProps {
+  rows: ConferencePowerRow[];
+  // Player counts are filled in once the same week's player lists load
+  loadingPlayers: boolean;
+  refreshing: boolean;
+  onRefresh: () => void;
+  onTeamPress: (teamId: string) => void;
+  onPlayerPress: (playerId: string) => void;
+  isDark: boolean;
+}
+
+const COLUMNS = [
+  {label: 'Teams', style: 'countCell'},
+  {label: 'Best', style: 'countCell'},
+  {label: 'Avg', style: 'countCell'},
+  {label: 'Pts', style: 'pointsCell'},
+  {label: 'S', style: 'countCell'},
+  {label: 'D', style: 'countCell'},
+  {label: 'Score', style: 'pointsCell'},
+] as const;
+
+const ConferencePowerTable: React.FC<ConferencePowerTableProps> = ({
+  rows,
+  loadingPlayers,
+  refreshing,
+  onRefresh,
+  onTeamPress,
+  onPlayerPress,
+  isDark,
+}) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const textColor = isDark ? theme.colors.text.dark : theme.colors.text.light;
+  const dimColor = isDark ? theme.colors.text.dimDark : theme.colors.gray[600];
+  const borderColor = isDark
+    ? theme.colors.border.dark
+    : theme.colors.border.light;
+
+  const renderDetailRow = (
+    key: string,
+    rank: number,
+    name: string,
+    onPress: () => void,
+    teamId?: string,
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={styles.detailRow}
+      onPress={onPress}
+      activeOpacity={0.7}>
+      <Text style={[styles.detailRank, {color: dimColor}]}>#{rank}</Text>
+      {teamId && <TeamLogo teamId={teamId} size="small" />}
+      <Text style={[styles.detailName, {color: textColor}]} numberOfLines={1}>
+        {name}
+      </Text>
+      <Icon name="chevron-right" size={14} color={dimColor} />
+    </TouchableOpacity>
+  );
+
+  const renderDetailSection = (title: string, children: React.ReactNode[]) =>
+    children.length > 0 && (
+      <View style={styles.detailSection}>
+        <Text style={[styles.detailTitle, {color: dimColor}]}>{title}</Text>
+        {children}
+      </View>
+    );
+
+  const renderRow = ({
+    item,
+    index,
+  }: {
+    item: ConferencePowerRow;
+    index: number;
+  }) => {
+    const isExpanded = expanded === item.conference;
+    const values = [
+      item.teams.length,
+      item.bestRank,
+      item.averageRank.toFixed(1),
+      item.points.toFixed(1),
+      loadingPlayers ? '–' : item.singles.length,
+      loadingPlayers ? '–' : item.doubles.length,
+      item.score.toFixed(1),
+    ];
+
+    return (
+      <View
+        style={[
+          styles.row,
+          {
+            backgroundColor: isDark
+              ? theme.colors.background.dark
+              : theme.colors.white,
+            borderColor,
+          },
+        ]}>
+        <TouchableOpacity
+          style={styles.summaryRow}
+          onPress={() => setExpanded(isExpanded ? null : item.conference)}
+          activeOpacity={0.7}>
+          <Text style={[styles.positionText, {color: textColor}]}>
+            {index + 1}
+          </Text>
+          <View style={styles.conferenceCell}>
+            <Text
+              style={[styles.conferenceName, {color: textColor}]}
+              numberOfLines={1}>
+              {conferenceLabel(item.conference)}
+            </Text>
+            <Icon
+              name={isExpanded ? 'chevron-up' : 'chevron-down'}
+              size={14}
+              color={dimColor}
+            />
+          </View>
+          {COLUMNS.map((column, columnIndex) => (
+            <Text
+              key={column.label}
+              style={[
+                styles[column.style],
+                styles.valueText,
+                {color: textColor},
+                column.label === 'Score' && styles.scoreText,
+              ]}>
+              {values[columnIndex]}
+            </Text>
+          ))}
+        </TouchableOpacity>
+
+        {isExpanded && (
+          <View style={[styles.details, {borderTopColor: borderColor}]}>
+            {renderDetailSection(
+              'Teams',
+              item.teams.map(team =>
+                renderDetailRow(
+                  team.team_id,
+                  team.rank,
+                  team.team_name.replace(/\s*\([MW]\)\s*$/, ''),
+                  () => onTeamPress(team.team_id),
+                  team.team_id,
+                ),
+              ),
+            )}
+            {renderDetailSection(
+              'Singles',
+              item.singles.map(player =>
+                renderDetailRow(
+                  player.player_id,
+                  player.rank,
+                  player.player_name,
+                  () => onPlayerPress(player.player_id),
+                  player.team_id,
+                ),
+              ),
+            )}
+            {renderDetailSection(
+              'Doubles',
+              item.doubles.map(pair =>
+                renderDetailRow(
+                  `${pair.player1_id}-${pair.player2_id}`,
+                  pair.rank,
+                  `${pair.player1_name} / ${pair.player2_name}`,
+                  () => onPlayerPress(pair.player1_id),
+                  pair.team_id,
+                ),
+              ),
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <FlatList
+      data={rows}
+      keyExtractor={item => item.conference}
+      renderItem={renderRow}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={onRefresh}
+          colors={[theme.colors.primary[500]]}
+          tintColor={theme.colors.primary[500]}
+        />
+      }
+      ListHeaderComponent={
+        <View
+          style={[
+            styles.header,
+            {
+              backgroundColor: isDark
+                ? theme.colors.card.dark
+                : theme.colors.card.light,
+            },
+          ]}>
+          <Text style={[styles.positionText, {color: dimColor}]}>#</Text>
+          <View style={styles.conferenceCell}>
+            <Text style={[styles.headerText, {color: dimColor}]}>
+              Conference
+            </Text>
+            {loadingPlayers && (
+              <ActivityIndicator size="small" color={dimColor} />
+            )}
+          </View>
+          {COLUMNS.map(column => (
+            <Text
+              key={column.label}
+              style={[
+                styles[column.style],
+                styles.headerText,
+                {color: dimColor},
+              ]}>
+              {column.label}
+            </Text>
+          ))}
+        </View>
+      }
+      ListEmptyComponent={
+        <Text style={[styles.emptyText, {color: dimColor}]}>
+          No ranked teams list a conference
+        </Text>
+      }
+      contentContainerStyle={styles.listContent}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  listContent: {
+    paddingBottom: 120,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing[2],
+    paddingHorizontal: theme.spacing[2],
+  },
+  headerText: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: '600',
+  },
+  row: {
+    borderBottomWidth: 1,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing[3],
+    paddingHorizontal: theme.spacing[2],
+  },
+  positionText: {
+    width: 22,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: '700',
+  },
+  conferenceCell: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  conferenceName: {
+    flexShrink: 1,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: '600',
+    marginRight: theme.spacing[1],
+  },
+  countCell: {
+    width: 32,
+    textAlign: 'center',
+  },
+  pointsCell: {
+    width: 44,
+    textAlign: 'right',
+  },
+  valueText: {
+    fontSize: theme.typography.fontSize.xs,
+  },
+  scoreText: {
+    fontWeight: '700',
+    color: theme.colors.primary[500],
+  },
+  details: {
+    borderTopWidth: 1,
+    paddingHorizontal: theme.spacing[4],
+    paddingBottom: theme.spacing[2],
+  },
+  detailSection: {
+    marginTop: theme.spacing[2],
+  },
+  detailTitle: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: theme.spacing[1],
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing[1],
+  },
+  detailRank: {
+    width: 40,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+  detailName: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.sm,
+    marginLeft: theme.spacing[2],
+  },
+  emptyText: {
+    padding: theme.spacing[6],
+    textAlign: 'center',
+    fontSize: theme.typography.fontSize.sm,
+  },
+});
+
+export default ConferencePowerTable;
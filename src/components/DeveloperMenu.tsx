@@ -0,0 +1,217 @@
+// src/components/DeveloperMenu.tsx
+import React, {useState, useEffect} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Share,
+  Switch,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import Icon from 'react-native-vector-icons/Feather';
+import theme from '../theme';
+import environmentService from '../services/environmentService';
+import {
+  getRecordingSize,
+  isRecording,
+  startRecording,
+  stopRecording,
+} from '../api/fixtures';
+import {ENVIRONMENTS, isEnvironmentAvailable} from '../config/environments';
+import type {Environment} from '../config/environments';
+
+type RootStackParamList = {
+  Diagnostics: undefined;
+};
+
+interface DeveloperMenuProps {
+  isDark: boolean;
+}
+
+const DeveloperMenu: React.FC<DeveloperMenuProps> = ({isDark}) => {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+  const [current, setCurrent] = useState<Environment>(
+    environmentService.getEnvironment(),
+  );
+  const [recording, setRecording] = useState<boolean>(false);
+  const [recordedCount, setRecordedCount] = useState<number>(0);
+
+  useEffect(() => environmentService.subscribe(setCurrent), []);
+
+  const loadRecordingState = async () => {
+    setRecording(await isRecording());
+    setRecordedCount(await getRecordingSize());
+  };
+
+  useEffect(() => {
+    loadRecordingState();
+  }, []);
+
+  const handleToggleRecording = async (enabled: boolean) => {
+    if (enabled) {
+      await startRecording();
+      await loadRecordingState();
+      return;
+    }
+
+    const finished = await stopRecording();
+    await loadRecordingState();
+    if (!finished || Object.keys(finished.responses).length === 0) {
+      return;
+    }
+    // Hand the recording off in the same format as src/fixtures/season.json
+    try {
+      await Share.share({
+        title: 'Fixture recording',
+        message: JSON.stringify(finished, null, 1),
+      });
+    } catch (error) {
+      console.error('Failed to share fixture recording:', error);
+    }
+  };
+
+  const handleSelect = (environment: Environment) => {
+    if (environment.name === current.name) {
+      return;
+    }
+    Alert.alert(
+      'Switch Environment',
+      `Reload the app with data from ${environment.label}? Each environment keeps its own cache.`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Switch',
+          onPress: async () => {
+            try {
+              await environmentService.setEnvironment(environment.name);
+            } catch (error) {
+              Alert.alert(
+                'Switch Failed',
+                error instanceof Error ? error.message : String(error),
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const textColor = isDark ? theme.colors.text.dark : theme.colors.text.light;
+  const dimColor = isDark ? theme.colors.text.dimDark : theme.colors.gray[500];
+  const borderColor = isDark
+    ? theme.colors.border.dark
+    : theme.colors.border.light;
+
+  return (
+    <View>
+      <Text style={[styles.label, {color: dimColor}]}>Environment</Text>
+      {Object.values(ENVIRONMENTS).map(environment => {
+        const available = isEnvironmentAvailable(environment);
+        const selected = environment.name === current.name;
+        return (
+          <TouchableOpacity
+            key={environment.name}
+            style={[styles.environmentRow, {borderBottomColor: borderColor}]}
+            disabled={!available}
+            onPress={() => handleSelect(environment)}
+            activeOpacity={0.7}>
+            <View style={styles.environmentInfo}>
+              <Text
+                style={[
+                  styles.environmentName,
+                  {color: available ? textColor : dimColor},
+                ]}>
+                {environment.label}
+              </Text>
+              <Text
+                style={[styles.environmentDetail, {color: dimColor}]}
+                numberOfLines={1}>
+                {environment.source === 'fixtures'
+                  ? 'Recorded season bundled with the app'
+                  : environment.baseUrl ?? 'Not available in this build'}
+              </Text>
+            </View>
+            {selected && (
+              <Icon name="check" size={18} color={theme.colors.primary[500]} />
+            )}
+          </TouchableOpacity>
+        );
+      })}
+
+      {/* Request traces */}
+      <TouchableOpacity
+        style={[styles.environmentRow, {borderBottomColor: borderColor}]}
+        onPress={() => navigation.navigate('Diagnostics')}
+        activeOpacity={0.7}>
+        <View style={styles.environmentInfo}>
+          <Text style={[styles.environmentName, {color: textColor}]}>
+            Request diagnostics
+          </Text>
+          <Text style={[styles.environmentDetail, {color: dimColor}]}>
+            Latency per endpoint, slowest calls and cache hits
+          </Text>
+        </View>
+        <Icon name="chevron-right" size={18} color={dimColor} />
+      </TouchableOpacity>
+
+      {/* Record mode */}
+      <View style={styles.recordRow}>
+        <View style={styles.environmentInfo}>
+          <Text style={[styles.environmentName, {color: textColor}]}>
+            Record responses
+          </Text>
+          <Text style={[styles.environmentDetail, {color: dimColor}]}>
+            {recording
+              ? `${recordedCount} recorded · turn off to export`
+              : 'Capture live responses as fixtures'}
+          </Text>
+        </View>
+        <Switch
+          value={recording}
+          disabled={current.source === 'fixtures'}
+          onValueChange={handleToggleRecording}
+          trackColor={{
+            false: theme.colors.gray[400],
+            true: theme.colors.primary[500],
+          }}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: '600',
+    marginBottom: theme.spacing[1],
+  },
+  environmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing[3],
+    borderBottomWidth: 1,
+  },
+  environmentInfo: {
+    flex: 1,
+    marginRight: theme.spacing[2],
+  },
+  environmentName: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+  environmentDetail: {
+    fontSize: theme.typography.fontSize.xs,
+    marginTop: 2,
+  },
+  recordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: theme.spacing[3],
+  },
+});
+
+export default DeveloperMenu;
@@ -0,0 +1,149 @@
+// src/components/ErrorState.tsx
+import React from 'react';
+import {View, Text, StyleSheet, TouchableOpacity} from 'react-native';
+import Icon from 'react-native-vector-icons/Feather';
+import theme from '../theme';
+import {getErrorKind} from '../api';
+import type {ApiErrorKind} from '../api';
+
+interface ErrorStateProps {
+  error: unknown;
+  isDark: boolean;
+  // What failed, e.g. "Couldn't load teams"; defaults to a title per kind
+  title?: string;
+  onRetry?: () => void;
+  // Smaller layout for a section inside a screen
+  compact?: boolean;
+}
+
+const ERROR_CONTENT: Record<
+  ApiErrorKind,
+  {icon: string; title: string; message: string}
+> = {
+  Offline: {
+    icon: 'wifi-off',
+    title: "You're offline",
+    message: 'Check your internet connection and try again.',
+  },
+  NotFound: {
+    icon: 'search',
+    title: 'Not found',
+    message: "This doesn't exist or is no longer available.",
+  },
+  Empty: {
+    icon: 'inbox',
+    title: 'Nothing here yet',
+    message: 'There is no data for this selection.',
+  },
+  Unauthorized: {
+    icon: 'lock',
+    title: 'Access denied',
+    message: "You don't have permission to view this.",
+  },
+  ServerError: {
+    icon: 'alert-triangle',
+    title: 'Server error',
+    message: 'Something went wrong on our end. Please try again later.',
+  },
+  InvalidResponse: {
+    icon: 'alert-octagon',
+    title: 'Unexpected data',
+    message:
+      "The server sent data this version of the app doesn't understand. Try updating the app.",
+  },
+  Unknown: {
+    icon: 'alert-circle',
+    title: 'Something went wrong',
+    message: 'Please try again.',
+  },
+};
+
+// Inline error/empty state, shown in place of the content that failed
+const ErrorState: React.FC<ErrorStateProps> = ({
+  error,
+  isDark,
+  title,
+  onRetry,
+  compact = false,
+}) => {
+  const kind = getErrorKind(error);
+  const content = ERROR_CONTENT[kind];
+  const iconColor =
+    kind === 'Empty' || kind === 'NotFound'
+      ? isDark
+        ? theme.colors.text.dimDark
+        : theme.colors.gray[400]
+      : theme.colors.error;
+
+  return (
+    <View style={[styles.container, compact && styles.compactContainer]}>
+      <Icon name={content.icon} size={compact ? 32 : 48} color={iconColor} />
+      <Text
+        style={[
+          styles.title,
+          compact && styles.compactTitle,
+          {color: isDark ? theme.colors.text.dark : theme.colors.text.light},
+        ]}>
+        {title ?? content.title}
+      </Text>
+      <Text
+        style={[
+          styles.message,
+          {color: isDark ? theme.colors.text.dimDark : theme.colors.gray[500]},
+        ]}>
+        {content.message}
+      </Text>
+      {onRetry && (
+        <TouchableOpacity
+          style={[styles.retryButton, compact && styles.compactRetryButton]}
+          onPress={onRetry}
+          activeOpacity={0.7}>
+          <Text style={styles.retryButtonText}>Retry</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: theme.spacing[6],
+  },
+  compactContainer: {
+    padding: theme.spacing[4],
+  },
+  title: {
+    marginTop: theme.spacing[4],
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  compactTitle: {
+    marginTop: theme.spacing[2],
+    fontSize: theme.typography.fontSize.base,
+  },
+  message: {
+    marginTop: theme.spacing[2],
+    fontSize: theme.typography.fontSize.sm,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: theme.spacing[4],
+    backgroundColor: theme.colors.primary[500],
+    paddingVertical: theme.spacing[2],
+    paddingHorizontal: theme.spacing[4],
+    borderRadius: theme.borderRadius.md,
+  },
+  compactRetryButton: {
+    marginTop: theme.spacing[3],
+  },
+  retryButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: '600',
+  },
+});
+
+export default ErrorState;
@@ -13,8 +13,10 @@ import {useNavigation} from '@react-navigation/native';
 import {StackNavigationProp} from '@react-navigation/stack';
 import Icon from 'react-native-vector-icons/Feather';
 import {api} from '../api';
+import type {RequestOptions} from '../api';
 import theme from '../theme';
 import TeamLogo from './TeamLogo';
+import {usePlayerTeams} from '../hooks/useEntities';
 
 // Define types for navigation
 type RootStackParamList = {
@@ -32,6 +34,7 @@ interface FavoritePlayersSectionProps {
   favoritePlayers: string[];
   isDark: boolean;
   onViewAll?: () => void; // Added this prop for View All button
+  refreshKey?: number; // Bumped by the parent on pull-to-refresh
 }
 
 interface PlayerData {
@@ -42,14 +45,6 @@ interface PlayerData {
   avatar_url?: string;
 }
 
-interface PlayerTeam {
-  team_id: string;
-  team_name: string;
-  abbreviation?: string;
-  conference?: string;
-  gender?: string;
-}
-
 interface PlayerStats {
   singles_wins: number;
   singles_losses: number;
@@ -81,6 +76,7 @@ const FavoritePlayerSection: React.FC<FavoritePlayersSectionProps> = ({
   favoritePlayers,
   isDark,
   onViewAll,
+  refreshKey = 0,
 }) => {
   const navigation = useNavigation<FavoritePlayerNavigationProp>();
   const [loading, setLoading] = useState<boolean>(true);
@@ -88,9 +84,7 @@ const FavoritePlayerSection: React.FC<FavoritePlayersSectionProps> = ({
   const [playerStats, setPlayerStats] = useState<Record<string, PlayerStats>>(
     {},
   );
-  const [playerTeams, setPlayerTeams] = useState<Record<string, PlayerTeam>>(
-    {},
-  );
+  const playerTeams = usePlayerTeams(favoritePlayers);
   const [recentResults, setRecentResults] = useState<
     Record<string, PlayerMatchResult[]>
   >({});
@@ -98,6 +92,8 @@ const FavoritePlayerSection: React.FC<FavoritePlayersSectionProps> = ({
   useEffect(() => {
     // console.log("FavoritePlayersSection received props:", props);
     console.log('Favorite players received:', favoritePlayers);
+    const options: RequestOptions =
+      refreshKey > 0 ? {cachePolicy: 'network-first'} : {};
 
     const fetchPlayersData = async () => {
       if (!favoritePlayers || favoritePlayers.length === 0) {
@@ -113,12 +109,10 @@ const FavoritePlayerSection: React.FC<FavoritePlayersSectionProps> = ({
         );
         setPlayersData(players);
 
-        // Fetch player teams
-        const teams: Record<string, PlayerTeam> = {};
+        // Fetch player teams into the entity store
         for (const playerId of favoritePlayers) {
           try {
-            const team = await api.players.getTeam(playerId);
-            teams[playerId] = team;
+            await api.players.getTeam(playerId, undefined, options);
           } catch (error) {
             console.error(
               `Failed to fetch team for player ${playerId}:`,
@@ -126,13 +120,16 @@ const FavoritePlayerSection: React.FC<FavoritePlayersSectionProps> = ({
             );
           }
         }
-        setPlayerTeams(teams);
 
         // Fetch player stats
         const stats: Record<string, PlayerStats> = {};
         for (const playerId of favoritePlayers) {
           try {
-            const playerStats = await api.players.getStats(playerId);
+            const playerStats = await api.players.getStats(
+              playerId,
+              undefined,
+              options,
+            );
             stats[playerId] = playerStats;
           } catch (error) {
             console.error(
@@ -147,7 +144,11 @@ const FavoritePlayerSection: React.FC<FavoritePlayersSectionProps> = ({
         const results: Record<string, PlayerMatchResult[]> = {};
         for (const playerId of favoritePlayers) {
           try {
-            const matchResults = await api.players.getMatchResults(playerId);
+            const matchResults = await api.players.getMatchResults(
+              playerId,
+              undefined,
+              options,
+            );
             // Sort by date (newest first) and take top 2
             results[playerId] = matchResults
               .sort(
@@ -171,7 +172,7 @@ const FavoritePlayerSection: React.FC<FavoritePlayersSectionProps> = ({
     };
 
     fetchPlayersData();
-  }, [favoritePlayers]);
+  }, [favoritePlayers, refreshKey]);
 
   // Handle navigation to player details
   const navigateToPlayer = (playerId: string) => {
@@ -326,7 +327,7 @@ const FavoritePlayerSection: React.FC<FavoritePlayersSectionProps> = ({
                     </Text>
                     {team && (
                       <View style={styles.teamContainer}>
-                        <TeamLogo teamId={team.team_id} size="small" />
+                        <TeamLogo teamId={team.id} size="small" />
                         <Text
                           style={[
                             styles.teamName,
@@ -336,8 +337,8 @@ const FavoritePlayerSection: React.FC<FavoritePlayersSectionProps> = ({
                                 : theme.colors.gray[600],
                             },
                           ]}>
-                          {team.team_name &&
-                            team.team_name.replace(/\s*\([MW]\)\s*$/, '')}
+                          {team.name &&
+                            team.name.replace(/\s*\([MW]\)\s*$/, '')}
                         </Text>
                       </View>
                     )}
@@ -12,9 +12,11 @@ import {useNavigation} from '@react-navigation/native';
 import {StackNavigationProp} from '@react-navigation/stack';
 import Icon from 'react-native-vector-icons/Feather';
 import {api, Match as ApiMatch, Team as ApiTeam} from '../api';
+import type {RequestOptions} from '../api';
 import theme from '../theme';
 import TeamLogo from './TeamLogo';
 import {format} from 'date-fns';
+import {getCurrentSeason} from '../utils/season';
 
 // Define the navigation types
 type RootStackParamList = {
@@ -32,6 +34,7 @@ interface FavoriteTeamsDashboardProps {
   favoriteTeams: string[];
   isDark: boolean;
   onViewAll?: () => void; // Added this prop for View All button
+  refreshKey?: number; // Bumped by the parent on pull-to-refresh
 }
 
 // Extend the API Match interface with our component's needs
@@ -54,6 +57,7 @@ const FavoriteTeamDashboard: React.FC<FavoriteTeamsDashboardProps> = ({
   favoriteTeams,
   isDark,
   onViewAll,
+  refreshKey = 0,
 }) => {
   const navigation = useNavigation<FavoriteTeamsDashboardNavigationProp>();
   const [loading, setLoading] = useState<boolean>(true);
@@ -63,6 +67,9 @@ const FavoriteTeamDashboard: React.FC<FavoriteTeamsDashboardProps> = ({
   const [teamRankings, setTeamRankings] = useState<TeamRanking[]>([]);
 
   useEffect(() => {
+    const options: RequestOptions =
+      refreshKey > 0 ? {cachePolicy: 'network-first'} : {};
+
     const fetchTeamsData = async () => {
       if (!favoriteTeams || favoriteTeams.length === 0) {
         setLoading(false);
@@ -73,23 +80,21 @@ const FavoriteTeamDashboard: React.FC<FavoriteTeamsDashboardProps> = ({
       try {
         // Fetch team details, upcoming matches, and rankings in parallel
         const [teamsDetails, latestRankings] = await Promise.all([
-          Promise.all(favoriteTeams.map(teamId => api.teams.getById(teamId))),
-          api.rankings.getLatestTeamRankings(),
+          api.batch.getTeams(favoriteTeams, options),
+          api.rankings.getLatestTeamRankings('DIV1', 'M', 25, options),
         ]);
 
-        setTeamsData(teamsDetails);
+        setTeamsData(
+          favoriteTeams
+            .map(teamId => teamsDetails[teamId])
+            .filter((team): team is ApiTeam => Boolean(team)),
+        );
 
         // Get today's date
         const today = new Date();
 
         // Get current season (e.g., "2024" for 2024-2025 season)
-        const currentYear = today.getFullYear();
-        const currentMonth = today.getMonth(); // 0-11
-        // If we're in the second half of the academic year (Jan-Jul), use previous year as season
-        const currentSeason =
-          currentMonth < 7
-            ? (currentYear - 1).toString()
-            : currentYear.toString();
+        const currentSeason = getCurrentSeason(today);
 
         // Fetch upcoming matches for each team (next 7 days)
         const allUpcomingMatches: MatchWithScore[] = [];
@@ -99,6 +104,7 @@ const FavoriteTeamDashboard: React.FC<FavoriteTeamsDashboardProps> = ({
             const teamMatches = await api.matches.getAllByTeam(
               teamId,
               currentSeason,
+              options,
             );
             const upcoming = teamMatches
               .filter(match => {
@@ -129,6 +135,7 @@ const FavoriteTeamDashboard: React.FC<FavoriteTeamsDashboardProps> = ({
             const teamMatches = await api.matches.getAllByTeam(
               teamId,
               currentSeason,
+              options,
             );
             const recent = teamMatches
               .filter(match => match.completed)
@@ -139,23 +146,8 @@ const FavoriteTeamDashboard: React.FC<FavoriteTeamsDashboardProps> = ({
               )
               .slice(0, 2); // Latest 2 completed matches per team
 
-            // Now we need to cast these to our MatchWithScore type and add scores
-            const recentWithScore = recent as MatchWithScore[];
-
-            // Fetch scores for each match
-            for (const match of recentWithScore) {
-              try {
-                const score = await api.matches.getScore(match.id);
-                match.score = score;
-              } catch (error) {
-                console.error(
-                  `Failed to fetch score for match ${match.id}:`,
-                  error,
-                );
-              }
-            }
-
-            allRecentResults.push(...recentWithScore);
+            // Scores are added below in one batch request
+            allRecentResults.push(...(recent as MatchWithScore[]));
           } catch (error) {
             console.error(
               `Failed to fetch recent results for team ${teamId}:`,
@@ -164,6 +156,19 @@ const FavoriteTeamDashboard: React.FC<FavoriteTeamsDashboardProps> = ({
           }
         }
 
+        // Fetch scores for every recent result at once
+        try {
+          const scores = await api.batch.getMatchScores(
+            allRecentResults.map(match => match.id),
+            options,
+          );
+          allRecentResults.forEach(match => {
+            match.score = scores[match.id];
+          });
+        } catch (error) {
+          console.error('Failed to fetch scores for recent results:', error);
+        }
+
         // Sort recent results by date (newest first)
         allRecentResults.sort(
           (a, b) =>
@@ -184,7 +189,7 @@ const FavoriteTeamDashboard: React.FC<FavoriteTeamsDashboardProps> = ({
     };
 
     fetchTeamsData();
-  }, [favoriteTeams]);
+  }, [favoriteTeams, refreshKey]);
 
   // Format team name (remove gender markers)
   const formatTeamName = (name: string | undefined): string => {
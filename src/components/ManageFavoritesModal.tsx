@@ -1,5 +1,5 @@
 // src/components/ManageFavoritesModal.tsx
-import React, {useState, useEffect} from 'react';
+import React, {useState, useEffect, useCallback} from 'react';
 import {
   View,
   Text,
@@ -9,12 +9,16 @@ import {
   Modal,
   SafeAreaView,
   TextInput,
+  ActivityIndicator,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/Feather';
 import {api} from '../api';
 import theme from '../theme';
 import TeamLogo from './TeamLogo';
 import {PreferencesManager} from '../utils/preferencesManager';
+import {useDebouncedValue} from '../hooks/useDebouncedValue';
+import {usePagedList} from '../hooks/usePagedList';
+import type {FetchPage} from '../hooks/usePagedList';
 
 interface ManageFavoritesModalProps {
   isVisible: boolean;
@@ -56,20 +60,28 @@ const ManageFavoritesModal: React.FC<ManageFavoritesModalProps> = ({
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(false);
-  const [teams, setTeams] = useState<TeamData[]>([]);
   const [players, setPlayers] = useState<PlayerData[]>([]);
-  // Use separate state variables for teams and players to avoid type issues
-  const [filteredTeams, setFilteredTeams] = useState<TeamData[]>([]);
   const [filteredPlayers, setFilteredPlayers] = useState<PlayerData[]>([]);
   const [currentFavorites, setCurrentFavorites] = useState<string[]>([]);
   const [preferredGender, setPreferredGender] = useState<string>('M');
 
+  // Teams matching the search and gender, a page at a time
+  const teamQuery = useDebouncedValue(searchQuery.trim(), 300);
+  const fetchTeamPage = useCallback<FetchPage<TeamData>>(
+    (page, options) =>
+      api.teams.getPage(
+        {query: teamQuery, gender: preferredGender, page},
+        options,
+      ),
+    [teamQuery, preferredGender],
+  );
+  const teamPages = usePagedList(fetchTeamPage, isVisible && mode === 'teams');
+
   // Initialize with current favorites
   useEffect(() => {
     if (isVisible) {
       if (mode === 'teams') {
         setCurrentFavorites([...favoriteTeams]);
-        fetchAllTeams();
       } else {
         setCurrentFavorites([...favoritePlayers]);
         fetchSavedPlayers();
@@ -77,32 +89,14 @@ const ManageFavoritesModal: React.FC<ManageFavoritesModalProps> = ({
     } else {
       // Clear search and filters when modal closes
       setSearchQuery('');
-      // Reset filtered lists
-      setFilteredTeams([]);
+      // Reset filtered list
       setFilteredPlayers([]);
     }
   }, [isVisible, mode, favoriteTeams, favoritePlayers]);
 
   // Update filtered items when search changes
   useEffect(() => {
-    if (mode === 'teams' && teams.length > 0) {
-      const filtered = teams.filter(team => {
-        // Filter by gender
-        const genderMatch =
-          team.gender === preferredGender ||
-          team.name.includes(preferredGender === 'M' ? '(M)' : '(W)');
-
-        // Filter by search
-        const searchMatch =
-          searchQuery === '' ||
-          team.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          (team.conference &&
-            team.conference.toLowerCase().includes(searchQuery.toLowerCase()));
-
-        return genderMatch && searchMatch;
-      });
-      setFilteredTeams(filtered);
-    } else if (mode === 'players' && players.length > 0) {
+    if (mode === 'players' && players.length > 0) {
       const filtered = players.filter(player => {
         // Filter by search
         return (
@@ -116,30 +110,7 @@ const ManageFavoritesModal: React.FC<ManageFavoritesModalProps> = ({
       });
       setFilteredPlayers(filtered);
     }
-  }, [mode, teams, players, searchQuery, preferredGender]);
-
-  const fetchAllTeams = async () => {
-    setLoading(true);
-    try {
-      const teamsData = await api.teams.getAll();
-      // Sort teams alphabetically
-      const sortedTeams = [...teamsData].sort((a, b) =>
-        a.name.localeCompare(b.name),
-      );
-      setTeams(sortedTeams);
-      setFilteredTeams(
-        sortedTeams.filter(
-          team =>
-            team.gender === preferredGender ||
-            team.name.includes(preferredGender === 'M' ? '(M)' : '(W)'),
-        ),
-      );
-    } catch (error) {
-      console.error('Failed to fetch teams:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  }, [mode, players, searchQuery]);
 
   const fetchSavedPlayers = async () => {
     setLoading(true);
@@ -526,32 +497,71 @@ const ManageFavoritesModal: React.FC<ManageFavoritesModalProps> = ({
         {/* List of items */}
         {mode === 'teams' ? (
           <FlatList
-            data={filteredTeams}
+            data={teamPages.items}
             renderItem={renderTeamItem}
             keyExtractor={item => item.id}
             style={styles.list}
             contentContainerStyle={styles.listContent}
-            ListEmptyComponent={
-              <View style={styles.emptyContainer}>
-                <Icon
-                  name="users"
-                  size={48}
-                  color={
-                    isDark ? theme.colors.text.dimDark : theme.colors.gray[400]
-                  }
-                />
+            onEndReached={teamPages.loadMore}
+            onEndReachedThreshold={0.5}
+            ListHeaderComponent={
+              teamPages.totalCount ? (
                 <Text
                   style={[
-                    styles.emptyText,
+                    styles.countText,
                     {
                       color: isDark
                         ? theme.colors.text.dimDark
-                        : theme.colors.gray[600],
+                        : theme.colors.gray[500],
                     },
                   ]}>
-                  No teams found
+                  Showing {teamPages.items.length} of {teamPages.totalCount}{' '}
+                  teams
                 </Text>
-              </View>
+              ) : null
+            }
+            ListFooterComponent={
+              teamPages.loading && teamPages.items.length > 0 ? (
+                <View style={styles.loadMoreContainer}>
+                  <ActivityIndicator
+                    size="small"
+                    color={theme.colors.primary[500]}
+                  />
+                </View>
+              ) : null
+            }
+            ListEmptyComponent={
+              teamPages.loading ? (
+                <View style={styles.emptyContainer}>
+                  <ActivityIndicator
+                    size="large"
+                    color={theme.colors.primary[500]}
+                  />
+                </View>
+              ) : (
+                <View style={styles.emptyContainer}>
+                  <Icon
+                    name="users"
+                    size={48}
+                    color={
+                      isDark
+                        ? theme.colors.text.dimDark
+                        : theme.colors.gray[400]
+                    }
+                  />
+                  <Text
+                    style={[
+                      styles.emptyText,
+                      {
+                        color: isDark
+                          ? theme.colors.text.dimDark
+                          : theme.colors.gray[600],
+                      },
+                    ]}>
+                    No teams found
+                  </Text>
+                </View>
+              )
             }
           />
         ) : (
@@ -700,6 +710,14 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  countText: {
+    fontSize: theme.typography.fontSize.xs,
+    marginBottom: theme.spacing[2],
+  },
+  loadMoreContainer: {
+    paddingVertical: theme.spacing[4],
+    alignItems: 'center',
+  },
   emptyContainer: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -0,0 +1,188 @@
+// src/components/NotificationSettings.tsx
+import React, {useState, useEffect} from 'react';
+import {View, Text, StyleSheet, TouchableOpacity, Switch} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import Icon from 'react-native-vector-icons/Feather';
+import theme from '../theme';
+import {api} from '../api';
+import {useTeams} from '../hooks/useEntities';
+import notificationService, {
+  DEFAULT_TEAM_SETTINGS,
+  START_REMINDER_MINUTES,
+} from '../services/notificationService';
+import type {
+  MatchAlert,
+  NotificationEvent,
+  TeamNotificationSettings,
+} from '../services/notificationService';
+import {PreferencesManager} from '../utils/preferencesManager';
+
+type RootStackParamList = {
+  Notifications: undefined;
+};
+
+interface NotificationSettingsProps {
+  isDark: boolean;
+}
+
+const EVENT_LABELS: Record<NotificationEvent, string> = {
+  start: 'Starts',
+  result: 'Finals',
+};
+
+const NotificationSettings: React.FC<NotificationSettingsProps> = ({
+  isDark,
+}) => {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+  const [teamIds, setTeamIds] = useState<string[]>([]);
+  const [settings, setSettings] = useState<
+    Record<string, TeamNotificationSettings>
+  >({});
+  const [unread, setUnread] = useState<number>(0);
+  const teams = useTeams(teamIds);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const prefs = await PreferencesManager.getPreferences();
+        const favoriteTeams: string[] = prefs?.favoriteTeams ?? [];
+        setTeamIds(favoriteTeams);
+        setSettings(await notificationService.getTeamSettings());
+        await api.batch.getTeams(favoriteTeams);
+      } catch (error) {
+        console.error('Failed to load notification settings:', error);
+      }
+    };
+    loadSettings();
+  }, []);
+
+  useEffect(() => {
+    const countUnread = (alerts: MatchAlert[]) =>
+      setUnread(alerts.filter(alert => !alert.read).length);
+    notificationService.getAlerts().then(countUnread);
+    return notificationService.subscribe(countUnread);
+  }, []);
+
+  const handleToggle = async (
+    teamId: string,
+    event: NotificationEvent,
+    enabled: boolean,
+  ) => {
+    const teamSettings = {
+      ...DEFAULT_TEAM_SETTINGS,
+      ...settings[teamId],
+      [event]: enabled,
+    };
+    setSettings(current => ({...current, [teamId]: teamSettings}));
+    await notificationService.setSettingsFor(teamId, teamSettings);
+  };
+
+  const textColor = isDark ? theme.colors.text.dark : theme.colors.text.light;
+  const dimColor = isDark ? theme.colors.text.dimDark : theme.colors.gray[500];
+  const borderColor = isDark
+    ? theme.colors.border.dark
+    : theme.colors.border.light;
+
+  return (
+    <View>
+      {/* Past alerts */}
+      <TouchableOpacity
+        style={[styles.row, {borderBottomColor: borderColor}]}
+        onPress={() => navigation.navigate('Notifications')}
+        activeOpacity={0.7}>
+        <View style={styles.info}>
+          <Text style={[styles.name, {color: textColor}]}>
+            Notification center
+          </Text>
+          <Text style={[styles.detail, {color: dimColor}]}>
+            {unread > 0 ? `${unread} unread` : 'Past match alerts'}
+          </Text>
+        </View>
+        <Icon name="chevron-right" size={18} color={dimColor} />
+      </TouchableOpacity>
+
+      {teamIds.length === 0 ? (
+        <Text style={[styles.emptyText, {color: dimColor}]}>
+          Follow teams to get alerts {START_REMINDER_MINUTES} minutes before
+          their matches and when they finish.
+        </Text>
+      ) : (
+        teamIds.map((teamId, index) => {
+          const teamSettings = {...DEFAULT_TEAM_SETTINGS, ...settings[teamId]};
+          return (
+            <View
+              key={teamId}
+              style={[
+                styles.row,
+                {borderBottomColor: borderColor},
+                index === teamIds.length - 1 && styles.lastRow,
+              ]}>
+              <Text
+                style={[styles.info, styles.name, {color: textColor}]}
+                numberOfLines={1}>
+                {teams[teamId]?.name ?? 'Loading...'}
+              </Text>
+              {(Object.keys(EVENT_LABELS) as NotificationEvent[]).map(event => (
+                <View key={event} style={styles.toggle}>
+                  <Text style={[styles.toggleLabel, {color: dimColor}]}>
+                    {EVENT_LABELS[event]}
+                  </Text>
+                  <Switch
+                    value={teamSettings[event]}
+                    onValueChange={enabled =>
+                      handleToggle(teamId, event, enabled)
+                    }
+                    trackColor={{
+                      false: theme.colors.gray[400],
+                      true: theme.colors.primary[500],
+                    }}
+                  />
+                </View>
+              ))}
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing[3],
+    borderBottomWidth: 1,
+  },
+  lastRow: {
+    borderBottomWidth: 0,
+    paddingBottom: 0,
+  },
+  info: {
+    flex: 1,
+    marginRight: theme.spacing[2],
+  },
+  name: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+  detail: {
+    fontSize: theme.typography.fontSize.xs,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.xs,
+    paddingTop: theme.spacing[3],
+  },
+  toggle: {
+    alignItems: 'center',
+    marginLeft: theme.spacing[2],
+  },
+  toggleLabel: {
+    fontSize: theme.typography.fontSize.xs,
+    marginBottom: 2,
+  },
+});
+
+export default NotificationSettings;
@@ -0,0 +1,96 @@
+// src/components/OfflineBanner.tsx
+import React, {useEffect, useState} from 'react';
+import {View, Text, StyleSheet} from 'react-native';
+import Icon from 'react-native-vector-icons/Feather';
+import theme from '../theme';
+import {useOfflineStatus} from '../hooks/useOfflineStatus';
+
+interface OfflineBannerProps {
+  isDark: boolean;
+}
+
+// Compact age of cached data (e.g. "3h ago")
+const formatAge = (timestamp: number, now: number): string => {
+  const diffMinutes = Math.floor((now - timestamp) / (1000 * 60));
+  if (diffMinutes < 1) {
+    return 'just now';
+  }
+  if (diffMinutes < 60) {
+    return `${diffMinutes}m ago`;
+  }
+  const diffHours = Math.floor(diffMinutes / 60);
+  if (diffHours < 24) {
+    return `${diffHours}h ago`;
+  }
+  return `${Math.floor(diffHours / 24)}d ago`;
+};
+
+// Non-blocking notice shown over the app while there's no connection
+const OfflineBanner: React.FC<OfflineBannerProps> = ({isDark}) => {
+  const {offline, oldestDataTimestamp} = useOfflineStatus();
+  const [now, setNow] = useState(Date.now());
+
+  // Keep the age current while the banner is up
+  useEffect(() => {
+    if (!offline) {
+      return;
+    }
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, [offline]);
+
+  if (!offline) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      <View
+        style={[
+          styles.banner,
+          {
+            backgroundColor: isDark
+              ? theme.colors.gray[800]
+              : theme.colors.gray[900],
+          },
+        ]}>
+        <Icon name="wifi-off" size={16} color={theme.colors.warning} />
+        <Text style={styles.text} numberOfLines={1}>
+          {oldestDataTimestamp !== null
+            ? `Offline · Showing results from ${formatAge(
+                oldestDataTimestamp,
+                now,
+              )}`
+            : 'Offline · Showing saved results'}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: theme.spacing[4],
+    right: theme.spacing[4],
+    bottom: 100, // Clear of the tab bar
+    alignItems: 'center',
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing[4],
+    paddingVertical: theme.spacing[2],
+    borderRadius: theme.borderRadius.full,
+    ...theme.shadows.md,
+  },
+  text: {
+    color: theme.colors.white,
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: '500',
+    marginLeft: theme.spacing[2],
+  },
+});
+
+export default OfflineBanner;
@@ -6,6 +6,7 @@ import {
   StyleSheet,
   Dimensions,
   TouchableWithoutFeedback,
+  TouchableOpacity,
   Animated,
 } from 'react-native';
 import Svg, {
@@ -18,24 +19,35 @@ import Svg, {
   Text as SvgText,
   Line,
 } from 'react-native-svg';
-import {format} from 'date-fns';
+import {format, parseISO} from 'date-fns';
 import Icon from 'react-native-vector-icons/Feather';
+import {buildRankingOverlay, RankingSeries} from '../utils/rankingHistory';
+import {getSeasonOf} from '../utils/season';
 
 const {width: screenWidth} = Dimensions.get('window');
 
+// The chart's own history plus up to three comparisons
+export const MAX_RANKING_SERIES = 4;
+
+// Comparison lines; the chart's own line uses the primary color
+const COMPARISON_COLORS = ['#F59E0B', '#8B5CF6', '#EC4899'];
+
 interface RankingHistoryProps {
   rankingHistory: any[];
   isDark: boolean;
   theme: any;
   selectedSeason: string;
+  // Legend name for rankingHistory when comparisons are shown
+  primaryLabel?: string;
+  comparisons?: RankingSeries[];
+  onAddComparison?: () => void;
+  onRemoveComparison?: (id: string) => void;
 }
 
 interface TooltipData {
   visible: boolean;
   x: number;
   y: number;
-  rank: number;
-  date: string;
   index: number;
 }
 
@@ -44,13 +56,15 @@ const RankingHistoryChart: React.FC<RankingHistoryProps> = ({
   isDark,
   theme,
   selectedSeason,
+  primaryLabel = 'Current',
+  comparisons = [],
+  onAddComparison,
+  onRemoveComparison,
 }) => {
   const [tooltip, setTooltip] = useState<TooltipData>({
     visible: false,
     x: 0,
     y: 0,
-    rank: 0,
-    date: '',
     index: -1,
   });
 
@@ -58,15 +72,36 @@ const RankingHistoryChart: React.FC<RankingHistoryProps> = ({
     return null;
   }
 
+  // Every series on one date axis; a series has no point on dates it
+  // wasn't ranked
+  const series = [
+    {id: 'primary', label: primaryLabel, rankingHistory},
+    ...comparisons,
+  ].slice(0, MAX_RANKING_SERIES);
+  const seriesColors = [theme.colors.primary[500], ...COMPARISON_COLORS];
+  const overlay = buildRankingOverlay(series);
+  const comparing = series.length > 1;
+
+  // Comparisons can carry the chart across a season boundary
+  const firstSeason = parseInt(getSeasonOf(overlay.dates[0]), 10);
+  const lastSeason = parseInt(
+    getSeasonOf(overlay.dates[overlay.dates.length - 1]),
+    10,
+  );
+  const footerText =
+    lastSeason > firstSeason
+      ? `${firstSeason}-${lastSeason + 1} rankings`
+      : `${selectedSeason}-${parseInt(selectedSeason) + 1} season rankings`;
+
   // Prepare data for the chart
-  const chartData = rankingHistory
-    .map(ranking => ({
-      date: ranking.publish_date,
-      rank: ranking.rank,
-      formattedDate: format(new Date(ranking.publish_date), 'MMM d'),
-      fullDate: format(new Date(ranking.publish_date), 'MMM d, yyyy'),
-    }))
-    .reverse(); // Reverse to show chronological order
+  const chartData = overlay.dates.map(date => ({
+    date,
+    formattedDate: format(parseISO(date), 'MMM d'),
+    fullDate: format(parseISO(date), 'MMM d, yyyy'),
+  }));
+  const allRanks = overlay.ranks
+    .flat()
+    .filter((rank): rank is number => rank !== null);
 
   const currentRank = rankingHistory[0]?.rank;
   const highestRank = Math.min(...rankingHistory.map(r => r.rank));
@@ -84,8 +119,8 @@ const RankingHistoryChart: React.FC<RankingHistoryProps> = ({
   // Calculate chart scales
   const xScale =
     (chartWidth - leftPadding - padding) / Math.max(chartData.length - 1, 1);
-  const minRank = Math.min(...chartData.map(d => d.rank));
-  const maxRank = Math.max(...chartData.map(d => d.rank));
+  const minRank = Math.min(...allRanks);
+  const maxRank = Math.max(...allRanks);
   const rankRange = Math.max(maxRank - minRank + 4, 0); // Add some padding, minimum range of 8
   const yScale = (chartHeight - padding * 2) / rankRange;
 
@@ -106,70 +141,68 @@ const RankingHistoryChart: React.FC<RankingHistoryProps> = ({
 
   const yTicks = generateYTicks();
 
-  // Generate path data for the line
-  const generatePath = () => {
-    let path = '';
-    chartData.forEach((point, index) => {
-      const x = leftPadding + index * xScale;
-      const y = padding + (point.rank - minRank + 2) * yScale;
+  const xFor = (index: number) => leftPadding + index * xScale;
+  const yFor = (rank: number) => padding + (rank - minRank + 2) * yScale;
 
-      if (index === 0) {
-        path += `M${x},${y}`;
-      } else {
-        path += ` L${x},${y}`;
+  // Generate path data for one series' line, broken where it wasn't ranked
+  const generatePath = (ranks: (number | null)[]) => {
+    let path = '';
+    let drawing = false;
+    ranks.forEach((rank, index) => {
+      if (rank === null) {
+        drawing = false;
+        return;
       }
+      path += `${drawing ? ' L' : ' M'}${xFor(index)},${yFor(rank)}`;
+      drawing = true;
     });
-    return path;
+    return path.trim();
   };
 
+  // The chart's own history, oldest first
+  const primaryData = overlay.ranks[0]
+    .map((rank, index) => ({rank, index}))
+    .filter(
+      (point): point is {rank: number; index: number} => point.rank !== null,
+    );
+
   // Generate gradient fill path (restore the original area fill)
   const generateFillPath = () => {
-    if (chartData.length === 0) return '';
+    if (primaryData.length === 0) return '';
 
     let pathCommands = [];
 
-    // Start from bottom-left
-    pathCommands.push(`M${leftPadding},${chartHeight - padding}`);
-
     // Go to first point
-    const firstX = leftPadding;
-    const firstY = padding + (chartData[0].rank - minRank + 2) * yScale;
-    pathCommands.push(`L${firstX},${firstY}`);
+    const firstX = xFor(primaryData[0].index);
+    pathCommands.push(`M${firstX},${chartHeight - padding}`);
+    pathCommands.push(`L${firstX},${yFor(primaryData[0].rank)}`);
 
     // Draw the line through all points
-    chartData.forEach((point, index) => {
-      const x = leftPadding + index * xScale;
-      const y = padding + (point.rank - minRank + 2) * yScale;
-      pathCommands.push(`L${x},${y}`);
+    primaryData.forEach(point => {
+      pathCommands.push(`L${xFor(point.index)},${yFor(point.rank)}`);
     });
 
     // Close to bottom-right and back to start
-    const lastX = leftPadding + (chartData.length - 1) * xScale;
+    const lastX = xFor(primaryData[primaryData.length - 1].index);
     pathCommands.push(`L${lastX},${chartHeight - padding}`);
     pathCommands.push('Z');
 
     return pathCommands.join(' ');
   };
 
-  const linePath = generatePath();
   const fillPath = generateFillPath();
 
-  // Handle touch on chart area
+  // Handle touch on chart area: one tooltip for every series on the
+  // closest date
   const handleChartTouch = (event: any) => {
-    const {locationX, locationY} = event.nativeEvent;
+    const {locationX} = event.nativeEvent;
 
-    // Find the closest data point
+    // Find the closest date
     let closestIndex = -1;
     let closestDistance = Infinity;
 
     chartData.forEach((point, index) => {
-      const pointX = leftPadding + index * xScale;
-      const pointY = padding + (point.rank - minRank + 2) * yScale;
-
-      const distance = Math.sqrt(
-        Math.pow(locationX - pointX, 2) + Math.pow(locationY - pointY, 2),
-      );
-
+      const distance = Math.abs(locationX - xFor(index));
       if (distance < closestDistance && distance < 30) {
         // 30px touch radius
         closestDistance = distance;
@@ -178,16 +211,14 @@ const RankingHistoryChart: React.FC<RankingHistoryProps> = ({
     });
 
     if (closestIndex !== -1) {
-      const point = chartData[closestIndex];
-      const x = leftPadding + closestIndex * xScale;
-      const y = padding + (point.rank - minRank + 2) * yScale;
+      const ranks = overlay.ranks
+        .map(seriesRanks => seriesRanks[closestIndex])
+        .filter((rank): rank is number => rank !== null);
 
       setTooltip({
         visible: true,
-        x: x,
-        y: y,
-        rank: point.rank,
-        date: point.fullDate,
+        x: xFor(closestIndex),
+        y: yFor(Math.min(...ranks)),
         index: closestIndex,
       });
     } else {
@@ -339,39 +370,81 @@ const RankingHistoryChart: React.FC<RankingHistoryProps> = ({
                 );
               })}
 
-              {/* Fill area */}
-              <Path d={fillPath} fill="url(#rankingGradient)" />
-
-              {/* Main line */}
-              <Path
-                d={linePath}
-                stroke={theme.colors.primary[500]}
-                strokeWidth="3"
-                fill="none"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-
-              {/* Data points */}
-              {chartData.map((point, index) => {
-                const x = leftPadding + index * xScale;
-                const y = padding + (point.rank - minRank + 2) * yScale;
-                const isActive = tooltip.visible && tooltip.index === index;
-
+              {/* Season boundaries, between the last list of one season
+                  and the first of the next */}
+              {overlay.seasonStarts.map(index => {
+                const x = xFor(index) - xScale / 2;
+                const season = getSeasonOf(overlay.dates[index]);
                 return (
-                  <Circle
-                    key={index}
-                    cx={x}
-                    cy={y}
-                    r={isActive ? '5' : '4'}
-                    fill={theme.colors.primary[500]}
-                    stroke={
-                      isDark ? theme.colors.card.dark : theme.colors.white
-                    }
-                    strokeWidth="2"
-                  />
+                  <React.Fragment key={`season-${index}`}>
+                    <Line
+                      x1={x}
+                      y1={padding / 2}
+                      x2={x}
+                      y2={chartHeight - padding}
+                      stroke={
+                        isDark ? theme.colors.gray[500] : theme.colors.gray[400]
+                      }
+                      strokeWidth="1"
+                      strokeDasharray="4,3"
+                    />
+                    <SvgText
+                      x={x + 4}
+                      y={padding / 2 + 8}
+                      fontSize="10"
+                      fill={
+                        isDark
+                          ? theme.colors.text.dimDark
+                          : theme.colors.gray[500]
+                      }>
+                      {`${season}-${String(parseInt(season, 10) + 1).slice(2)}`}
+                    </SvgText>
+                  </React.Fragment>
                 );
               })}
+
+              {/* Fill area, only when the chart shows one line */}
+              {!comparing && <Path d={fillPath} fill="url(#rankingGradient)" />}
+
+              {/* Series lines, comparisons under the chart's own line */}
+              {overlay.ranks
+                .map((ranks, seriesIndex) => ({ranks, seriesIndex}))
+                .reverse()
+                .map(({ranks, seriesIndex}) => (
+                  <Path
+                    key={series[seriesIndex].id}
+                    d={generatePath(ranks)}
+                    stroke={seriesColors[seriesIndex]}
+                    strokeWidth={seriesIndex === 0 ? '3' : '2'}
+                    fill="none"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                ))}
+
+              {/* Data points */}
+              {overlay.ranks.map((ranks, seriesIndex) =>
+                ranks.map((rank, index) => {
+                  if (rank === null) {
+                    return null;
+                  }
+                  const isActive = tooltip.visible && tooltip.index === index;
+
+                  return (
+                    <Circle
+                      key={`${series[seriesIndex].id}-${index}`}
+                      cx={xFor(index)}
+                      cy={yFor(rank)}
+                      r={isActive ? '5' : seriesIndex === 0 ? '4' : '3'}
+                      fill={seriesColors[seriesIndex]}
+                      stroke={
+                        isDark ? theme.colors.card.dark : theme.colors.white
+                      }
+                      strokeWidth="2"
+                    />
+                  );
+                }),
+              )}
             </Svg>
           </View>
         </TouchableWithoutFeedback>
@@ -393,17 +466,55 @@ const RankingHistoryChart: React.FC<RankingHistoryProps> = ({
                   : theme.colors.border.light,
               },
             ]}>
-            <Text
-              style={[
-                styles.tooltipRank,
-                {
-                  color: isDark
-                    ? theme.colors.text.dark
-                    : theme.colors.text.light,
-                },
-              ]}>
-              #{tooltip.rank}
-            </Text>
+            {comparing ? (
+              series.map((entry, seriesIndex) => (
+                <View key={entry.id} style={styles.tooltipRow}>
+                  <View
+                    style={[
+                      styles.legendDot,
+                      {backgroundColor: seriesColors[seriesIndex]},
+                    ]}
+                  />
+                  <Text
+                    style={[
+                      styles.tooltipLabel,
+                      {
+                        color: isDark
+                          ? theme.colors.text.dark
+                          : theme.colors.text.light,
+                      },
+                    ]}
+                    numberOfLines={1}>
+                    {entry.label}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.tooltipSeriesRank,
+                      {
+                        color: isDark
+                          ? theme.colors.text.dark
+                          : theme.colors.text.light,
+                      },
+                    ]}>
+                    {overlay.ranks[seriesIndex][tooltip.index] !== null
+                      ? `#${overlay.ranks[seriesIndex][tooltip.index]}`
+                      : '–'}
+                  </Text>
+                </View>
+              ))
+            ) : (
+              <Text
+                style={[
+                  styles.tooltipRank,
+                  {
+                    color: isDark
+                      ? theme.colors.text.dark
+                      : theme.colors.text.light,
+                  },
+                ]}>
+                #{overlay.ranks[0][tooltip.index]}
+              </Text>
+            )}
             <Text
               style={[
                 styles.tooltipDate,
@@ -413,7 +524,7 @@ const RankingHistoryChart: React.FC<RankingHistoryProps> = ({
                     : theme.colors.gray[600],
                 },
               ]}>
-              {tooltip.date}
+              {chartData[tooltip.index]?.fullDate}
             </Text>
           </View>
         )}
@@ -422,10 +533,10 @@ const RankingHistoryChart: React.FC<RankingHistoryProps> = ({
       {/* Date labels (vertical) */}
       <View style={styles.dateLabelsContainer}>
         {chartData.map((point, index) => {
-          const x = leftPadding + index * xScale;
+          const x = xFor(index);
           return (
             <Text
-              key={index}
+              key={point.date}
               style={[
                 styles.dateLabelText,
                 {
@@ -444,6 +555,74 @@ const RankingHistoryChart: React.FC<RankingHistoryProps> = ({
         })}
       </View>
 
+      {/* Legend, with room to add and remove comparisons */}
+      {(comparing || onAddComparison) && (
+        <View style={styles.legend}>
+          {comparing &&
+            series.map((entry, seriesIndex) => (
+              <View
+                key={entry.id}
+                style={[
+                  styles.legendItem,
+                  {
+                    borderColor: isDark
+                      ? theme.colors.border.dark
+                      : theme.colors.border.light,
+                  },
+                ]}>
+                <View
+                  style={[
+                    styles.legendDot,
+                    {backgroundColor: seriesColors[seriesIndex]},
+                  ]}
+                />
+                <Text
+                  style={[
+                    styles.legendText,
+                    {
+                      color: isDark
+                        ? theme.colors.text.dark
+                        : theme.colors.text.light,
+                    },
+                  ]}
+                  numberOfLines={1}>
+                  {entry.label}
+                </Text>
+                {seriesIndex > 0 && onRemoveComparison && (
+                  <TouchableOpacity
+                    onPress={() => onRemoveComparison(entry.id)}
+                    hitSlop={{top: 8, bottom: 8, left: 8, right: 8}}>
+                    <Icon
+                      name="x"
+                      size={12}
+                      color={
+                        isDark
+                          ? theme.colors.text.dimDark
+                          : theme.colors.gray[500]
+                      }
+                    />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+          {onAddComparison && series.length < MAX_RANKING_SERIES && (
+            <TouchableOpacity
+              style={[
+                styles.legendItem,
+                styles.addComparison,
+                {borderColor: theme.colors.primary[500]},
+              ]}
+              onPress={onAddComparison}>
+              <Icon name="plus" size={12} color={theme.colors.primary[500]} />
+              <Text
+                style={[styles.legendText, {color: theme.colors.primary[500]}]}>
+                Add comparison
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       <View style={styles.footer}>
         <Text
           style={[
@@ -454,7 +633,7 @@ const RankingHistoryChart: React.FC<RankingHistoryProps> = ({
                 : theme.colors.gray[500],
             },
           ]}>
-          {selectedSeason}-{parseInt(selectedSeason) + 1} season rankings
+          {footerText}
         </Text>
       </View>
     </View>
@@ -551,6 +730,22 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     textAlign: 'center',
   },
+  tooltipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  tooltipLabel: {
+    fontSize: 11,
+    maxWidth: 110,
+    marginLeft: 4,
+    flexShrink: 1,
+  },
+  tooltipSeriesRank: {
+    fontSize: 12,
+    fontWeight: '700',
+    marginLeft: 8,
+  },
   tooltipDate: {
     fontSize: 11,
     textAlign: 'center',
@@ -566,6 +761,34 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     width: 35,
   },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 20,
+    gap: 6,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    maxWidth: '100%',
+  },
+  addComparison: {
+    borderStyle: 'dashed',
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendText: {
+    fontSize: 11,
+    marginHorizontal: 4,
+    flexShrink: 1,
+  },
   footer: {
     marginTop: 20,
     alignItems: 'center',
@@ -0,0 +1,237 @@
+// src/components/RankingMovement.tsx
+// Movement since the previous ranking list: a badge for each row, the
+// biggest movers above the list and the entries that fell out below it
+import React from 'react';
+import {View, Text, StyleSheet} from 'react-native';
+import Icon from 'react-native-vector-icons/Feather';
+import theme from '../theme';
+import type {
+  Movement,
+  Mover,
+  RankedEntry,
+  RankingComparison,
+} from '../utils/rankingMovement';
+
+export const MovementBadge: React.FC<{
+  movement?: Movement;
+  isDark: boolean;
+}> = ({movement, isDark}) => {
+  if (!movement) {
+    return null;
+  }
+  if (movement.kind === 'new') {
+    return (
+      <View style={styles.newBadge}>
+        <Text style={styles.newText}>NEW</Text>
+      </View>
+    );
+  }
+  if (movement.kind === 'same') {
+    return (
+      <Text
+        style={[
+          styles.deltaText,
+          {color: isDark ? theme.colors.text.dimDark : theme.colors.gray[400]},
+        ]}>
+        –
+      </Text>
+    );
+  }
+
+  const color =
+    movement.kind === 'up' ? theme.colors.success : theme.colors.error;
+  return (
+    <View style={styles.delta}>
+      <Icon
+        name={movement.kind === 'up' ? 'arrow-up' : 'arrow-down'}
+        size={10}
+        color={color}
+      />
+      <Text style={[styles.deltaText, {color}]}>
+        {Math.abs(movement.delta)}
+      </Text>
+    </View>
+  );
+};
+
+const MoverColumn: React.FC<{
+  title: string;
+  movers: Mover[];
+  isDark: boolean;
+}> = ({title, movers, isDark}) => (
+  <View style={styles.moverColumn}>
+    <Text
+      style={[
+        styles.summaryTitle,
+        {color: isDark ? theme.colors.text.dimDark : theme.colors.gray[600]},
+      ]}>
+      {title}
+    </Text>
+    {movers.map(mover => (
+      <View key={mover.key} style={styles.moverRow}>
+        <MovementBadge
+          movement={{kind: mover.delta > 0 ? 'up' : 'down', delta: mover.delta}}
+          isDark={isDark}
+        />
+        <Text
+          style={[
+            styles.moverName,
+            {color: isDark ? theme.colors.text.dark : theme.colors.text.light},
+          ]}
+          numberOfLines={1}>
+          {mover.name}
+        </Text>
+        <Text
+          style={[
+            styles.moverRank,
+            {
+              color: isDark
+                ? theme.colors.text.dimDark
+                : theme.colors.gray[500],
+            },
+          ]}>
+          #{mover.rank}
+        </Text>
+      </View>
+    ))}
+  </View>
+);
+
+export const BiggestMovers: React.FC<{
+  comparison: RankingComparison | null;
+  isDark: boolean;
+}> = ({comparison, isDark}) => {
+  if (
+    !comparison ||
+    (comparison.risers.length === 0 && comparison.fallers.length === 0)
+  ) {
+    return null;
+  }
+
+  return (
+    <View
+      style={[
+        styles.summaryCard,
+        {
+          backgroundColor: isDark
+            ? theme.colors.card.dark
+            : theme.colors.card.light,
+          borderColor: isDark
+            ? theme.colors.border.dark
+            : theme.colors.border.light,
+        },
+      ]}>
+      {comparison.risers.length > 0 && (
+        <MoverColumn
+          title="Biggest risers"
+          movers={comparison.risers}
+          isDark={isDark}
+        />
+      )}
+      {comparison.fallers.length > 0 && (
+        <MoverColumn
+          title="Biggest fallers"
+          movers={comparison.fallers}
+          isDark={isDark}
+        />
+      )}
+    </View>
+  );
+};
+
+export const DroppedOut: React.FC<{
+  entries: RankedEntry[];
+  isDark: boolean;
+}> = ({entries, isDark}) => {
+  if (entries.length === 0) {
+    return null;
+  }
+  const dimColor = isDark ? theme.colors.text.dimDark : theme.colors.gray[500];
+
+  return (
+    <View style={styles.droppedOut}>
+      <Text style={[styles.summaryTitle, {color: dimColor}]}>Dropped out</Text>
+      {entries.map(entry => (
+        <View key={entry.key} style={styles.droppedRow}>
+          <Icon name="chevrons-down" size={12} color={theme.colors.error} />
+          <Text
+            style={[
+              styles.moverName,
+              {
+                color: isDark
+                  ? theme.colors.text.dark
+                  : theme.colors.text.light,
+              },
+            ]}
+            numberOfLines={1}>
+            {entry.name}
+          </Text>
+          <Text style={[styles.moverRank, {color: dimColor}]}>
+            was #{entry.rank}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  delta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  deltaText: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: '600',
+    marginLeft: 1,
+  },
+  newBadge: {
+    paddingHorizontal: theme.spacing[1],
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: theme.colors.primary[500],
+  },
+  newText: {
+    fontSize: 9,
+    fontWeight: '700',
+    color: theme.colors.white,
+  },
+  summaryCard: {
+    flexDirection: 'row',
+    margin: theme.spacing[2],
+    padding: theme.spacing[3],
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+  },
+  moverColumn: {
+    flex: 1,
+    marginHorizontal: theme.spacing[1],
+  },
+  summaryTitle: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: theme.spacing[1],
+  },
+  moverRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 2,
+  },
+  moverName: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.sm,
+    marginLeft: theme.spacing[1],
+  },
+  moverRank: {
+    fontSize: theme.typography.fontSize.xs,
+    marginLeft: theme.spacing[1],
+  },
+  droppedOut: {
+    padding: theme.spacing[4],
+  },
+  droppedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing[1],
+  },
+});
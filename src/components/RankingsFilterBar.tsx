@@ -0,0 +1,194 @@
+// src/components/RankingsFilterBar.tsx
+// Search box and conference chips above a rankings list
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Feather';
+import theme from '../theme';
+import {conferenceLabel} from '../utils/rankingFilters';
+
+interface RankingsFilterBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  placeholder: string;
+  conferences: string[];
+  selectedConference: string | null;
+  onConferenceChange: (conference: string | null) => void;
+  // Entries left after filtering, out of the whole list
+  shown: number;
+  total: number;
+  isDark: boolean;
+}
+
+const RankingsFilterBar: React.FC<RankingsFilterBarProps> = ({
+  query,
+  onQueryChange,
+  placeholder,
+  conferences,
+  selectedConference,
+  onConferenceChange,
+  shown,
+  total,
+  isDark,
+}) => {
+  const dimColor = isDark ? theme.colors.text.dimDark : theme.colors.gray[500];
+
+  const renderChip = (label: string, value: string | null) => {
+    const selected = selectedConference === value;
+    return (
+      <TouchableOpacity
+        key={value ?? 'all'}
+        style={[
+          styles.chip,
+          {
+            backgroundColor: selected
+              ? theme.colors.primary[500]
+              : isDark
+              ? theme.colors.background.dark
+              : theme.colors.gray[100],
+            borderColor: selected
+              ? theme.colors.primary[500]
+              : isDark
+              ? theme.colors.border.dark
+              : theme.colors.border.light,
+          },
+        ]}
+        onPress={() => onConferenceChange(value)}>
+        <Text
+          style={[
+            styles.chipText,
+            {
+              color: selected
+                ? theme.colors.white
+                : isDark
+                ? theme.colors.text.dark
+                : theme.colors.gray[700],
+            },
+          ]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: isDark
+            ? theme.colors.card.dark
+            : theme.colors.card.light,
+          borderBottomColor: isDark
+            ? theme.colors.border.dark
+            : theme.colors.border.light,
+        },
+      ]}>
+      <View
+        style={[
+          styles.searchBar,
+          {
+            backgroundColor: isDark
+              ? theme.colors.background.dark
+              : theme.colors.gray[100],
+            borderColor: isDark
+              ? theme.colors.border.dark
+              : theme.colors.border.light,
+          },
+        ]}>
+        <Icon
+          name="search"
+          size={16}
+          color={dimColor}
+          style={styles.searchIcon}
+        />
+        <TextInput
+          style={[
+            styles.searchInput,
+            {color: isDark ? theme.colors.text.dark : theme.colors.text.light},
+          ]}
+          placeholder={placeholder}
+          placeholderTextColor={dimColor}
+          value={query}
+          onChangeText={onQueryChange}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {query ? (
+          <TouchableOpacity onPress={() => onQueryChange('')}>
+            <Icon name="x" size={16} color={dimColor} />
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      {conferences.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={styles.chips}>
+          {renderChip('All', null)}
+          {conferences.map(conference =>
+            renderChip(conferenceLabel(conference), conference),
+          )}
+        </ScrollView>
+      )}
+
+      {shown < total && (
+        <Text style={[styles.summaryText, {color: dimColor}]}>
+          Showing {shown} of {total} · rank among them in brackets
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: theme.spacing[4],
+    paddingVertical: theme.spacing[2],
+    borderBottomWidth: 1,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    paddingHorizontal: theme.spacing[3],
+  },
+  searchIcon: {
+    marginRight: theme.spacing[2],
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.sm,
+    height: 36,
+  },
+  chips: {
+    paddingTop: theme.spacing[2],
+  },
+  chip: {
+    paddingHorizontal: theme.spacing[3],
+    paddingVertical: theme.spacing[1],
+    marginRight: theme.spacing[2],
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: '600',
+  },
+  summaryText: {
+    fontSize: theme.typography.fontSize.xs,
+    marginTop: theme.spacing[2],
+  },
+});
+
+export default RankingsFilterBar;
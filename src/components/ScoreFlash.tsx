@@ -0,0 +1,42 @@
+// src/components/ScoreFlash.tsx
+import React, {useEffect, useRef} from 'react';
+import {Animated, StyleProp, ViewStyle} from 'react-native';
+import theme from '../theme';
+
+interface ScoreFlashProps {
+  // Flashes whenever this changes, not on the first render
+  value: string;
+  style?: StyleProp<ViewStyle>;
+  children: React.ReactNode;
+}
+
+const FLASH_DURATION = 1200;
+
+const ScoreFlash: React.FC<ScoreFlashProps> = ({value, style, children}) => {
+  const flash = useRef(new Animated.Value(0)).current;
+  const previousValue = useRef(value);
+
+  useEffect(() => {
+    if (previousValue.current === value) {
+      return;
+    }
+    previousValue.current = value;
+    flash.setValue(1);
+    Animated.timing(flash, {
+      toValue: 0,
+      duration: FLASH_DURATION,
+      useNativeDriver: false,
+    }).start();
+  }, [value, flash]);
+
+  const backgroundColor = flash.interpolate({
+    inputRange: [0, 1],
+    outputRange: ['transparent', `${theme.colors.primary[500]}33`],
+  });
+
+  return (
+    <Animated.View style={[style, {backgroundColor}]}>{children}</Animated.View>
+  );
+};
+
+export default ScoreFlash;
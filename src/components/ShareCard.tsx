@@ -0,0 +1,138 @@
+// src/components/ShareCard.tsx
+// A summary drawn as a card, sized to be captured and shared as an image
+import React from 'react';
+import {View, Text, StyleSheet} from 'react-native';
+import theme from '../theme';
+import TeamLogo from './TeamLogo';
+import type {ShareSummary} from '../utils/shareSummaries';
+
+interface ShareCardProps {
+  summary: ShareSummary;
+  isDark: boolean;
+}
+
+const ShareCard: React.FC<ShareCardProps> = ({summary, isDark}) => {
+  const textColor = isDark ? theme.colors.text.dark : theme.colors.text.light;
+  const dimColor = isDark ? theme.colors.text.dimDark : theme.colors.gray[500];
+  const hasLogos = !!(summary.homeTeamId || summary.awayTeamId);
+
+  return (
+    <View
+      style={[
+        styles.card,
+        {
+          backgroundColor: isDark
+            ? theme.colors.card.dark
+            : theme.colors.card.light,
+        },
+      ]}>
+      <View style={styles.header}>
+        {hasLogos && <TeamLogo teamId={summary.homeTeamId} size="medium" />}
+        <View style={styles.titleContainer}>
+          <Text style={[styles.title, {color: textColor}]}>
+            {summary.title}
+          </Text>
+          {summary.subtitle ? (
+            <Text style={[styles.subtitle, {color: dimColor}]}>
+              {summary.subtitle}
+            </Text>
+          ) : null}
+        </View>
+        {summary.awayTeamId && (
+          <TeamLogo teamId={summary.awayTeamId} size="medium" />
+        )}
+      </View>
+
+      {summary.sections.map(section => (
+        <View
+          key={section.title}
+          style={[
+            styles.section,
+            {
+              borderTopColor: isDark
+                ? theme.colors.border.dark
+                : theme.colors.border.light,
+            },
+          ]}>
+          <Text style={[styles.sectionTitle, {color: dimColor}]}>
+            {section.title.toUpperCase()}
+          </Text>
+          {/* Lines can repeat, e.g. two "TBD vs TBD" pairings */}
+          {section.lines.map((line, index) => (
+            <Text key={index} style={[styles.line, {color: textColor}]}>
+              {line}
+            </Text>
+          ))}
+        </View>
+      ))}
+
+      <View style={styles.footer}>
+        <Text style={styles.brand}>TennisU</Text>
+        <Text style={[styles.url, {color: dimColor}]} numberOfLines={1}>
+          {summary.url}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    width: 340,
+    padding: theme.spacing[4],
+    borderRadius: theme.borderRadius.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing[3],
+  },
+  titleContainer: {
+    flex: 1,
+    marginHorizontal: theme.spacing[3],
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.xs,
+    marginTop: theme.spacing[1],
+    textAlign: 'center',
+  },
+  section: {
+    borderTopWidth: 1,
+    paddingTop: theme.spacing[2],
+    marginTop: theme.spacing[2],
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: '600',
+    marginBottom: theme.spacing[1],
+  },
+  line: {
+    fontSize: theme.typography.fontSize.sm,
+    marginBottom: theme.spacing[1],
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: theme.spacing[3],
+  },
+  brand: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: 'bold',
+    color: theme.colors.primary[500],
+  },
+  url: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.xs,
+    textAlign: 'right',
+    marginLeft: theme.spacing[2],
+  },
+});
+
+export default ShareCard;
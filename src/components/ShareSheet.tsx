@@ -0,0 +1,202 @@
+// src/components/ShareSheet.tsx
+// Previews a summary card and shares it as text or as an image
+import React, {useRef, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Share,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Feather';
+import RNShare from 'react-native-share';
+import {captureRef} from 'react-native-view-shot';
+import theme from '../theme';
+import ShareCard from './ShareCard';
+import {ShareSummary, summaryToText} from '../utils/shareSummaries';
+
+interface ShareSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  summary: ShareSummary | null;
+  isDark: boolean;
+}
+
+const ShareSheet: React.FC<ShareSheetProps> = ({
+  visible,
+  onClose,
+  summary,
+  isDark,
+}) => {
+  const cardRef = useRef<View>(null);
+  const [capturing, setCapturing] = useState(false);
+
+  const textColor = isDark ? theme.colors.text.dark : theme.colors.text.light;
+  const borderColor = isDark
+    ? theme.colors.border.dark
+    : theme.colors.border.light;
+
+  const shareText = async () => {
+    if (!summary) {
+      return;
+    }
+    try {
+      await Share.share({message: summaryToText(summary)});
+      onClose();
+    } catch (error) {
+      console.error('Error sharing summary:', error);
+    }
+  };
+
+  const shareImage = async () => {
+    if (!summary || !cardRef.current) {
+      return;
+    }
+    setCapturing(true);
+    try {
+      const url = await captureRef(cardRef, {
+        format: 'png',
+        quality: 1,
+        result: 'tmpfile',
+      });
+      await RNShare.open({
+        url: url.startsWith('file://') ? url : `file://${url}`,
+        type: 'image/png',
+        message: summary.url,
+        failOnCancel: false,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error sharing summary image:', error);
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View
+          style={[
+            styles.modalContent,
+            {
+              backgroundColor: isDark
+                ? theme.colors.background.dark
+                : theme.colors.background.light,
+            },
+          ]}>
+          <View style={[styles.modalHeader, {borderBottomColor: borderColor}]}>
+            <Text style={[styles.modalTitle, {color: textColor}]}>Share</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Icon
+                name="x"
+                size={24}
+                color={
+                  isDark ? theme.colors.text.dimDark : theme.colors.gray[500]
+                }
+              />
+            </TouchableOpacity>
+          </View>
+
+          {summary && (
+            <ScrollView contentContainerStyle={styles.preview}>
+              {/* collapsable={false} keeps the view on Android so it can be captured */}
+              <View ref={cardRef} collapsable={false}>
+                <ShareCard summary={summary} isDark={isDark} />
+              </View>
+            </ScrollView>
+          )}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, {borderColor}]}
+              onPress={shareText}
+              activeOpacity={0.7}>
+              <Icon name="type" size={18} color={textColor} />
+              <Text style={[styles.actionText, {color: textColor}]}>
+                Share as text
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.primaryAction]}
+              onPress={shareImage}
+              disabled={capturing}
+              activeOpacity={0.7}>
+              {capturing ? (
+                <ActivityIndicator size="small" color={theme.colors.white} />
+              ) : (
+                <Icon name="image" size={18} color={theme.colors.white} />
+              )}
+              <Text style={[styles.actionText, {color: theme.colors.white}]}>
+                Share as image
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    paddingBottom: Platform.OS === 'ios' ? 34 : theme.spacing[4],
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: theme.spacing[4],
+    borderBottomWidth: 1,
+  },
+  modalTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: '600',
+  },
+  preview: {
+    alignItems: 'center',
+    padding: theme.spacing[4],
+  },
+  actions: {
+    flexDirection: 'row',
+    paddingHorizontal: theme.spacing[4],
+    paddingTop: theme.spacing[2],
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: theme.spacing[3],
+    marginHorizontal: theme.spacing[1],
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+  },
+  primaryAction: {
+    backgroundColor: theme.colors.primary[500],
+    borderColor: theme.colors.primary[500],
+  },
+  actionText: {
+    marginLeft: theme.spacing[2],
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+});
+
+export default ShareSheet;
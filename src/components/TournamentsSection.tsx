@@ -14,6 +14,7 @@ import {StackNavigationProp} from '@react-navigation/stack';
 import Icon from 'react-native-vector-icons/Feather';
 import {api} from '../api';
 import theme from '../theme';
+import ErrorState from './ErrorState';
 import {format} from 'date-fns';
 
 // Navigation types
@@ -31,6 +32,7 @@ type TournamentsNavigationProp = StackNavigationProp<RootStackParamList>;
 
 // Import the Tournament types from api
 import {Tournament, TournamentsResponse} from '../api';
+import type {RequestOptions} from '../api';
 
 interface TournamentsSectionProps {
   dateFrom: Date;
@@ -51,7 +53,7 @@ const TournamentsSection: React.FC<TournamentsSectionProps> = ({
   const [tournaments, setTournaments] = useState<Tournament[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(false);
   const uniqueTournaments = useMemo(() => {
@@ -66,7 +68,10 @@ const TournamentsSection: React.FC<TournamentsSectionProps> = ({
   }, [tournaments]);
 
   // Fetch tournaments from API
-  const fetchTournaments = async (isRefresh = false) => {
+  const fetchTournaments = async (
+    isRefresh = false,
+    options: RequestOptions = {},
+  ) => {
     try {
       if (isRefresh) {
         setRefreshing(true);
@@ -87,7 +92,7 @@ const TournamentsSection: React.FC<TournamentsSectionProps> = ({
       };
 
       // Use the API service to fetch tournaments
-      const data = await api.tournaments.search(params);
+      const data = await api.tournaments.search(params, options);
 
       // Filter by gender if specified (you might want to do this server-side)
       let filteredTournaments = data.tournaments;
@@ -109,7 +114,7 @@ const TournamentsSection: React.FC<TournamentsSectionProps> = ({
       setError(null);
     } catch (err) {
       console.error('Failed to fetch tournaments:', err);
-      setError('Failed to load tournaments');
+      setError(err);
     } finally {
       setLoading(false);
       setRefreshing(false);
@@ -122,7 +127,7 @@ const TournamentsSection: React.FC<TournamentsSectionProps> = ({
 
   // Handle refresh
   const onRefresh = () => {
-    fetchTournaments(true);
+    fetchTournaments(true, {cachePolicy: 'network-first'});
   };
 
   // Handle load more
@@ -460,15 +465,13 @@ const TournamentsSection: React.FC<TournamentsSectionProps> = ({
   if (error && tournaments.length === 0) {
     return (
       <View style={styles.errorContainer}>
-        <Icon name="alert-circle" size={48} color={theme.colors.error} />
-        <Text style={[styles.errorText, {color: theme.colors.error}]}>
-          {error}
-        </Text>
-        <TouchableOpacity
-          style={styles.retryButton}
-          onPress={() => fetchTournaments(true)}>
-          <Text style={styles.retryButtonText}>Retry</Text>
-        </TouchableOpacity>
+        <ErrorState
+          error={error}
+          isDark={isDark}
+          title="Couldn't load tournaments"
+          onRetry={() => fetchTournaments(true)}
+          compact
+        />
       </View>
     );
   }
@@ -558,23 +561,6 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: theme.spacing[6],
   },
-  errorText: {
-    marginTop: theme.spacing[3],
-    fontSize: theme.typography.fontSize.base,
-    textAlign: 'center',
-  },
-  retryButton: {
-    marginTop: theme.spacing[4],
-    paddingVertical: theme.spacing[2],
-    paddingHorizontal: theme.spacing[4],
-    backgroundColor: theme.colors.primary[500],
-    borderRadius: theme.borderRadius.md,
-  },
-  retryButtonText: {
-    color: 'white',
-    fontSize: theme.typography.fontSize.base,
-    fontWeight: '600',
-  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,21 @@
+// src/config/buildConfig.ts
+// Settings baked into each build. Store builds ship the values committed
+// here. Nothing swaps this file automatically: for a staging or internal
+// build, set stagingBaseUrl (and environment, to start there) locally before
+// bundling and don't commit it. Until then the developer menu lists Staging
+// as not available in this build.
+import type {EnvironmentName} from './environments';
+
+export interface BuildConfig {
+  // Environment the app starts in until a developer picks another one
+  environment: EnvironmentName;
+  // Staging backend, only known to builds that are allowed to use it
+  stagingBaseUrl: string | null;
+}
+
+const buildConfig: BuildConfig = {
+  environment: 'production',
+  stagingBaseUrl: null,
+};
+
+export default buildConfig;
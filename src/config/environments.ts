@@ -0,0 +1,56 @@
+// src/config/environments.ts
+import {Platform} from 'react-native';
+import buildConfig from './buildConfig';
+
+export type EnvironmentName = 'production' | 'staging' | 'local' | 'fixtures';
+
+export interface Environment {
+  name: EnvironmentName;
+  label: string;
+  // Where responses come from: a live backend or the bundled recordings
+  source: 'network' | 'fixtures';
+  // null when the environment has no backend in this build
+  baseUrl: string | null;
+}
+
+// The Android emulator reaches the host machine through 10.0.2.2
+const LOCAL_BASE_URL = Platform.select({
+  android: 'http://10.0.2.2:8000/api/v1',
+  default: 'http://localhost:8000/api/v1',
+});
+
+export const ENVIRONMENTS: Record<EnvironmentName, Environment> = {
+  production: {
+    name: 'production',
+    source: 'network',
+    label: 'Production',
+    baseUrl: 'https://shark-app-bei8p.ondigitalocean.app/api/v1',
+  },
+  staging: {
+    name: 'staging',
+    source: 'network',
+    label: 'Staging',
+    baseUrl: buildConfig.stagingBaseUrl,
+  },
+  local: {
+    name: 'local',
+    source: 'network',
+    label: 'Local dev server',
+    baseUrl: LOCAL_BASE_URL,
+  },
+  fixtures: {
+    name: 'fixtures',
+    label: 'Bundled fixtures',
+    source: 'fixtures',
+    baseUrl: null,
+  },
+};
+
+export const isEnvironmentName = (value: unknown): value is EnvironmentName =>
+  typeof value === 'string' && value in ENVIRONMENTS;
+
+export const isEnvironmentAvailable = (environment: Environment): boolean =>
+  environment.source === 'fixtures' || environment.baseUrl !== null;
+
+export const BUILD_ENVIRONMENT: Environment =
+  ENVIRONMENTS[buildConfig.environment];
@@ -0,0 +1,97 @@
+// src/config/linking.ts
+// URL scheme and path for every stack screen, so matches, teams, players
+// and draws can be shared as links, e.g. collegetennis://match/<id>
+import {Linking} from 'react-native';
+import type {LinkingOptions} from '@react-navigation/native';
+import notifee, {EventType} from '@notifee/react-native';
+import type {RootStackParamList} from '../../App';
+
+export const LINK_SCHEME = 'collegetennis://';
+
+// What a link points at, for the fallback screen's message
+export type LinkTarget = 'match' | 'team' | 'player' | 'tournament';
+
+export const links = {
+  match: (matchId: string) =>
+    `${LINK_SCHEME}match/${encodeURIComponent(matchId)}`,
+  team: (teamId: string) => `${LINK_SCHEME}team/${encodeURIComponent(teamId)}`,
+  player: (playerId: string) =>
+    `${LINK_SCHEME}player/${encodeURIComponent(playerId)}`,
+  tournamentDraw: (tournamentId: string, drawName?: string) =>
+    `${LINK_SCHEME}tournament/${encodeURIComponent(tournamentId)}${
+      drawName ? `/draw/${encodeURIComponent(drawName)}` : ''
+    }`,
+};
+
+// Opening a match alert opens the match, the same as its link
+const matchLinkFor = (data?: Record<string, unknown>): string | null =>
+  typeof data?.matchId === 'string' ? links.match(data.matchId) : null;
+
+// The launch URL, or the alert the app was opened from. Both are only
+// reported once by the OS, so the answer is kept for every caller.
+let initialURL: Promise<string | null> | null = null;
+
+export const getInitialURL = (): Promise<string | null> => {
+  if (!initialURL) {
+    initialURL = (async () => {
+      const url = await Linking.getInitialURL();
+      if (url) {
+        return url;
+      }
+      const initialNotification = await notifee.getInitialNotification();
+      return matchLinkFor(initialNotification?.notification.data);
+    })().catch(error => {
+      console.error('Failed to read the launch link:', error);
+      return null;
+    });
+  }
+  return initialURL;
+};
+
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [LINK_SCHEME],
+  config: {
+    // A screen opened from a link goes back to the tabs
+    initialRouteName: 'MainTabs',
+    screens: {
+      MainTabs: {
+        screens: {
+          Home: 'home',
+          Matches: 'matches',
+          Teams: 'teams',
+          Players: 'players',
+          Rankings: 'rankings',
+        },
+      },
+      MatchDetail: 'match/:matchId',
+      TeamDetail: 'team/:teamId',
+      PlayerDetail: 'player/:playerId',
+      RankingDetail: 'rankings/team/:teamId',
+      TournamentDraw: {
+        path: 'tournament/:tournamentId/draw/:drawName',
+        alias: ['tournament/:tournamentId'],
+      },
+      Settings: 'settings',
+      Notifications: 'notifications',
+      NotFound: '*',
+    },
+  },
+  getInitialURL,
+  subscribe: listener => {
+    const linkSubscription = Linking.addEventListener('url', ({url}) =>
+      listener(url),
+    );
+    const unsubscribeNotifications = notifee.onForegroundEvent(
+      ({type, detail}) => {
+        const url = matchLinkFor(detail.notification?.data);
+        if (type === EventType.PRESS && url) {
+          listener(url);
+        }
+      },
+    );
+    return () => {
+      linkSubscription.remove();
+      unsubscribeNotifications();
+    };
+  },
+};
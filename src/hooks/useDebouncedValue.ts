@@ -0,0 +1,14 @@
+// src/hooks/useDebouncedValue.ts
+import {useEffect, useState} from 'react';
+
+// The value once it has stopped changing for `delay` ms, e.g. search input
+export const useDebouncedValue = <T>(value: T, delay: number): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+};
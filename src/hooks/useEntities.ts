@@ -0,0 +1,79 @@
+// src/hooks/useEntities.ts
+import {useRef, useSyncExternalStore} from 'react';
+import entityStore from '../services/entityStore';
+import type {RankingEntry} from '../services/entityStore';
+import type {Match, MatchLineup, MatchScore, Player, Team} from '../api';
+
+const subscribe = (listener: () => void) => entityStore.subscribe(listener);
+
+// Re-renders only when the entity itself changes
+const useEntity = <T>(read: () => T | undefined): T | undefined =>
+  useSyncExternalStore(subscribe, read);
+
+export const useTeam = (id?: string | null): Team | undefined =>
+  useEntity(() => (id ? entityStore.getTeam(id) : undefined));
+
+export const usePlayer = (id?: string | null): Player | undefined =>
+  useEntity(() => (id ? entityStore.getPlayer(id) : undefined));
+
+export const useMatch = (id?: string | null): Match | undefined =>
+  useEntity(() => (id ? entityStore.getMatch(id) : undefined));
+
+export const useMatchScore = (
+  matchId?: string | null,
+): MatchScore | undefined =>
+  useEntity(() => (matchId ? entityStore.getScore(matchId) : undefined));
+
+export const useLineup = (matchId?: string | null): MatchLineup[] | undefined =>
+  useEntity(() => (matchId ? entityStore.getLineup(matchId) : undefined));
+
+export const useRankings = (
+  listId?: string | null,
+): RankingEntry[] | undefined =>
+  useEntity(() => (listId ? entityStore.getRankings(listId) : undefined));
+
+// Known entities for a list of ids, keyed by id. Rebuilt only when the
+// store or the ids change, so an unchanged map keeps its identity.
+const useEntityMap = <T>(
+  ids: Array<string | null | undefined>,
+  read: (id: string) => T | undefined,
+): Record<string, T> => {
+  const key = ids.join(',');
+  const snapshot = useRef<{
+    version: number;
+    key: string;
+    entities: Record<string, T>;
+  } | null>(null);
+
+  return useSyncExternalStore(subscribe, () => {
+    const version = entityStore.getVersion();
+    if (snapshot.current?.version !== version || snapshot.current.key !== key) {
+      const entities: Record<string, T> = {};
+      ids.forEach(id => {
+        const entity = id ? read(id) : undefined;
+        if (id && entity) {
+          entities[id] = entity;
+        }
+      });
+      snapshot.current = {version, key, entities};
+    }
+    return snapshot.current.entities;
+  });
+};
+
+export const useTeams = (
+  ids: Array<string | null | undefined>,
+): Record<string, Team> => useEntityMap(ids, id => entityStore.getTeam(id));
+
+export const usePlayers = (
+  ids: Array<string | null | undefined>,
+): Record<string, Player> => useEntityMap(ids, id => entityStore.getPlayer(id));
+
+export const useMatchScores = (
+  matchIds: string[],
+): Record<string, MatchScore> =>
+  useEntityMap(matchIds, id => entityStore.getScore(id));
+
+// Each player's current team, keyed by player id
+export const usePlayerTeams = (playerIds: string[]): Record<string, Team> =>
+  useEntityMap(playerIds, id => entityStore.getPlayerTeam(id));
@@ -0,0 +1,71 @@
+// src/hooks/useLivePolling.ts
+import {useEffect, useRef, useState} from 'react';
+import {AppState} from 'react-native';
+import {useIsFocused} from '@react-navigation/native';
+import {useOfflineStatus} from './useOfflineStatus';
+
+// Poll quickly while something is changing, back off while it isn't
+const MIN_INTERVAL = 15 * 1000; // 15 seconds
+const MAX_INTERVAL = 60 * 1000; // 1 minute
+const BACKOFF = 1.5;
+
+/**
+ * Call `poll` on an adaptive interval while `enabled` and the screen is on
+ * show: focused, app in the foreground and online. `poll` resolves true when
+ * it saw new data, which resets the interval to the fastest rate.
+ */
+export const useLivePolling = (
+  poll: (signal: AbortSignal) => Promise<boolean>,
+  enabled: boolean,
+) => {
+  const isFocused = useIsFocused();
+  const {offline} = useOfflineStatus();
+  const [appActive, setAppActive] = useState(
+    AppState.currentState === 'active',
+  );
+  const pollRef = useRef(poll);
+  pollRef.current = poll;
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state =>
+      setAppActive(state === 'active'),
+    );
+    return () => subscription.remove();
+  }, []);
+
+  const active = enabled && isFocused && appActive && !offline;
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+
+    const controller = new AbortController();
+    let interval = MIN_INTERVAL;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const tick = async () => {
+      let changed = false;
+      try {
+        changed = await pollRef.current(controller.signal);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Live update failed:', error);
+        }
+      }
+      if (controller.signal.aborted) {
+        return;
+      }
+      interval = changed
+        ? MIN_INTERVAL
+        : Math.min(interval * BACKOFF, MAX_INTERVAL);
+      timer = setTimeout(tick, interval);
+    };
+
+    timer = setTimeout(tick, interval);
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [active]);
+};
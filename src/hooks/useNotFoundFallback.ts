@@ -0,0 +1,41 @@
+// src/hooks/useNotFoundFallback.ts
+import {useEffect} from 'react';
+import {useNavigation} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import {getErrorKind} from '../api';
+import type {LinkTarget} from '../config/linking';
+
+type RootStackParamList = {
+  NotFound: {target?: LinkTarget} | undefined;
+};
+
+// Failures of the request for the screen's own id, as opposed to the
+// lineups, rosters and players it loads alongside
+const primaryErrors = new WeakSet<object>();
+
+// Marks the request whose NotFound means the screen's id doesn't exist
+export const primaryRequest = <T>(request: Promise<T>): Promise<T> =>
+  request.catch(error => {
+    if (error instanceof Object) {
+      primaryErrors.add(error);
+    }
+    throw error;
+  });
+
+export const isMissingEntity = (error: unknown): boolean =>
+  error instanceof Object &&
+  primaryErrors.has(error) &&
+  getErrorKind(error) === 'NotFound';
+
+// Swap the screen for the not-found screen once its id turns out not to
+// exist, e.g. a shared link to a match from an earlier season. A NotFound
+// from any other request leaves the screen up.
+export const useNotFoundFallback = (error: unknown, target: LinkTarget) => {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+
+  useEffect(() => {
+    if (isMissingEntity(error)) {
+      navigation.replace('NotFound', {target});
+    }
+  }, [error, target, navigation]);
+};
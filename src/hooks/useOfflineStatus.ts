@@ -0,0 +1,34 @@
+// src/hooks/useOfflineStatus.ts
+import {useEffect, useRef, useState} from 'react';
+import cacheService from '../services/cacheService';
+import type {OfflineStatus} from '../services/cacheService';
+
+// Current offline mode and the age of the data being shown
+export const useOfflineStatus = (): OfflineStatus => {
+  const [status, setStatus] = useState<OfflineStatus>(() =>
+    cacheService.getOfflineStatus(),
+  );
+
+  useEffect(() => {
+    setStatus(cacheService.getOfflineStatus());
+    return cacheService.subscribeOfflineStatus(setStatus);
+  }, []);
+
+  return status;
+};
+
+// Run a callback whenever the connection comes back
+export const useOnReconnect = (callback: () => void) => {
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    let wasOffline = cacheService.getOfflineStatus().offline;
+    return cacheService.subscribeOfflineStatus(({offline}) => {
+      if (wasOffline && !offline) {
+        callbackRef.current();
+      }
+      wasOffline = offline;
+    });
+  }, []);
+};
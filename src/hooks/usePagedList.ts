@@ -0,0 +1,134 @@
+// src/hooks/usePagedList.ts
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {isAbortError} from '../api';
+import type {Page, RequestOptions} from '../api';
+
+export type FetchPage<T> = (
+  page: number,
+  options: RequestOptions,
+) => Promise<Page<T>>;
+
+export interface PagedList<T> {
+  items: T[];
+  totalCount: number | null; // null until the first page arrives
+  hasMore: boolean;
+  loading: boolean;
+  refreshing: boolean;
+  error: unknown;
+  loadMore: () => void;
+  refresh: () => void;
+  retry: () => void;
+}
+
+/**
+ * Infinite-scroll list over a paginated endpoint. Starts over from page 1
+ * whenever `fetchPage` changes, so wrap it in useCallback over the query it
+ * reads; responses for an earlier query are dropped.
+ */
+export const usePagedList = <T>(
+  fetchPage: FetchPage<T>,
+  enabled = true,
+): PagedList<T> => {
+  const [items, setItems] = useState<T[]>([]);
+  const [page, setPage] = useState(0);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const fetchRef = useRef(fetchPage);
+  fetchRef.current = fetchPage;
+  const controllerRef = useRef<AbortController | null>(null);
+  const loadingRef = useRef(false);
+
+  const load = useCallback(
+    async (pageNumber: number, options: RequestOptions = {}) => {
+      // Only one page loads at a time; a new query cancels the old one
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      loadingRef.current = true;
+      setLoading(true);
+
+      try {
+        const result = await fetchRef.current(pageNumber, {
+          ...options,
+          signal: controller.signal,
+        });
+        if (controller.signal.aborted) {
+          return;
+        }
+        setItems(previous =>
+          pageNumber === 1 ? result.items : [...previous, ...result.items],
+        );
+        setPage(pageNumber);
+        setTotalCount(result.total_count);
+        setHasMore(result.has_next);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted || isAbortError(err)) {
+          return;
+        }
+        console.error('Failed to load page:', err);
+        setError(err);
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          loadingRef.current = false;
+          setLoading(false);
+          setRefreshing(false);
+        }
+      }
+    },
+    [],
+  );
+
+  useEffect(() => {
+    setItems([]);
+    setPage(0);
+    setTotalCount(null);
+    setHasMore(false);
+    setError(null);
+    if (enabled) {
+      load(1);
+    } else {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+      loadingRef.current = false;
+      setLoading(false);
+    }
+    return () => controllerRef.current?.abort();
+  }, [enabled, fetchPage, load]);
+
+  const loadMore = () => {
+    if (enabled && hasMore && !loadingRef.current) {
+      load(page + 1);
+    }
+  };
+
+  const refresh = () => {
+    if (enabled) {
+      setRefreshing(true);
+      load(1, {cachePolicy: 'network-first'});
+    }
+  };
+
+  // Try the page that failed again
+  const retry = () => {
+    if (enabled) {
+      load(page + 1);
+    }
+  };
+
+  return {
+    items,
+    totalCount,
+    hasMore,
+    loading,
+    refreshing,
+    error,
+    loadMore,
+    refresh,
+    retry,
+  };
+};
@@ -0,0 +1,319 @@
+// src/screens/DiagnosticsScreen.tsx
+import React, {useContext, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Share,
+} from 'react-native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import Icon from 'react-native-vector-icons/Feather';
+import {ThemeContext} from '../../App';
+import theme from '../theme';
+import traceService from '../services/traceService';
+import type {RequestTrace} from '../services/traceService';
+
+// Rows shown in the slowest-calls list
+const SLOWEST_LIMIT = 10;
+
+type RootStackParamList = {
+  Settings: undefined;
+  Diagnostics: undefined;
+};
+
+interface DiagnosticsScreenProps {
+  navigation: StackNavigationProp<RootStackParamList, 'Diagnostics'>;
+}
+
+const formatDuration = (duration: number): string =>
+  duration < 1000 ? `${duration} ms` : `${(duration / 1000).toFixed(1)} s`;
+
+const formatSize = (size: number): string => {
+  if (size < 1024) {
+    return `${size} B`;
+  }
+  if (size < 1024 * 1024) {
+    return `${(size / 1024).toFixed(1)} KB`;
+  }
+  return `${(size / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+const describeTrace = (trace: RequestTrace): string =>
+  [
+    trace.error ?? trace.status ?? '-',
+    trace.cache,
+    trace.retries > 0 &&
+      `${trace.retries} ${trace.retries === 1 ? 'retry' : 'retries'}`,
+    formatSize(trace.size),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+const DiagnosticsScreen: React.FC<DiagnosticsScreenProps> = ({navigation}) => {
+  const {isDark} = useContext(ThemeContext);
+  const [, setVersion] = useState(0);
+
+  useEffect(
+    () => traceService.subscribe(() => setVersion(version => version + 1)),
+    [],
+  );
+
+  const endpoints = traceService.getEndpointSummaries();
+  const slowest = traceService.getSlowest(SLOWEST_LIMIT);
+  const cacheCounts = Object.entries(traceService.getCacheCounts());
+
+  const handleExport = async () => {
+    try {
+      await Share.share({
+        title: 'Request traces',
+        message: JSON.stringify(traceService.export(), null, 1),
+      });
+    } catch (error) {
+      console.error('Failed to export traces:', error);
+    }
+  };
+
+  const textColor = isDark ? theme.colors.text.dark : theme.colors.text.light;
+  const dimColor = isDark ? theme.colors.text.dimDark : theme.colors.gray[500];
+  const cardStyle = [
+    styles.card,
+    {
+      backgroundColor: isDark
+        ? theme.colors.card.dark
+        : theme.colors.card.light,
+    },
+  ];
+  const rowStyle = [
+    styles.row,
+    {
+      borderBottomColor: isDark
+        ? theme.colors.border.dark
+        : theme.colors.border.light,
+    },
+  ];
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: isDark
+            ? theme.colors.background.dark
+            : theme.colors.background.light,
+        },
+      ]}>
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {
+            backgroundColor: isDark
+              ? theme.colors.card.dark
+              : theme.colors.card.light,
+            borderBottomColor: isDark
+              ? theme.colors.border.dark
+              : theme.colors.border.light,
+          },
+        ]}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => navigation.goBack()}
+          activeOpacity={0.7}>
+          <Icon name="arrow-left" size={24} color={textColor} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, {color: textColor}]}>
+          Diagnostics
+        </Text>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => traceService.clear()}
+          activeOpacity={0.7}>
+          <Icon name="trash-2" size={20} color={textColor} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={handleExport}
+          activeOpacity={0.7}>
+          <Icon name="share" size={20} color={textColor} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {endpoints.length === 0 && (
+          <Text style={[styles.emptyText, {color: dimColor}]}>
+            No requests recorded yet. Browse the app and come back.
+          </Text>
+        )}
+
+        {/* Latency per endpoint */}
+        {endpoints.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, {color: dimColor}]}>
+              ENDPOINTS
+            </Text>
+            <View style={cardStyle}>
+              {endpoints.map(summary => (
+                <View key={summary.endpoint} style={rowStyle}>
+                  <Text
+                    style={[styles.rowTitle, {color: textColor}]}
+                    numberOfLines={1}>
+                    {summary.endpoint}
+                  </Text>
+                  <Text style={[styles.rowDetail, {color: dimColor}]}>
+                    p50 {formatDuration(summary.p50)} · p90{' '}
+                    {formatDuration(summary.p90)} · p99{' '}
+                    {formatDuration(summary.p99)}
+                  </Text>
+                  <Text style={[styles.rowDetail, {color: dimColor}]}>
+                    {summary.count} calls · avg{' '}
+                    {formatSize(summary.averageSize)}
+                    {summary.retries > 0 && ` · ${summary.retries} retries`}
+                    {summary.errors > 0 && ` · ${summary.errors} errors`}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
+        {/* Slowest recent calls */}
+        {slowest.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, {color: dimColor}]}>
+              SLOWEST CALLS
+            </Text>
+            <View style={cardStyle}>
+              {slowest.map(trace => (
+                <View key={trace.id} style={[rowStyle, styles.traceRow]}>
+                  <View style={styles.traceInfo}>
+                    <Text
+                      style={[styles.rowTitle, {color: textColor}]}
+                      numberOfLines={1}>
+                      {trace.method} {trace.url}
+                    </Text>
+                    <Text style={[styles.rowDetail, {color: dimColor}]}>
+                      {describeTrace(trace)}
+                    </Text>
+                  </View>
+                  <Text
+                    style={[
+                      styles.duration,
+                      {
+                        color: trace.error
+                          ? theme.colors.error
+                          : theme.colors.primary[500],
+                      },
+                    ]}>
+                    {formatDuration(trace.duration)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
+        {/* Cache outcomes per category */}
+        {cacheCounts.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, {color: dimColor}]}>CACHE</Text>
+            <View style={cardStyle}>
+              {cacheCounts.map(([category, counts]) => {
+                const served = counts.hit + counts.stale + counts.offline;
+                const lookups = served + counts.miss + counts.join;
+                return (
+                  <View key={category} style={rowStyle}>
+                    <Text style={[styles.rowTitle, {color: textColor}]}>
+                      {category}
+                      {lookups > 0 &&
+                        ` · ${Math.round((served / lookups) * 100)}% hits`}
+                    </Text>
+                    <Text style={[styles.rowDetail, {color: dimColor}]}>
+                      {counts.hit} hit · {counts.stale} stale · {counts.miss}{' '}
+                      miss · {counts.join} joined · {counts.bypass} bypass
+                      {counts.offline > 0 && ` · ${counts.offline} offline`}
+                      {counts.fallback > 0 && ` · ${counts.fallback} fallback`}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing[4],
+    paddingTop: 60,
+    paddingBottom: 5,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    padding: theme.spacing[2],
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: 'bold',
+    marginLeft: theme.spacing[2],
+  },
+  content: {
+    padding: theme.spacing[4],
+    paddingBottom: 80,
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.sm,
+    textAlign: 'center',
+    marginTop: theme.spacing[8],
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    marginBottom: theme.spacing[2],
+    marginTop: theme.spacing[2],
+  },
+  card: {
+    borderRadius: theme.borderRadius.lg,
+    paddingHorizontal: theme.spacing[4],
+    paddingVertical: theme.spacing[1],
+    marginBottom: theme.spacing[4],
+    ...theme.shadows.sm,
+  },
+  row: {
+    paddingVertical: theme.spacing[2],
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowTitle: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+  rowDetail: {
+    fontSize: theme.typography.fontSize.xs,
+    marginTop: 2,
+  },
+  traceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  traceInfo: {
+    flex: 1,
+    marginRight: theme.spacing[2],
+  },
+  duration: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+});
+
+export default DiagnosticsScreen;
@@ -9,7 +9,11 @@ import {
   StatusBar,
   SafeAreaView,
   Alert,
+  TouchableOpacity,
 } from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import Icon from 'react-native-vector-icons/Feather';
 import {ThemeContext} from '../../App';
 import theme from '../theme';
 import {PreferencesManager} from '../utils/preferencesManager';
@@ -19,10 +23,20 @@ import FavoritePlayersSection from '../components/FavoritePlayerSection';
 import BigMatchesSection from '../components/BigMatchesSection';
 import TennisNewsFeed from '../components/TennisNewsFeed';
 import ManageFavoritesModal from '../components/ManageFavoritesModal';
+import {useOnReconnect} from '../hooks/useOfflineStatus';
+import notificationService from '../services/notificationService';
+
+type RootStackParamList = {
+  MainTabs: undefined;
+  Settings: undefined;
+  Notifications: undefined;
+};
 
 const HomeScreen = () => {
   const {isDark} = useContext(ThemeContext);
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const [refreshing, setRefreshing] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
   const [onboardingCompleted, setOnboardingCompleted] = useState(false);
   const [userPreferences, setUserPreferences] = useState({
     favoriteTeams: [],
@@ -34,12 +48,21 @@ const HomeScreen = () => {
   // State for manage favorites modal
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [modalMode, setModalMode] = useState<'teams' | 'players'>('teams');
+  const [unreadAlerts, setUnreadAlerts] = useState(0);
 
   // Load user preferences when component mounts
   useEffect(() => {
     loadUserPreferences();
   }, []);
 
+  // Unread match alerts, for the dot on the bell
+  useEffect(() => {
+    const countUnread = (alerts: {read: boolean}[]) =>
+      setUnreadAlerts(alerts.filter(alert => !alert.read).length);
+    notificationService.getAlerts().then(countUnread);
+    return notificationService.subscribe(countUnread);
+  }, []);
+
   // Load preferences from storage
   const loadUserPreferences = async () => {
     try {
@@ -108,9 +131,14 @@ const HomeScreen = () => {
   const onRefresh = async () => {
     setRefreshing(true);
     await loadUserPreferences();
+    // Tell the sections to reload from the network instead of the cache
+    setRefreshKey(prev => prev + 1);
     setRefreshing(false);
   };
 
+  // Reload the sections once the connection comes back
+  useOnReconnect(() => setRefreshKey(prev => prev + 1));
+
   // Open the modal to manage favorites
   const openManageFavorites = (mode: 'teams' | 'players') => {
     setModalMode(mode);
@@ -128,6 +156,10 @@ const HomeScreen = () => {
       [type === 'teams' ? 'favoriteTeams' : 'favoritePlayers']:
         updatedFavorites,
     }));
+    // Schedule alerts for new favorites and drop the removed ones'
+    if (type === 'teams') {
+      notificationService.sync('foreground');
+    }
   };
 
   // If onboarding not completed, show onboarding screen
@@ -162,17 +194,44 @@ const HomeScreen = () => {
         }>
         {/* Welcome Header */}
         <View style={styles.welcomeContainer}>
-          <Text
-            style={[
-              styles.welcomeText,
-              {
-                color: isDark
-                  ? theme.colors.text.dark
-                  : theme.colors.text.light,
-              },
-            ]}>
-            TennisU
-          </Text>
+          <View style={styles.welcomeRow}>
+            <Text
+              style={[
+                styles.welcomeText,
+                {
+                  color: isDark
+                    ? theme.colors.text.dark
+                    : theme.colors.text.light,
+                },
+              ]}>
+              TennisU
+            </Text>
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                style={styles.settingsButton}
+                onPress={() => navigation.navigate('Notifications')}>
+                <Icon
+                  name="bell"
+                  size={22}
+                  color={
+                    isDark ? theme.colors.text.dimDark : theme.colors.gray[500]
+                  }
+                />
+                {unreadAlerts > 0 && <View style={styles.unreadDot} />}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.settingsButton}
+                onPress={() => navigation.navigate('Settings')}>
+                <Icon
+                  name="settings"
+                  size={22}
+                  color={
+                    isDark ? theme.colors.text.dimDark : theme.colors.gray[500]
+                  }
+                />
+              </TouchableOpacity>
+            </View>
+          </View>
           <Text
             style={[
               styles.dateText,
@@ -205,12 +264,14 @@ const HomeScreen = () => {
           favoriteTeams={userPreferences.favoriteTeams}
           isDark={isDark}
           onViewAll={() => openManageFavorites('teams')}
+          refreshKey={refreshKey}
         />
 
         {/* Big Upcoming Matches */}
         <BigMatchesSection
           favoriteTeams={userPreferences.favoriteTeams}
           isDark={isDark}
+          refreshKey={refreshKey}
         />
 
         {/* Favorite Players */}
@@ -218,6 +279,7 @@ const HomeScreen = () => {
           favoritePlayers={userPreferences.favoritePlayers}
           isDark={isDark}
           onViewAll={() => openManageFavorites('players')}
+          refreshKey={refreshKey}
         />
 
         {/* Tennis News */}
@@ -254,6 +316,26 @@ const styles = StyleSheet.create({
     paddingTop: theme.spacing[4],
     paddingBottom: theme.spacing[2],
   },
+  welcomeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  settingsButton: {
+    padding: theme.spacing[2],
+  },
+  unreadDot: {
+    position: 'absolute',
+    top: theme.spacing[2],
+    right: theme.spacing[2],
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: theme.colors.error,
+  },
   welcomeText: {
     fontSize: theme.typography.fontSize['3xl'],
     fontWeight: 'bold',
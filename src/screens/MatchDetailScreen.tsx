@@ -6,17 +6,36 @@ import {
   StyleSheet,
   ScrollView,
   ActivityIndicator,
-  TouchableOpacity,
   RefreshControl,
+  TouchableOpacity,
 } from 'react-native';
 import {RouteProp} from '@react-navigation/native';
 import {StackNavigationProp} from '@react-navigation/stack';
 import Icon from 'react-native-vector-icons/Feather';
 import {format} from 'date-fns';
 import {api} from '../api';
+import type {RequestOptions} from '../api';
 import theme from '../theme';
 import {ThemeContext} from '../../App';
 import TeamLogo from '../components/TeamLogo';
+import ErrorState from '../components/ErrorState';
+import ScoreFlash from '../components/ScoreFlash';
+import ShareSheet from '../components/ShareSheet';
+import {useOnReconnect} from '../hooks/useOfflineStatus';
+import {
+  primaryRequest,
+  useNotFoundFallback,
+} from '../hooks/useNotFoundFallback';
+import {useLivePolling} from '../hooks/useLivePolling';
+import {getTeamPointTally, isMatchLive} from '../utils/dualMatch';
+import {matchBoxScore} from '../utils/shareSummaries';
+import {
+  useLineup,
+  useMatch,
+  useMatchScore,
+  usePlayers,
+  useTeam,
+} from '../hooks/useEntities';
 
 // Define the root stack param list
 type RootStackParamList = {
@@ -38,6 +57,29 @@ interface MatchDetailScreenProps {
   navigation: MatchDetailScreenNavigationProp;
 }
 
+// Everything a live update can change, to tell whether a poll saw news
+const scoreboardSignature = (
+  match: any,
+  lineup: any[] | null | undefined,
+  score: any,
+): string =>
+  JSON.stringify([
+    match?.completed,
+    score?.home_team_score,
+    score?.away_team_score,
+    (lineup ?? []).map(line => [
+      line.id,
+      line.side1_score,
+      line.side2_score,
+      line.side1_won,
+      line.side2_won,
+    ]),
+  ]);
+
+// Score text and result of one court, flashed when it changes
+const courtSignature = (line: any): string =>
+  `${line.side1_score}|${line.side2_score}|${line.side1_won}|${line.side2_won}`;
+
 const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
   route,
   navigation,
@@ -45,26 +87,41 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
   const {matchId} = route.params;
   const {isDark} = useContext(ThemeContext);
 
-  // State
-  const [match, setMatch] = useState<any>(null);
-  const [lineup, setLineup] = useState<any[]>([]);
-  const [teams, setTeams] = useState<{home: any; away: any}>({
-    home: null,
-    away: null,
-  });
+  // Match, teams, lineup and players come from the shared entity store, so
+  // the header renders right away when the match was opened from a list
+  const match = useMatch(matchId);
+  const teams = {
+    home: useTeam(match?.home_team_id),
+    away: useTeam(match?.away_team_id),
+  };
+  // Started but not final: courts fill in as they finish
+  const live = match ? isMatchLive(match) : false;
+  const showResults = match?.completed || live;
+  const lineup = useLineup(showResults ? matchId : null) ?? [];
+  const matchScore = useMatchScore(showResults ? matchId : null);
+  const players = usePlayers(
+    lineup.flatMap(line => [
+      line.side1_player1_id,
+      line.side1_player2_id,
+      line.side2_player1_id,
+      line.side2_player2_id,
+    ]),
+  );
   const [loading, setLoading] = useState<boolean>(true);
   const [refreshing, setRefreshing] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const [matchScore, setMatchScore] = useState<any>(null);
-  const [players, setPlayers] = useState<Record<string, any>>({});
+  const [error, setError] = useState<unknown>(null);
+  const [shareVisible, setShareVisible] = useState<boolean>(false);
+  useNotFoundFallback(error, 'match');
 
   // Fetch match details
-  const fetchMatchDetails = async () => {
+  const fetchMatchDetails = async (options: RequestOptions = {}) => {
     try {
       setLoading(true);
 
       // Fetch match data
-      const matchData = await api.matches.getById(matchId);
+      const matchData = await primaryRequest(
+        api.matches.getById(matchId, options),
+      );
       console.log(matchData);
 
       // Log match data for debugging
@@ -75,7 +132,9 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
         away_team_id: matchData.away_team_id,
       });
 
-      // Then fetch teams, lineup, and score in parallel
+      // Then fetch teams, lineup, and score in parallel. A live match has
+      // no team score until the first point is decided.
+      const withResults = matchData.completed || isMatchLive(matchData);
       const [homeTeam, awayTeam, lineupData, scoreData] = await Promise.all([
         matchData.home_team_id
           ? api.teams.getById(matchData.home_team_id)
@@ -83,11 +142,11 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
         matchData.away_team_id
           ? api.teams.getById(matchData.away_team_id)
           : Promise.resolve(null),
-        matchData.completed
-          ? api.matches.getLineup(matchId)
+        withResults
+          ? api.matches.getLineup(matchId, options)
           : Promise.resolve([]),
-        matchData.completed
-          ? api.matches.getScore(matchId)
+        withResults
+          ? api.matches.getScore(matchId, options).catch(() => null)
           : Promise.resolve(null),
       ]);
 
@@ -106,26 +165,14 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
       });
 
       // Fetch all player details in parallel
-      const playerPromises = Array.from(playerIds).map(playerId =>
-        api.players.getById(playerId),
+      await Promise.all(
+        Array.from(playerIds).map(playerId => api.players.getById(playerId)),
       );
-      const playerResults = await Promise.all(playerPromises);
 
-      // Create players map
-      const playersMap: Record<string, any> = {};
-      playerResults.forEach(player => {
-        playersMap[player.person_id] = player;
-      });
-
-      setMatch(matchData);
-      setTeams({home: homeTeam, away: awayTeam});
-      setLineup(lineupData);
-      setMatchScore(scoreData);
-      setPlayers(playersMap);
       setError(null);
     } catch (err) {
       console.error('Error fetching match details:', err);
-      setError('Failed to load match details. Please try again.');
+      setError(err);
     } finally {
       setLoading(false);
       setRefreshing(false);
@@ -139,9 +186,49 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
   // Handle refresh
   const onRefresh = () => {
     setRefreshing(true);
-    fetchMatchDetails();
+    fetchMatchDetails({cachePolicy: 'network-first'});
   };
 
+  // Reload once the connection comes back
+  useOnReconnect(() => fetchMatchDetails({cachePolicy: 'network-first'}));
+
+  // Poll the courts while the match is in progress. Stops once it's final,
+  // or while the screen is out of view.
+  const pollLiveScores = async (signal: AbortSignal): Promise<boolean> => {
+    const before = scoreboardSignature(match, lineup, matchScore);
+    const options: RequestOptions = {cachePolicy: 'network-only', signal};
+    const [matchData, lineupData, scoreData] = await Promise.all([
+      api.matches.getById(matchId, options),
+      api.matches.getLineup(matchId, options),
+      // No team score until the first point is decided
+      api.matches.getScore(matchId, options).catch(() => null),
+    ]);
+
+    // Players who just took the court
+    const missingPlayers = new Set<string>();
+    lineupData.forEach((line: any) => {
+      [
+        line.side1_player1_id,
+        line.side1_player2_id,
+        line.side2_player1_id,
+        line.side2_player2_id,
+      ].forEach(playerId => {
+        if (playerId && !players[playerId]) {
+          missingPlayers.add(playerId);
+        }
+      });
+    });
+    await Promise.all(
+      Array.from(missingPlayers).map(playerId =>
+        api.players.getById(playerId, {signal}),
+      ),
+    );
+
+    return before !== scoreboardSignature(matchData, lineupData, scoreData);
+  };
+
+  useLivePolling(pollLiveScores, live);
+
   // Format player name helper
   const formatPlayerName = (player: any): string => {
     if (!player) return '';
@@ -188,6 +275,9 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
     .filter(match => match.match_type === 'SINGLES')
     .sort((a, b) => a.position - b.position);
 
+  // Team points so far, from the courts that have finished
+  const tally = getTeamPointTally(lineup);
+
   const formatTeamName = (name?: string): string => {
     return name ? name.replace(/\s*\((M|W)\)$/, '') : 'Unknown Team';
   };
@@ -258,7 +348,7 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
   };
 
   // Render loading state
-  if (loading && !refreshing) {
+  if (loading && !refreshing && !match) {
     return (
       <View
         style={[
@@ -297,13 +387,12 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
               : theme.colors.background.light,
           },
         ]}>
-        <Icon name="alert-circle" size={48} color={theme.colors.error} />
-        <Text style={styles.errorText}>{error}</Text>
-        <TouchableOpacity
-          style={styles.retryButton}
-          onPress={fetchMatchDetails}>
-          <Text style={styles.retryButtonText}>Retry</Text>
-        </TouchableOpacity>
+        <ErrorState
+          error={error}
+          isDark={isDark}
+          title="Couldn't load match details"
+          onRetry={() => fetchMatchDetails()}
+        />
       </View>
     );
   }
@@ -342,6 +431,16 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
             marginTop: 70,
           },
         ]}>
+        <TouchableOpacity
+          style={styles.shareButton}
+          onPress={() => setShareVisible(true)}
+          activeOpacity={0.7}>
+          <Icon
+            name="share"
+            size={20}
+            color={isDark ? theme.colors.text.dimDark : theme.colors.gray[500]}
+          />
+        </TouchableOpacity>
         <View style={styles.teamsHeader}>
           {/* Home Team */}
           <View style={styles.teamColumn}>
@@ -356,9 +455,9 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
                 },
                 match.is_conference_match && styles.conferenceTeam,
               ]}>
-              {formatTeamName(teams.home.name)}
+              {formatTeamName(teams.home?.name)}
             </Text>
-            {teams.home.conference && (
+            {teams.home?.conference && (
               <Text
                 style={[
                   styles.conferenceText,
@@ -386,12 +485,19 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
               ]}>
               {match.completed && matchScore
                 ? `${matchScore.home_team_score} - ${matchScore.away_team_score}`
+                : live
+                ? `${tally.home} - ${tally.away}`
                 : 'vs'}
             </Text>
             {match.completed ? (
               <View style={styles.statusBadge}>
                 <Text style={styles.statusText}>Final</Text>
               </View>
+            ) : live ? (
+              <View style={[styles.statusBadge, styles.liveBadge]}>
+                <View style={styles.liveDot} />
+                <Text style={[styles.statusText, styles.liveText]}>LIVE</Text>
+              </View>
             ) : match.scheduled_time ? (
               <Text
                 style={[
@@ -420,9 +526,9 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
                 },
                 match.is_conference_match && styles.conferenceTeam,
               ]}>
-              {formatTeamName(teams.away.name)}
+              {formatTeamName(teams.away?.name)}
             </Text>
-            {teams.away.conference && (
+            {teams.away?.conference && (
               <Text
                 style={[
                   styles.conferenceText,
@@ -513,7 +619,7 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
       </View>
 
       {/* Match Results */}
-      {match.completed && lineup.length > 0 && (
+      {showResults && lineup.length > 0 && (
         <View style={styles.resultsContainer}>
           {/* Doubles Section */}
           {doublesMatches.length > 0 && (
@@ -540,8 +646,9 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
 
               <View style={styles.matchesList}>
                 {doublesMatches.map(match => (
-                  <View
+                  <ScoreFlash
                     key={match.id}
+                    value={courtSignature(match)}
                     style={[
                       styles.matchItem,
                       {
@@ -575,8 +682,14 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
 
                       {/* UF Tag - if match is unfinished */}
                       {!match.side1_won && !match.side2_won && (
-                        <View style={styles.unfinishedTag}>
-                          <Text style={styles.unfinishedText}>DNF</Text>
+                        <View
+                          style={[
+                            styles.unfinishedTag,
+                            live && styles.inProgressTag,
+                          ]}>
+                          <Text style={styles.unfinishedText}>
+                            {live ? 'IN PROGRESS' : 'DNF'}
+                          </Text>
                         </View>
                       )}
                     </View>
@@ -751,7 +864,7 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
                         )}
                       </View>
                     </View>
-                  </View>
+                  </ScoreFlash>
                 ))}
               </View>
             </View>
@@ -782,8 +895,9 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
 
               <View style={styles.matchesList}>
                 {singlesMatches.map(match => (
-                  <View
+                  <ScoreFlash
                     key={match.id}
+                    value={courtSignature(match)}
                     style={[
                       styles.matchItem,
                       {
@@ -817,8 +931,14 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
 
                       {/* UF Tag - if match is unfinished */}
                       {!match.side1_won && !match.side2_won && (
-                        <View style={styles.unfinishedTag}>
-                          <Text style={styles.unfinishedText}>DNF</Text>
+                        <View
+                          style={[
+                            styles.unfinishedTag,
+                            live && styles.inProgressTag,
+                          ]}>
+                          <Text style={styles.unfinishedText}>
+                            {live ? 'IN PROGRESS' : 'DNF'}
+                          </Text>
                         </View>
                       )}
                     </View>
@@ -987,7 +1107,7 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
                         </View>
                       </View>
                     </>
-                  </View>
+                  </ScoreFlash>
                 ))}
               </View>
             </View>
@@ -1020,8 +1140,8 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
         </View>
       )}
 
-      {/* Match not yet completed message */}
-      {!match.completed && (
+      {/* Match not yet started message */}
+      {!match.completed && !live && (
         <View
           style={[
             styles.card,
@@ -1050,6 +1170,20 @@ const MatchDetailScreen: React.FC<MatchDetailScreenProps> = ({
 
       {/* Bottom padding for better scrolling */}
       <View style={styles.bottomPadding} />
+
+      <ShareSheet
+        visible={shareVisible}
+        onClose={() => setShareVisible(false)}
+        summary={matchBoxScore({
+          match,
+          homeTeam: teams.home,
+          awayTeam: teams.away,
+          lineup,
+          score: matchScore,
+          players,
+        })}
+        isDark={isDark}
+      />
     </ScrollView>
   );
 };
@@ -1074,30 +1208,19 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: theme.spacing[4],
   },
-  errorText: {
-    marginTop: theme.spacing[4],
-    fontSize: theme.typography.fontSize.base,
-    color: theme.colors.error,
-    textAlign: 'center',
-  },
-  retryButton: {
-    marginTop: theme.spacing[4],
-    backgroundColor: theme.colors.primary[500],
-    paddingVertical: theme.spacing[2],
-    paddingHorizontal: theme.spacing[4],
-    borderRadius: theme.borderRadius.md,
-  },
-  retryButtonText: {
-    color: theme.colors.white,
-    fontSize: theme.typography.fontSize.base,
-    fontWeight: '600',
-  },
   card: {
     margin: theme.spacing[4],
     borderRadius: theme.borderRadius.lg,
     padding: theme.spacing[4],
     ...theme.shadows.md,
   },
+  shareButton: {
+    position: 'absolute',
+    top: theme.spacing[2],
+    right: theme.spacing[2],
+    padding: theme.spacing[2],
+    zIndex: 1,
+  },
   teamsHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1145,6 +1268,22 @@ const styles = StyleSheet.create({
     fontSize: theme.typography.fontSize.xs,
     color: theme.colors.gray[700],
   },
+  liveBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.error,
+  },
+  liveDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginRight: theme.spacing[1],
+    backgroundColor: theme.colors.white,
+  },
+  liveText: {
+    color: theme.colors.white,
+    fontWeight: '700',
+  },
   detailsRow: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -1209,6 +1348,9 @@ const styles = StyleSheet.create({
     backgroundColor: theme.colors.warning,
     borderRadius: theme.borderRadius.full,
   },
+  inProgressTag: {
+    backgroundColor: theme.colors.primary[500],
+  },
   unfinishedText: {
     color: theme.colors.white,
     fontSize: 10,
@@ -1,5 +1,5 @@
 // src/screens/MatchesScreen.tsx
-import React, {useState, useEffect, useMemo} from 'react';
+import React, {useState, useEffect, useMemo, useRef} from 'react';
 import {
   View,
   Text,
@@ -14,14 +14,18 @@ import {
 import DateTimePicker from '@react-native-community/datetimepicker';
 import {format} from 'date-fns';
 import {api} from '../api';
+import cacheService from '../services/cacheService';
 import theme from '../theme';
-import {Match, Team} from '../api';
+import {Match} from '../api';
+import type {RequestOptions} from '../api';
 import {ThemeContext} from '../../App';
 import Icon from 'react-native-vector-icons/Feather';
 import {StackNavigationProp} from '@react-navigation/stack';
 import TeamLogo from '../components/TeamLogo';
 import TournamentsSection from '../components/TournamentsSection';
+import ErrorState from '../components/ErrorState';
 import DateRangePicker from '../components/DateRangePicker';
+import {useMatchScores, useTeams} from '../hooks/useEntities';
 
 // Define navigation types
 type RootStackParamList = {
@@ -55,10 +59,9 @@ const MatchesScreen: React.FC<MatchesScreenProps> = ({navigation}) => {
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   // const [showDatePicker, setShowDatePicker] = useState<boolean>(false);
   const [matches, setMatches] = useState<Match[]>([]);
-  const [teams, setTeams] = useState<Record<string, Team>>({});
   const [loading, setLoading] = useState<boolean>(true);
   const [refreshing, setRefreshing] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   const [filters, setFilters] = useState<FilterState>({
     gender: '',
     conference: '',
@@ -68,7 +71,14 @@ const MatchesScreen: React.FC<MatchesScreenProps> = ({navigation}) => {
   const [availableConferences, setAvailableConferences] = useState<string[]>(
     [],
   );
-  const [matchScores, setMatchScores] = useState<Record<string, any>>({});
+  // Teams and scores come from the shared entity store; only completed
+  // matches show a score
+  const teams = useTeams(
+    matches.flatMap(match => [match.home_team_id, match.away_team_id]),
+  );
+  const matchScores = useMatchScores(
+    matches.filter(match => match.completed).map(match => match.id),
+  );
   const [viewMode, setViewMode] = useState<'matches' | 'tournaments'>(
     'matches',
   );
@@ -97,66 +107,35 @@ const MatchesScreen: React.FC<MatchesScreenProps> = ({navigation}) => {
   // const [showEndDatePicker, setShowEndDatePicker] = useState<boolean>(false);
 
   // Fetch matches based on selected date
-  const fetchMatches = async () => {
+  const fetchMatches = async (
+    showLoading: boolean = true,
+    options: RequestOptions = {},
+  ) => {
     try {
-      setLoading(true);
+      if (showLoading) {
+        setLoading(true);
+      }
 
       // Format date for API
       const dateStr = format(selectedDate, 'yyyy-MM-dd');
 
-      // Fetch matches from API
-      const matchesData = await api.matches.getAll(dateStr);
+      // Matches, their teams and scores for the day in one request
+      const {matches: matchesData, teams: teamsData} =
+        await api.batch.getMatchesWithData(dateStr, options);
 
-      // Get unique team IDs from matches
-      const teamIds = new Set<string>();
       const conferences = new Set<string>();
-
-      matchesData.forEach(match => {
-        if (match.home_team_id) teamIds.add(match.home_team_id);
-        if (match.away_team_id) teamIds.add(match.away_team_id);
-      });
-
-      // Fetch all teams in a single batch request
-      const teamsData: Record<string, Team> = {};
-
-      if (teamIds.size > 0) {
-        try {
-          // Use the new batch endpoint - SINGLE REQUEST instead of many
-          const teams = await api.teams.getBatch(Array.from(teamIds));
-
-          // Convert array to map and track conferences
-          teams.forEach(team => {
-            teamsData[team.id] = team;
-            if (team.conference) {
-              conferences.add(team.conference);
-            }
-          });
-        } catch (error) {
-          console.error('Failed to fetch teams batch:', error);
+      Object.values(teamsData).forEach(team => {
+        if (team.conference) {
+          conferences.add(team.conference);
         }
-      }
-
-      // Fetch scores for completed matches
-      const completedMatches = matchesData.filter(match => match.completed);
-      const scorePromises = completedMatches.map(match =>
-        api.matches.getScore(match.id),
-      );
-      const scoreResults = await Promise.all(scorePromises);
-
-      // Create scores map
-      const scoresMap: any = {};
-      completedMatches.forEach((match, index) => {
-        scoresMap[match.id] = scoreResults[index];
       });
 
       setMatches(matchesData);
-      setTeams(teamsData);
-      setMatchScores(scoresMap);
       setAvailableConferences(Array.from(conferences).sort());
       setError(null);
     } catch (err) {
       console.error('Error fetching matches:', err);
-      setError('Failed to load matches. Please try again.');
+      setError(err);
     } finally {
       setLoading(false);
       setRefreshing(false);
@@ -170,10 +149,26 @@ const MatchesScreen: React.FC<MatchesScreenProps> = ({navigation}) => {
     }
   }, [selectedDate, viewMode]);
 
+  // Quietly reload when stale matches, scores or teams finish revalidating
+  const fetchMatchesRef = useRef(fetchMatches);
+  fetchMatchesRef.current = fetchMatches;
+  useEffect(() => {
+    if (viewMode !== 'matches') {
+      return;
+    }
+
+    const dateStr = format(selectedDate, 'yyyy-MM-dd');
+    return cacheService.subscribe('batch', params => {
+      if (params?.type === 'matchesWithData' && params?.date === dateStr) {
+        fetchMatchesRef.current(false);
+      }
+    });
+  }, [selectedDate, viewMode]);
+
   // Handle refresh
   const onRefresh = () => {
     setRefreshing(true);
-    fetchMatches();
+    fetchMatches(true, {cachePolicy: 'network-first'});
   };
 
   const handleStartDateChange = (date: Date) => {
@@ -963,11 +958,12 @@ const MatchesScreen: React.FC<MatchesScreenProps> = ({navigation}) => {
           </View>
         ) : error ? (
           <View style={styles.centerContainer}>
-            <Icon name="alert-circle" size={48} color={theme.colors.error} />
-            <Text style={styles.errorText}>{error}</Text>
-            <TouchableOpacity style={styles.retryButton} onPress={fetchMatches}>
-              <Text style={styles.retryButtonText}>Retry</Text>
-            </TouchableOpacity>
+            <ErrorState
+              error={error}
+              isDark={isDark}
+              title="Couldn't load matches"
+              onRetry={() => fetchMatches()}
+            />
           </View>
         ) : (
           renderMatchList()
@@ -1073,12 +1069,6 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     paddingHorizontal: theme.spacing[4],
   },
-  errorText: {
-    marginTop: theme.spacing[4],
-    color: theme.colors.error,
-    fontSize: theme.typography.fontSize.base,
-    textAlign: 'center',
-  },
   emptyText: {
     marginTop: theme.spacing[4],
     fontSize: theme.typography.fontSize.lg,
@@ -1090,18 +1080,6 @@ const styles = StyleSheet.create({
     fontSize: theme.typography.fontSize.base,
     textAlign: 'center',
   },
-  retryButton: {
-    marginTop: theme.spacing[4],
-    backgroundColor: theme.colors.primary[500],
-    paddingVertical: theme.spacing[2],
-    paddingHorizontal: theme.spacing[4],
-    borderRadius: theme.borderRadius.md,
-  },
-  retryButtonText: {
-    color: theme.colors.white,
-    fontSize: theme.typography.fontSize.base,
-    fontWeight: '600',
-  },
   matchCard: {
     borderRadius: theme.borderRadius.lg,
     padding: theme.spacing[4],
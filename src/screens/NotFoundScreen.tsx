@@ -0,0 +1,126 @@
+// src/screens/NotFoundScreen.tsx
+import React, {useContext} from 'react';
+import {View, Text, StyleSheet, TouchableOpacity} from 'react-native';
+import {RouteProp} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import Icon from 'react-native-vector-icons/Feather';
+import {ThemeContext} from '../../App';
+import theme from '../theme';
+import type {LinkTarget} from '../config/linking';
+
+type RootStackParamList = {
+  MainTabs: undefined;
+  NotFound: {target?: LinkTarget} | undefined;
+};
+
+interface NotFoundScreenProps {
+  route: RouteProp<RootStackParamList, 'NotFound'>;
+  navigation: StackNavigationProp<RootStackParamList, 'NotFound'>;
+}
+
+const TARGET_LABELS: Record<LinkTarget, string> = {
+  match: 'match',
+  team: 'team',
+  player: 'player',
+  tournament: 'tournament draw',
+};
+
+// Shown for links the app doesn't know, and for links to a match, team,
+// player or draw that no longer exists
+const NotFoundScreen: React.FC<NotFoundScreenProps> = ({route, navigation}) => {
+  const {isDark} = useContext(ThemeContext);
+  const target = route.params?.target;
+
+  const textColor = isDark ? theme.colors.text.dark : theme.colors.text.light;
+  const dimColor = isDark ? theme.colors.text.dimDark : theme.colors.gray[500];
+
+  const goHome = () =>
+    navigation.reset({index: 0, routes: [{name: 'MainTabs'}]});
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: isDark
+            ? theme.colors.background.dark
+            : theme.colors.background.light,
+        },
+      ]}>
+      {navigation.canGoBack() && (
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          activeOpacity={0.7}>
+          <Icon name="arrow-left" size={24} color={textColor} />
+        </TouchableOpacity>
+      )}
+
+      <View style={styles.content}>
+        <Icon name="link-2" size={48} color={dimColor} />
+        <Text style={[styles.title, {color: textColor}]}>
+          {target
+            ? `This ${TARGET_LABELS[target]} isn't available`
+            : "This link doesn't go anywhere"}
+        </Text>
+        <Text style={[styles.message, {color: dimColor}]}>
+          {target
+            ? 'It may have been removed, or the link is from an older season.'
+            : route.path
+            ? `The app doesn't recognize ${route.path}.`
+            : "The app doesn't recognize this link."}
+        </Text>
+        <TouchableOpacity
+          style={styles.homeButton}
+          onPress={goHome}
+          activeOpacity={0.7}>
+          <Text style={styles.homeButtonText}>Go to Home</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backButton: {
+    position: 'absolute',
+    top: 60,
+    left: theme.spacing[4],
+    padding: theme.spacing[2],
+    zIndex: 1,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing[6],
+  },
+  title: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginTop: theme.spacing[4],
+  },
+  message: {
+    fontSize: theme.typography.fontSize.sm,
+    textAlign: 'center',
+    marginTop: theme.spacing[2],
+  },
+  homeButton: {
+    marginTop: theme.spacing[6],
+    paddingHorizontal: theme.spacing[6],
+    paddingVertical: theme.spacing[3],
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.primary[500],
+  },
+  homeButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: '600',
+  },
+});
+
+export default NotFoundScreen;
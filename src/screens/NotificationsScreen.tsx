@@ -0,0 +1,252 @@
+// src/screens/NotificationsScreen.tsx
+import React, {useContext, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import Icon from 'react-native-vector-icons/Feather';
+import {format, isToday} from 'date-fns';
+import {ThemeContext} from '../../App';
+import theme from '../theme';
+import TeamLogo from '../components/TeamLogo';
+import notificationService from '../services/notificationService';
+import type {MatchAlert} from '../services/notificationService';
+
+type RootStackParamList = {
+  Settings: undefined;
+  Notifications: undefined;
+  MatchDetail: {matchId: string};
+};
+
+interface NotificationsScreenProps {
+  navigation: StackNavigationProp<RootStackParamList, 'Notifications'>;
+}
+
+const formatAlertTime = (timestamp: number): string =>
+  isToday(timestamp)
+    ? format(timestamp, 'h:mm a')
+    : format(timestamp, 'MMM d, h:mm a');
+
+const NotificationsScreen: React.FC<NotificationsScreenProps> = ({
+  navigation,
+}) => {
+  const {isDark} = useContext(ThemeContext);
+  const [alerts, setAlerts] = useState<MatchAlert[]>([]);
+
+  useEffect(() => {
+    notificationService.getAlerts().then(setAlerts);
+    return notificationService.subscribe(setAlerts);
+  }, []);
+
+  const handleOpen = (alert: MatchAlert) => {
+    notificationService.markRead(alert.id);
+    navigation.navigate('MatchDetail', {matchId: alert.matchId});
+  };
+
+  const handleClear = () => {
+    Alert.alert('Clear Notifications', 'Remove all past alerts?', [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () => notificationService.clearAlerts(),
+      },
+    ]);
+  };
+
+  const textColor = isDark ? theme.colors.text.dark : theme.colors.text.light;
+  const dimColor = isDark ? theme.colors.text.dimDark : theme.colors.gray[500];
+  const hasUnread = alerts.some(alert => !alert.read);
+
+  const renderAlert = ({item}: {item: MatchAlert}) => (
+    <TouchableOpacity
+      style={[
+        styles.alertCard,
+        {
+          backgroundColor: isDark
+            ? theme.colors.card.dark
+            : theme.colors.card.light,
+        },
+      ]}
+      onPress={() => handleOpen(item)}
+      activeOpacity={0.7}>
+      <TeamLogo teamId={item.teamId} size="small" />
+      <View style={styles.alertInfo}>
+        <Text
+          style={[
+            styles.alertTitle,
+            {color: textColor},
+            !item.read && styles.unreadTitle,
+          ]}
+          numberOfLines={1}>
+          {item.title}
+        </Text>
+        <Text style={[styles.alertBody, {color: dimColor}]} numberOfLines={2}>
+          {item.body}
+        </Text>
+        <View style={styles.alertMeta}>
+          <Icon
+            name={item.event === 'start' ? 'clock' : 'award'}
+            size={12}
+            color={dimColor}
+          />
+          <Text style={[styles.alertTime, {color: dimColor}]}>
+            {formatAlertTime(item.timestamp)}
+          </Text>
+        </View>
+      </View>
+      {!item.read && <View style={styles.unreadDot} />}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: isDark
+            ? theme.colors.background.dark
+            : theme.colors.background.light,
+        },
+      ]}>
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {
+            backgroundColor: isDark
+              ? theme.colors.card.dark
+              : theme.colors.card.light,
+            borderBottomColor: isDark
+              ? theme.colors.border.dark
+              : theme.colors.border.light,
+          },
+        ]}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => navigation.goBack()}
+          activeOpacity={0.7}>
+          <Icon name="arrow-left" size={24} color={textColor} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, {color: textColor}]}>
+          Notifications
+        </Text>
+        {hasUnread && (
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => notificationService.markAllRead()}
+            activeOpacity={0.7}>
+            <Icon name="check-circle" size={20} color={textColor} />
+          </TouchableOpacity>
+        )}
+        {alerts.length > 0 && (
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={handleClear}
+            activeOpacity={0.7}>
+            <Icon name="trash-2" size={20} color={textColor} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <FlatList
+        data={alerts}
+        keyExtractor={item => item.id}
+        renderItem={renderAlert}
+        contentContainerStyle={styles.content}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Icon name="bell-off" size={40} color={dimColor} />
+            <Text style={[styles.emptyText, {color: dimColor}]}>
+              No alerts yet. Your favorite teams' match starts and final scores
+              will show up here.
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing[4],
+    paddingTop: 60,
+    paddingBottom: 5,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    padding: theme.spacing[2],
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: 'bold',
+    marginLeft: theme.spacing[2],
+  },
+  content: {
+    padding: theme.spacing[4],
+    paddingBottom: 80,
+  },
+  alertCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing[3],
+    marginBottom: theme.spacing[3],
+    ...theme.shadows.sm,
+  },
+  alertInfo: {
+    flex: 1,
+    marginLeft: theme.spacing[3],
+  },
+  alertTitle: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: '500',
+  },
+  unreadTitle: {
+    fontWeight: '700',
+  },
+  alertBody: {
+    fontSize: theme.typography.fontSize.xs,
+    marginTop: 2,
+  },
+  alertMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing[1],
+  },
+  alertTime: {
+    fontSize: theme.typography.fontSize.xs,
+    marginLeft: theme.spacing[1],
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginLeft: theme.spacing[2],
+    backgroundColor: theme.colors.primary[500],
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    marginTop: theme.spacing[10],
+    paddingHorizontal: theme.spacing[6],
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.sm,
+    textAlign: 'center',
+    marginTop: theme.spacing[3],
+  },
+});
+
+export default NotificationsScreen;
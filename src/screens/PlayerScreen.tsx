@@ -1,5 +1,5 @@
 // src/screens/PlayerScreen.tsx
-import React, {useState, useEffect, useContext} from 'react';
+import React, {useState, useEffect, useContext, useRef} from 'react';
 import {
   View,
   Text,
@@ -17,10 +17,25 @@ import {format} from 'date-fns';
 import Icon from 'react-native-vector-icons/Feather';
 import {ThemeContext} from '../../App';
 import theme from '../theme';
-import {api} from '../api';
+import {api, isAbortError} from '../api';
+import type {PlayerTeam, RankingHistoryEntry, RequestOptions} from '../api';
 import TeamLogo from '../components/TeamLogo';
 import PositionBarChart from '../components/PositionBarChart';
-import RankingHistoryChart from '../components/RankingHistoryChart';
+import RankingHistoryChart, {
+  MAX_RANKING_SERIES,
+} from '../components/RankingHistoryChart';
+import ComparisonPicker, {
+  ComparisonOption,
+} from '../components/ComparisonPicker';
+import ErrorState from '../components/ErrorState';
+import ShareSheet from '../components/ShareSheet';
+import {useOnReconnect} from '../hooks/useOfflineStatus';
+import {
+  primaryRequest,
+  useNotFoundFallback,
+} from '../hooks/useNotFoundFallback';
+import {playerSummary} from '../utils/shareSummaries';
+import {RankingSeries, rankingsInSeason} from '../utils/rankingHistory';
 
 // Define navigation props
 type RootStackParamList = {
@@ -61,13 +76,6 @@ interface PlayerStats {
   wtn_doubles?: number | null;
 }
 
-interface TeamInfo {
-  id: string;
-  name: string;
-  abbreviation?: string;
-  team_name: string;
-}
-
 interface MatchResult {
   id: string;
   match_id: string;
@@ -94,18 +102,26 @@ const formatMatchDate = (dateString: string) => {
   }
 };
 
+// Parse team name (removed duplicate function)
+const parseTeamName = (teamName: string) => {
+  // Remove gender designation like "(M)" or "(W)" from the end
+  const nameParts = teamName.split(/\s*\([MW]\)\s*$/);
+  return nameParts[0]; // Return the name without the gender designation
+};
+
 const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
   const {playerId} = route.params;
   const {isDark} = useContext(ThemeContext);
 
   // State variables
   const [player, setPlayer] = useState<Player | null>(null);
-  const [playerTeam, setPlayerTeam] = useState<TeamInfo | null>(null);
+  const [playerTeam, setPlayerTeam] = useState<PlayerTeam | null>(null);
   const [matchResults, setMatchResults] = useState<MatchResult[]>([]);
   const [playerStats, setPlayerStats] = useState<PlayerStats | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [refreshing, setRefreshing] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  useNotFoundFallback(error, 'player');
   const [selectedSeason, setSelectedSeason] = useState<string>('2025');
   const [hasSeasonData, setHasSeasonData] = useState(true);
 
@@ -139,7 +155,19 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
   const [seasonsData, setSeasonsData] = useState<{[name: string]: string}>({});
   const [loadingSeasons, setLoadingSeasons] = useState<boolean>(false);
   const [playerRankingHistory, setPlayerRankingHistory] = useState<any[]>([]);
+  // Every ranking fetched, across seasons, for following comparisons over
+  // a season boundary
+  const [allRankingHistory, setAllRankingHistory] = useState<
+    RankingHistoryEntry[]
+  >([]);
   const [playerRanking, setPlayerRanking] = useState<any>(null);
+  const [shareVisible, setShareVisible] = useState<boolean>(false);
+
+  // Other players overlaid on the ranking history chart, with every season
+  // they were fetched for
+  const [comparisons, setComparisons] = useState<RankingSeries[]>([]);
+  const [comparisonPickerVisible, setComparisonPickerVisible] = useState(false);
+  const [teammates, setTeammates] = useState<ComparisonOption[]>([]);
 
   // Toggle dropdown for season selection
   const toggleDropdown = () => {
@@ -152,15 +180,25 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
     setDropdownVisible(false);
   };
 
+  // In-flight player data load, cancelled when a newer one starts
+  const playerDataRequest = useRef<AbortController | null>(null);
+
   // Fetch player data
-  const fetchPlayerData = async () => {
+  const fetchPlayerData = async (fetchOptions: RequestOptions = {}) => {
+    playerDataRequest.current?.abort();
+    const controller = new AbortController();
+    playerDataRequest.current = controller;
+    const options = {...fetchOptions, signal: controller.signal};
+
     try {
       setLoading(true);
       setHasSeasonData(true); // Reset before checking
       let seasonDataFound = false;
 
       // Fetch player details (this should always work - not season dependent)
-      const playerData = await api.players.getById(playerId);
+      const playerData = await primaryRequest(
+        api.players.getById(playerId, options),
+      );
       setPlayer(playerData);
 
       // Find player's team
@@ -171,11 +209,14 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
           'selectedSeason:',
           selectedSeason,
         );
-        const teamData: any = await fetchPlayerTeam(playerId);
+        const teamData = await fetchPlayerTeam(playerId, options);
         setPlayerTeam(teamData);
         console.log(teamData);
         if (teamData) seasonDataFound = true;
       } catch (err) {
+        if (isAbortError(err)) {
+          throw err;
+        }
         console.log('No team data for this season');
         setPlayerTeam(null);
       }
@@ -186,22 +227,33 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
         const wtnResult = await api.players.getWTN(
           playerId,
           seasonId ? selectedSeason : undefined,
+          options,
         );
         setWtnData(wtnResult || []);
         if (wtnResult && wtnResult.length > 0) seasonDataFound = true;
       } catch (err) {
+        if (isAbortError(err)) {
+          throw err;
+        }
         console.log('No WTN data for this season');
         setWtnData([]);
       }
 
       // Fetch player match results
       try {
-        const results: any = await fetchPlayerMatches(playerId, selectedSeason);
+        const results: any = await fetchPlayerMatches(
+          playerId,
+          selectedSeason,
+          options,
+        );
         setMatchResults(results);
         setFilteredMatches(results);
         setCalculatedStats(calculateStatsFromFilteredMatches(results));
         if (results && results.length > 0) seasonDataFound = true;
       } catch (err) {
+        if (isAbortError(err)) {
+          throw err;
+        }
         console.log('No match results for this season');
         setMatchResults([]);
         setFilteredMatches([]);
@@ -222,6 +274,7 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
         const posData = await api.players.getPositions(
           playerId,
           selectedSeason,
+          options,
         );
         setPositionsData(posData);
         if (
@@ -231,6 +284,9 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
           seasonDataFound = true;
         }
       } catch (err) {
+        if (isAbortError(err)) {
+          throw err;
+        }
         console.log('No position data for this season');
         setPositionsData(null);
       }
@@ -239,22 +295,19 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
       try {
         const rankingHistory = await api.rankings.getPlayerSinglesHistory(
           playerId,
+          10,
+          options,
         );
         console.log('Full player ranking history:', rankingHistory);
 
         if (rankingHistory && rankingHistory.length > 0) {
-          const seasonRankings = rankingHistory.filter((ranking: any) => {
-            const rankingDate = new Date(ranking.publish_date);
-            const rankingYear = rankingDate.getFullYear();
-            const rankingMonth = rankingDate.getMonth();
-
-            // Determine which season this ranking belongs to
-            const seasonYear =
-              rankingMonth >= 8 ? rankingYear : rankingYear - 1;
-            return seasonYear.toString() === selectedSeason;
-          });
+          const seasonRankings = rankingsInSeason(
+            rankingHistory,
+            selectedSeason,
+          );
 
           setPlayerRankingHistory(seasonRankings);
+          setAllRankingHistory(rankingHistory);
 
           if (seasonRankings.length > 0) {
             setPlayerRanking(seasonRankings[0]);
@@ -262,19 +315,29 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
           }
         }
       } catch (rankingErr) {
+        if (isAbortError(rankingErr)) {
+          throw rankingErr;
+        }
         console.log('No ranking data for this season');
         setPlayerRankingHistory([]);
+        setAllRankingHistory([]);
       }
 
       // Update the hasSeasonData state
       setHasSeasonData(seasonDataFound);
       setError(null);
     } catch (err) {
+      // Superseded by a newer load or the screen closed
+      if (isAbortError(err)) {
+        return;
+      }
       console.log('Error fetching player data:', err);
-      setError('Failed to load player data. Please try again.');
+      setError(err);
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      if (playerDataRequest.current === controller) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
   };
 
@@ -321,7 +384,10 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
   );
 
   // Fetch player's team
-  const fetchPlayerTeam = async (playerId: string) => {
+  const fetchPlayerTeam = async (
+    playerId: string,
+    options: RequestOptions = {},
+  ) => {
     try {
       console.log(
         '🔍 Fetching team - playerId:',
@@ -329,19 +395,29 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
         'selectedSeason:',
         selectedSeason,
       );
-      return await api.players.getTeam(playerId, selectedSeason);
+      return await api.players.getTeam(playerId, selectedSeason, options);
     } catch (err) {
+      if (isAbortError(err)) {
+        throw err;
+      }
       console.log('Error fetching player team:', err);
       return null;
     }
   };
 
   // Fetch player match results
-  const fetchPlayerMatches = async (playerId: string, season: string) => {
+  const fetchPlayerMatches = async (
+    playerId: string,
+    season: string,
+    options: RequestOptions = {},
+  ) => {
     try {
       // Use the new match results endpoint
-      return await api.players.getMatchResults(playerId, season);
+      return await api.players.getMatchResults(playerId, season, options);
     } catch (err) {
+      if (isAbortError(err)) {
+        throw err;
+      }
       console.log('Error fetching player matches:', err);
       return [];
     }
@@ -403,10 +479,10 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
     return seasons;
   };
 
-  const fetchSeasons = async () => {
+  const fetchSeasons = async (signal?: AbortSignal) => {
     try {
       setLoadingSeasons(true);
-      const seasonsResponse = await api.seasons.getAll();
+      const seasonsResponse = await api.seasons.getAll({signal});
 
       // Extract just the season names and sort them (newest first)
       const seasonNames = seasonsResponse
@@ -427,6 +503,9 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
         setSelectedSeason(seasonNames[0]);
       }
     } catch (err) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.log('Error fetching seasons:', err);
       // Fallback to generated seasons if API fails
       setSeasons(generateSeasons());
@@ -436,12 +515,18 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
   };
 
   // Initial load of data
+  // Changing player or season cancels the previous load
   useEffect(() => {
     fetchPlayerData();
   }, [playerId, selectedSeason, seasonsData]);
 
   useEffect(() => {
-    fetchSeasons();
+    const controller = new AbortController();
+    fetchSeasons(controller.signal);
+    return () => {
+      controller.abort();
+      playerDataRequest.current?.abort();
+    };
   }, []);
 
   // This function determines if a match is a dual match
@@ -449,11 +534,87 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
     return match.position > 0;
   };
 
-  // Parse team name (removed duplicate function)
-  const parseTeamName = (teamName: string) => {
-    // Remove gender designation like "(M)" or "(W)" from the end
-    const nameParts = teamName.split(/\s*\([MW]\)\s*$/);
-    return nameParts[0]; // Return the name without the gender designation
+  // Suggest teammates when the comparison picker opens
+  useEffect(() => {
+    if (!comparisonPickerVisible || !playerTeam?.team_id) {
+      return;
+    }
+
+    const controller = new AbortController();
+    api.teams
+      .getRoster(playerTeam.team_id, selectedSeason, {
+        signal: controller.signal,
+      })
+      .then(roster => {
+        setTeammates(
+          roster
+            .filter(teammate => teammate.person_id !== playerId)
+            .map(teammate => ({
+              id: teammate.person_id,
+              label: `${teammate.first_name} ${teammate.last_name}`,
+              subtitle: parseTeamName(playerTeam.team_name),
+              teamId: playerTeam.team_id,
+            })),
+        );
+      })
+      .catch(err => {
+        if (!isAbortError(err)) {
+          console.error('Error fetching teammates:', err);
+        }
+      });
+
+    return () => controller.abort();
+  }, [comparisonPickerVisible, playerTeam, selectedSeason, playerId]);
+
+  // Team names carry the gender, e.g. "Stanford (W)"
+  const playerTeamName = playerTeam?.team_name ?? '';
+  const playerGender = playerTeamName.endsWith('(W)')
+    ? 'F'
+    : playerTeamName.endsWith('(M)')
+    ? 'M'
+    : undefined;
+
+  const searchComparisonPlayers = async (
+    query: string,
+    signal: AbortSignal,
+  ) => {
+    const page = await api.players.searchPage(
+      query,
+      playerGender,
+      undefined,
+      {},
+      {signal},
+    );
+    return page.items
+      .filter(result => result.person_id !== playerId)
+      .map(result => ({
+        id: result.person_id,
+        label: `${result.first_name} ${result.last_name}`,
+        subtitle: result.team_name
+          ? parseTeamName(result.team_name)
+          : result.school_name,
+        teamId: result.team_id,
+      }));
+  };
+
+  const addComparison = async (option: ComparisonOption) => {
+    setComparisonPickerVisible(false);
+    try {
+      const rankingHistory = await api.rankings.getPlayerSinglesHistory(
+        option.id,
+        10,
+      );
+      setComparisons(current =>
+        current.some(series => series.id === option.id)
+          ? current
+          : [
+              ...current,
+              {id: option.id, label: option.label, rankingHistory},
+            ].slice(0, MAX_RANKING_SERIES - 1),
+      );
+    } catch (err) {
+      console.error('Error fetching comparison ranking history:', err);
+    }
   };
 
   // Filter and sort matches based on filters and sort order
@@ -486,9 +647,12 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
   // Handle pull-to-refresh
   const handleRefresh = () => {
     setRefreshing(true);
-    fetchPlayerData();
+    fetchPlayerData({cachePolicy: 'network-first'});
   };
 
+  // Reload once the connection comes back
+  useOnReconnect(() => fetchPlayerData({cachePolicy: 'network-first'}));
+
   // Navigate to team details
   const navigateToTeam = (teamId: string) => {
     navigation.navigate('TeamDetail', {teamId});
@@ -533,13 +697,12 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
           },
         ]}>
         <View style={styles.errorContainer}>
-          <Icon name="alert-circle" size={48} color={theme.colors.error} />
-          <Text style={styles.errorText}>{error}</Text>
-          <TouchableOpacity
-            style={styles.retryButton}
-            onPress={fetchPlayerData}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
+          <ErrorState
+            error={error}
+            isDark={isDark}
+            title="Couldn't load player"
+            onRetry={() => fetchPlayerData()}
+          />
         </View>
       </View>
     );
@@ -547,6 +710,27 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
 
   if (!player) return null;
 
+  // Season record across every match, whatever the list filter shows
+  const renderShareSummary = () => {
+    const stats = calculateStatsFromFilteredMatches(matchResults);
+    const wtnValues = getWtnValues();
+
+    return playerSummary({
+      player,
+      team: playerTeam && {id: playerTeam.team_id, name: playerTeam.team_name},
+      season: {
+        season: selectedSeason,
+        singlesWins: stats.singles_wins,
+        singlesLosses: stats.singles_losses,
+        doublesWins: stats.doubles_wins,
+        doublesLosses: stats.doubles_losses,
+        wtnSingles: wtnValues.singles,
+        wtnDoubles: wtnValues.doubles,
+        rank: playerRanking?.rank,
+      },
+    });
+  };
+
   // Render player header with avatar and info
   const renderPlayerHeader = () => {
     const wtnValues = getWtnValues();
@@ -565,6 +749,16 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
               : theme.colors.card.light,
           },
         ]}>
+        <TouchableOpacity
+          style={styles.shareButton}
+          onPress={() => setShareVisible(true)}
+          activeOpacity={0.7}>
+          <Icon
+            name="share"
+            size={20}
+            color={isDark ? theme.colors.text.dimDark : theme.colors.gray[500]}
+          />
+        </TouchableOpacity>
         <View style={styles.headerContent}>
           {/* Player Avatar */}
           {player.avatar_url ? (
@@ -661,10 +855,12 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
 
             {playerTeam && (
               <TouchableOpacity
-                onPress={() => playerTeam.id && navigateToTeam(playerTeam.id)}
+                onPress={() =>
+                  playerTeam.team_id && navigateToTeam(playerTeam.team_id)
+                }
                 style={styles.teamButton}>
-                {playerTeam.id && (
-                  <TeamLogo teamId={playerTeam.id} size="small" />
+                {playerTeam.team_id && (
+                  <TeamLogo teamId={playerTeam.team_id} size="small" />
                 )}
                 <Text
                   style={[
@@ -675,7 +871,7 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
                         : theme.colors.gray[600],
                     },
                   ]}>
-                  {playerTeam.name}
+                  {playerTeam.team_name}
                 </Text>
               </TouchableOpacity>
             )}
@@ -1437,17 +1633,45 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
   };
 
   const renderRankingHistory = () => {
-    if (!playerRankingHistory || playerRankingHistory.length === 0) {
+    // On its own the chart sticks to the selected season; comparisons show
+    // every ranking fetched so trajectories carry across seasons
+    const rankingHistory =
+      comparisons.length > 0 ? allRankingHistory : playerRankingHistory;
+    if (!rankingHistory || rankingHistory.length === 0) {
       return null;
     }
 
     return (
-      <RankingHistoryChart
-        rankingHistory={playerRankingHistory}
-        isDark={isDark}
-        theme={theme}
-        selectedSeason={selectedSeason}
-      />
+      <>
+        <RankingHistoryChart
+          rankingHistory={rankingHistory}
+          isDark={isDark}
+          theme={theme}
+          selectedSeason={selectedSeason}
+          primaryLabel={
+            player ? `${player.first_name} ${player.last_name}` : undefined
+          }
+          comparisons={comparisons}
+          onAddComparison={() => setComparisonPickerVisible(true)}
+          onRemoveComparison={id =>
+            setComparisons(current =>
+              current.filter(series => series.id !== id),
+            )
+          }
+        />
+        <ComparisonPicker
+          visible={comparisonPickerVisible}
+          onClose={() => setComparisonPickerVisible(false)}
+          title="Compare Players"
+          placeholder="Search players..."
+          search={searchComparisonPlayers}
+          suggestions={teammates}
+          suggestionsTitle="Teammates"
+          excludeIds={comparisons.map(series => series.id)}
+          onSelect={addComparison}
+          isDark={isDark}
+        />
+      </>
     );
   };
 
@@ -1484,6 +1708,13 @@ const PlayerScreen: React.FC<PlayerScreenProps> = ({route, navigation}) => {
           </>
         )}
       </ScrollView>
+
+      <ShareSheet
+        visible={shareVisible}
+        onClose={() => setShareVisible(false)}
+        summary={renderShareSummary()}
+        isDark={isDark}
+      />
     </View>
   );
 };
@@ -1517,24 +1748,6 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: theme.spacing[4],
   },
-  errorText: {
-    marginTop: theme.spacing[4],
-    fontSize: theme.typography.fontSize.base,
-    color: theme.colors.error,
-    textAlign: 'center',
-  },
-  retryButton: {
-    marginTop: theme.spacing[4],
-    paddingVertical: theme.spacing[2],
-    paddingHorizontal: theme.spacing[4],
-    backgroundColor: theme.colors.primary[500],
-    borderRadius: theme.borderRadius.md,
-  },
-  retryButtonText: {
-    color: theme.colors.white,
-    fontSize: theme.typography.fontSize.base,
-    fontWeight: '600',
-  },
 
   // Card styles
   headerCard: {
@@ -1543,6 +1756,13 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing[4],
     ...theme.shadows.md,
   },
+  shareButton: {
+    position: 'absolute',
+    top: theme.spacing[2],
+    right: theme.spacing[2],
+    padding: theme.spacing[2],
+    zIndex: 1,
+  },
   sectionCard: {
     borderRadius: theme.borderRadius.lg,
     padding: theme.spacing[4],
@@ -1,5 +1,5 @@
 // src/screens/PlayerSearchScreen.tsx
-import React, {useState, useEffect, useContext} from 'react';
+import React, {useState, useContext, useCallback} from 'react';
 import {
   View,
   Text,
@@ -17,6 +17,10 @@ import {ThemeContext} from '../../App';
 import theme from '../theme';
 import {api} from '../api';
 import TeamLogo from '../components/TeamLogo';
+import ErrorState from '../components/ErrorState';
+import {useDebouncedValue} from '../hooks/useDebouncedValue';
+import {usePagedList} from '../hooks/usePagedList';
+import type {FetchPage} from '../hooks/usePagedList';
 
 // Define navigation types
 type RootStackParamList = {
@@ -55,60 +59,32 @@ const PlayerSearchScreen: React.FC<PlayerSearchScreenProps> = ({
 
   // State management
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<PlayerSearchResult[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [searchPerformed, setSearchPerformed] = useState(false);
   const [selectedGender, setSelectedGender] = useState<string>('MALE');
 
-  // Search players using the API
-  const searchPlayers = async () => {
-    if (!searchQuery.trim() || searchQuery.trim().length < 2) {
-      setSearchResults([]);
-      setSearchPerformed(false);
-      return;
-    }
-
-    try {
-      setLoading(true);
-      setError(null);
-      const results = await api.players.search(
-        searchQuery.trim(),
-        selectedGender,
-        // '2024', // Current season
-      );
-      setSearchResults(results || []);
-      setSearchPerformed(true);
-    } catch (err) {
-      console.error('Error searching players:', err);
-      setError('Failed to search players. Please try again.');
-      setSearchResults([]);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
-
   // Debounced search - trigger search after user stops typing
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      if (searchQuery.trim().length >= 2) {
-        searchPlayers();
-      } else {
-        setSearchResults([]);
-        setSearchPerformed(false);
-      }
-    }, 500);
-
-    return () => clearTimeout(timer);
-  }, [searchQuery, selectedGender]);
-
-  // Handle refresh
-  const onRefresh = () => {
-    setRefreshing(true);
-    searchPlayers();
-  };
+  const query = useDebouncedValue(searchQuery.trim(), 500);
+  const fetchPlayerPage = useCallback<FetchPage<PlayerSearchResult>>(
+    (page, options) =>
+      api.players.searchPage(
+        query,
+        selectedGender,
+        undefined, // '2024', // Current season
+        {page},
+        options,
+      ),
+    [query, selectedGender],
+  );
+  const {
+    items: searchResults,
+    totalCount,
+    loading,
+    refreshing,
+    error,
+    loadMore,
+    refresh: onRefresh,
+    retry,
+  } = usePagedList(fetchPlayerPage, query.length >= 2);
+  const searchPerformed = query.length >= 2 && totalCount !== null;
 
   // Navigate to player details
   const handlePlayerPress = (playerId: string) => {
@@ -254,13 +230,12 @@ const PlayerSearchScreen: React.FC<PlayerSearchScreenProps> = ({
     if (error) {
       return (
         <View style={styles.centerContainer}>
-          <Icon name="alert-circle" size={48} color={theme.colors.error} />
-          <Text style={[styles.errorText, {color: theme.colors.error}]}>
-            {error}
-          </Text>
-          <TouchableOpacity style={styles.retryButton} onPress={searchPlayers}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
+          <ErrorState
+            error={error}
+            isDark={isDark}
+            title="Couldn't search players"
+            onRetry={retry}
+          />
         </View>
       );
     }
@@ -486,6 +461,33 @@ const PlayerSearchScreen: React.FC<PlayerSearchScreenProps> = ({
             tintColor={theme.colors.primary[500]}
           />
         }
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={
+          searchPerformed && searchResults.length > 0 ? (
+            <Text
+              style={[
+                styles.countText,
+                {
+                  color: isDark
+                    ? theme.colors.text.dimDark
+                    : theme.colors.gray[500],
+                },
+              ]}>
+              Showing {searchResults.length} of {totalCount} players
+            </Text>
+          ) : null
+        }
+        ListFooterComponent={
+          loading && searchResults.length > 0 ? (
+            <View style={styles.loadMoreContainer}>
+              <ActivityIndicator
+                size="small"
+                color={theme.colors.primary[500]}
+              />
+            </View>
+          ) : null
+        }
         ListEmptyComponent={renderEmptyState}
         showsVerticalScrollIndicator={false}
       />
@@ -601,6 +603,14 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: theme.colors.primary[700],
   },
+  countText: {
+    fontSize: theme.typography.fontSize.xs,
+    marginBottom: theme.spacing[2],
+  },
+  loadMoreContainer: {
+    paddingVertical: theme.spacing[4],
+    alignItems: 'center',
+  },
   centerContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -619,23 +629,6 @@ const styles = StyleSheet.create({
     marginTop: theme.spacing[2],
     maxWidth: '80%',
   },
-  errorText: {
-    fontSize: theme.typography.fontSize.base,
-    textAlign: 'center',
-    marginTop: theme.spacing[3],
-  },
-  retryButton: {
-    marginTop: theme.spacing[4],
-    backgroundColor: theme.colors.primary[500],
-    paddingVertical: theme.spacing[2],
-    paddingHorizontal: theme.spacing[4],
-    borderRadius: theme.borderRadius.md,
-  },
-  retryButtonText: {
-    color: theme.colors.white,
-    fontSize: theme.typography.fontSize.base,
-    fontWeight: '600',
-  },
 });
 
 export default PlayerSearchScreen;
@@ -1,5 +1,5 @@
 // src/screens/RankingsScreen.tsx
-import React, {useState, useEffect, useContext} from 'react';
+import React, {useState, useEffect, useContext, useMemo, useRef} from 'react';
 import {
   View,
   Text,
@@ -15,8 +15,27 @@ import {format} from 'date-fns';
 import Icon from 'react-native-vector-icons/Feather';
 import {ThemeContext} from '../../App';
 import theme from '../theme';
+import ErrorState from '../components/ErrorState';
 import {api} from '../api';
+import type {RequestOptions} from '../api';
+import cacheService from '../services/cacheService';
+import {PreferencesManager} from '../utils/preferencesManager';
 import TeamLogo from '../components/TeamLogo';
+import RankingsFilterBar from '../components/RankingsFilterBar';
+import ConferencePowerTable from '../components/ConferencePowerTable';
+import {
+  BiggestMovers,
+  DroppedOut,
+  MovementBadge,
+} from '../components/RankingMovement';
+import {
+  compareRankings,
+  previousRankingList,
+  rankingListAsOf,
+  RankedEntry,
+} from '../utils/rankingMovement';
+import {buildConferencePower} from '../utils/conferencePower';
+import {filterRankings, rankingConferences} from '../utils/rankingFilters';
 import {useNavigation} from '@react-navigation/native';
 import {StackNavigationProp} from '@react-navigation/stack';
 
@@ -82,6 +101,51 @@ type RankingsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
 type MatchFormatType = 'TEAM' | 'SINGLES' | 'DOUBLES';
 type GenderType = 'M' | 'F';
+type TeamViewType = 'list' | 'conferences';
+
+const SEARCH_PLACEHOLDERS: Record<MatchFormatType, string> = {
+  TEAM: 'Search teams...',
+  SINGLES: 'Search players or teams...',
+  DOUBLES: 'Search players, partners or teams...',
+};
+
+const DIVISIONS = [
+  {value: 'DIV1', label: 'DI'},
+  {value: 'DIV2', label: 'DII'},
+  {value: 'DIV3', label: 'DIII'},
+  {value: 'NAIA', label: 'NAIA'},
+  {value: 'JUCO', label: 'JUCO'},
+];
+
+// Rows shown per list. Lists are fetched a little further, so a row that
+// crossed the edge since last week shows its move instead of "NEW".
+const SHOWN_RANKS = 100;
+const FETCHED_RANKS = SHOWN_RANKS + 25;
+
+// The same team, player or doubles pair in every list of a format
+const rankingKey = (item: any, matchFormat: MatchFormatType): string => {
+  if (matchFormat === 'TEAM') {
+    return item.team_id;
+  } else if (matchFormat === 'SINGLES') {
+    return item.player_id;
+  }
+  return [item.player1_id, item.player2_id].sort().join('|');
+};
+
+const toRankedEntries = (
+  items: any[],
+  matchFormat: MatchFormatType,
+): RankedEntry[] =>
+  items.map(item => ({
+    key: rankingKey(item, matchFormat),
+    rank: item.rank,
+    name:
+      matchFormat === 'TEAM'
+        ? (item.team_name || '').replace(/\s*\([MW]\)\s*$/, '')
+        : matchFormat === 'SINGLES'
+        ? item.player_name
+        : `${item.player1_name} / ${item.player2_name}`,
+  }));
 
 const RankingsScreen: React.FC = () => {
   const {isDark} = useContext(ThemeContext);
@@ -90,18 +154,34 @@ const RankingsScreen: React.FC = () => {
   // State variables
   const [matchFormat, setMatchFormat] = useState<MatchFormatType>('TEAM');
   const [gender, setGender] = useState<GenderType>('M');
-  const [divisionType, setDivisionType] = useState<string>('DIV1');
+  // Unknown until the saved choice loads, so the default division isn't
+  // fetched first and then thrown away
+  const [divisionType, setDivisionType] = useState<string | null>(null);
   const [rankingLists, setRankingLists] = useState<RankingList[]>([]);
   const [selectedRankingList, setSelectedRankingList] =
     useState<RankingList | null>(null);
   const [rankings, setRankings] = useState<TeamRanking[] | PlayerRanking[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [refreshing, setRefreshing] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   const [datePickerVisible, setDatePickerVisible] = useState<boolean>(false);
   const [teamRankings, setTeamRankings] = useState<TeamRanking[]>([]);
   const [playerRankings, setPlayerRankings] = useState<PlayerRanking[]>([]);
   const [doublesRankings, setDoublesRankings] = useState<DoublesRanking[]>([]);
+  // Rankings from the list published before the selected one
+  const [previousRankings, setPreviousRankings] = useState<any[] | null>(null);
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [teamView, setTeamView] = useState<TeamViewType>('list');
+  // The same week's singles and doubles rankings, for the conference table
+  const [conferencePlayers, setConferencePlayers] = useState<{
+    singles: PlayerRanking[];
+    doubles: DoublesRanking[];
+  } | null>(null);
+  const [loadingConferencePlayers, setLoadingConferencePlayers] =
+    useState<boolean>(false);
+  const [selectedConference, setSelectedConference] = useState<string | null>(
+    null,
+  );
 
   // Format a ranking list date for display in the selector
   const formatRankingListDate = (rankingList: RankingList | null): string => {
@@ -123,17 +203,33 @@ const RankingsScreen: React.FC = () => {
   };
 
   // Fetch ranking lists based on current selections
-  const fetchRankingLists = async () => {
+  const fetchRankingLists = async (options: RequestOptions = {}) => {
+    if (!divisionType) {
+      return;
+    }
     try {
       setLoading(true);
       let lists: any = [];
 
       if (matchFormat === 'TEAM') {
-        lists = await api.rankings.getTeamRankingLists(divisionType, gender);
+        lists = await api.rankings.getTeamRankingLists(
+          divisionType,
+          gender,
+          100,
+          options,
+        );
       } else if (matchFormat === 'SINGLES') {
-        lists = await api.rankings.getSinglesRankingLists(divisionType, gender);
+        lists = await api.rankings.getSinglesRankingLists(
+          divisionType,
+          gender,
+          options,
+        );
       } else if (matchFormat === 'DOUBLES') {
-        lists = await api.rankings.getDoublesRankingLists(divisionType, gender);
+        lists = await api.rankings.getDoublesRankingLists(
+          divisionType,
+          gender,
+          options,
+        );
         console.log(lists);
       }
 
@@ -142,16 +238,21 @@ const RankingsScreen: React.FC = () => {
       // Select the most recent list by default
       if (lists.length > 0) {
         setSelectedRankingList(lists[0]);
-        await fetchRankings(lists[0].id);
+        await fetchRankings(
+          lists[0].id,
+          previousRankingList(lists, lists[0])?.id ?? null,
+          options,
+        );
       } else {
         setSelectedRankingList(null);
         setRankings([]);
+        setPreviousRankings(null);
       }
 
       setError(null);
     } catch (err) {
       console.error('Error fetching ranking lists:', err);
-      setError('Failed to load ranking lists');
+      setError(err);
       setRankingLists([]);
       setSelectedRankingList(null);
     } finally {
@@ -160,25 +261,62 @@ const RankingsScreen: React.FC = () => {
     }
   };
 
-  // Fetch rankings for the selected list
-  const fetchRankings = async (rankingListId: string) => {
+  // Request one list's rankings in the current format
+  const requestRankings = (
+    rankingListId: string,
+    options: RequestOptions = {},
+  ): Promise<any[]> => {
+    if (matchFormat === 'TEAM') {
+      return api.rankings.getTeamRankings(
+        rankingListId,
+        FETCHED_RANKS,
+        options,
+      );
+    } else if (matchFormat === 'SINGLES') {
+      return api.rankings.getSinglesRankings(
+        rankingListId,
+        FETCHED_RANKS,
+        options,
+      );
+    }
+    return api.rankings.getDoublesRankings(
+      rankingListId,
+      FETCHED_RANKS,
+      options,
+    );
+  };
+
+  // Fetch rankings for the selected list, along with the list before it so
+  // rows can show their movement
+  const fetchRankings = async (
+    rankingListId: string,
+    previousListId: string | null,
+    options: RequestOptions = {},
+  ) => {
     try {
       setLoading(true);
 
+      const [data, previous] = await Promise.all([
+        requestRankings(rankingListId, options),
+        // Movement is extra; the list still shows without it
+        previousListId
+          ? requestRankings(previousListId, options).catch(err => {
+              console.log('Error fetching previous rankings:', err);
+              return null;
+            })
+          : Promise.resolve(null),
+      ]);
+      setPreviousRankings(previous);
+
       if (matchFormat === 'TEAM') {
-        const data = await api.rankings.getTeamRankings(rankingListId);
         setTeamRankings(data);
         setPlayerRankings([]);
         setDoublesRankings([]);
       } else if (matchFormat === 'SINGLES') {
-        const data = await api.rankings.getSinglesRankings(rankingListId);
         setPlayerRankings(data);
         setTeamRankings([]);
         setDoublesRankings([]);
       } else if (matchFormat === 'DOUBLES') {
-        console.log(rankingListId);
-        const data: any = await api.rankings.getDoublesRankings(rankingListId);
-        console.log(data);
         setDoublesRankings(data);
         setTeamRankings([]);
         setPlayerRankings([]);
@@ -187,24 +325,118 @@ const RankingsScreen: React.FC = () => {
       setError(null);
     } catch (err) {
       console.error('Error fetching rankings:', err);
-      setError('Failed to load rankings');
+      setError(err);
       setTeamRankings([]);
       setPlayerRankings([]);
       setDoublesRankings([]);
+      setPreviousRankings(null);
     } finally {
       setLoading(false);
     }
   };
 
+  // Start on the division picked last time, else the one from onboarding
+  useEffect(() => {
+    PreferencesManager.getPreferences().then(prefs => {
+      setDivisionType(
+        prefs?.rankingsDivision || prefs?.preferredDivision || 'DIV1',
+      );
+    });
+  }, []);
+
+  // Fetch the singles and doubles rankings published with the selected
+  // team list
+  const fetchConferencePlayers = async (options: RequestOptions = {}) => {
+    const teamList = selectedRankingList;
+    if (!divisionType || !teamList) {
+      return;
+    }
+    try {
+      setLoadingConferencePlayers(true);
+      const [singlesLists, doublesLists] = await Promise.all([
+        api.rankings.getSinglesRankingLists(divisionType, gender, options),
+        api.rankings.getDoublesRankingLists(divisionType, gender, options),
+      ]);
+      const singlesList = rankingListAsOf(singlesLists, teamList);
+      const doublesList = rankingListAsOf(doublesLists, teamList);
+
+      const [singles, doubles] = await Promise.all([
+        singlesList
+          ? api.rankings.getSinglesRankings(singlesList.id, 100, options)
+          : Promise.resolve([]),
+        doublesList
+          ? api.rankings.getDoublesRankings(doublesList.id, 100, options)
+          : Promise.resolve([]),
+      ]);
+      setConferencePlayers({singles, doubles});
+    } catch (err) {
+      // The table still ranks conferences by their teams
+      console.error('Error fetching conference players:', err);
+      setConferencePlayers({singles: [], doubles: []});
+    } finally {
+      setLoadingConferencePlayers(false);
+    }
+  };
+
   // Initial data load
   useEffect(() => {
     fetchRankingLists();
   }, [matchFormat, gender, divisionType]);
 
+  // Player rankings are only needed once the conference table is open
+  const fetchConferencePlayersRef = useRef(fetchConferencePlayers);
+  fetchConferencePlayersRef.current = fetchConferencePlayers;
+  const selectedListId = selectedRankingList?.id;
+  useEffect(() => {
+    setConferencePlayers(null);
+    if (
+      matchFormat === 'TEAM' &&
+      teamView === 'conferences' &&
+      selectedListId
+    ) {
+      fetchConferencePlayersRef.current();
+    }
+  }, [matchFormat, teamView, selectedListId]);
+
+  // Apply fresh data when stale ranking lists or rankings finish revalidating
+  useEffect(() => {
+    const listsType = {
+      TEAM: 'teamLists',
+      SINGLES: 'singlesLists',
+      DOUBLES: 'doublesLists',
+    }[matchFormat];
+    const rankingsType = {
+      TEAM: 'team',
+      SINGLES: 'singles',
+      DOUBLES: 'doubles',
+    }[matchFormat];
+
+    return cacheService.subscribe('rankings', (params, data: any) => {
+      if (
+        params?.type === listsType &&
+        params.divisionType === divisionType &&
+        params.gender === gender
+      ) {
+        setRankingLists(data);
+      } else if (
+        params?.type === rankingsType &&
+        params.rankingId === selectedRankingList?.id
+      ) {
+        if (matchFormat === 'TEAM') {
+          setTeamRankings(data);
+        } else if (matchFormat === 'SINGLES') {
+          setPlayerRankings(data);
+        } else {
+          setDoublesRankings(data);
+        }
+      }
+    });
+  }, [matchFormat, gender, divisionType, selectedRankingList?.id]);
+
   // Handle refreshing
   const handleRefresh = () => {
     setRefreshing(true);
-    fetchRankingLists();
+    fetchRankingLists({cachePolicy: 'network-first'});
   };
 
   // Handle match format selection
@@ -217,11 +449,20 @@ const RankingsScreen: React.FC = () => {
     setGender(newGender);
   };
 
+  // Handle division selection
+  const handleDivisionChange = (division: string) => {
+    setDivisionType(division);
+    PreferencesManager.setRankingsDivision(division);
+  };
+
   // Handle ranking list selection
   const handleRankingListSelect = async (rankingList: RankingList) => {
     setSelectedRankingList(rankingList);
     setDatePickerVisible(false);
-    await fetchRankings(rankingList.id);
+    await fetchRankings(
+      rankingList.id,
+      previousRankingList(rankingLists, rankingList)?.id ?? null,
+    );
   };
 
   // Helper function to parse team names (remove gender markers)
@@ -231,6 +472,103 @@ const RankingsScreen: React.FC = () => {
     return teamName.replace(/\s*\([MW]\)\s*$/, '');
   };
 
+  const fetchedRankings: any[] =
+    matchFormat === 'TEAM'
+      ? teamRankings
+      : matchFormat === 'SINGLES'
+      ? playerRankings
+      : doublesRankings;
+  const currentRankings = useMemo(
+    () => fetchedRankings.slice(0, SHOWN_RANKS),
+    [fetchedRankings],
+  );
+
+  // Movement against the previous list, when there is one
+  const comparison = useMemo(
+    () =>
+      previousRankings
+        ? compareRankings(
+            toRankedEntries(fetchedRankings, matchFormat),
+            toRankedEntries(previousRankings, matchFormat),
+            {shownRanks: SHOWN_RANKS},
+          )
+        : null,
+    [matchFormat, fetchedRankings, previousRankings],
+  );
+
+  const conferencePower = useMemo(
+    () =>
+      buildConferencePower(
+        teamRankings.slice(0, SHOWN_RANKS),
+        conferencePlayers?.singles ?? [],
+        conferencePlayers?.doubles ?? [],
+      ),
+    [teamRankings, conferencePlayers],
+  );
+
+  const conferences = useMemo(
+    () => rankingConferences(currentRankings),
+    [currentRankings],
+  );
+  // A conference picked on another list may not be in this one
+  const activeConference =
+    selectedConference && conferences.includes(selectedConference)
+      ? selectedConference
+      : null;
+  const filtering = searchQuery.trim() !== '' || activeConference !== null;
+  const visibleRankings = filterRankings(
+    currentRankings,
+    searchQuery,
+    activeConference,
+  );
+
+  // National rank with its movement underneath, plus the rank within the
+  // filtered entries while a filter is on
+  const renderRankCell = (item: any, index: number) => (
+    <View style={styles.rankCell}>
+      <Text
+        style={[
+          styles.rankText,
+          {
+            color: isDark ? theme.colors.text.dark : theme.colors.text.light,
+          },
+        ]}>
+        {item.rank}
+      </Text>
+      {filtering && (
+        <Text
+          style={[
+            styles.subsetRankText,
+            {
+              color: isDark
+                ? theme.colors.text.dimDark
+                : theme.colors.gray[500],
+            },
+          ]}>
+          ({index + 1})
+        </Text>
+      )}
+      <MovementBadge
+        movement={comparison?.movements[rankingKey(item, matchFormat)]}
+        isDark={isDark}
+      />
+    </View>
+  );
+
+  const renderNoMatches = () => (
+    <View style={styles.noMatchesContainer}>
+      <Text
+        style={[
+          styles.emptyText,
+          {
+            color: isDark ? theme.colors.text.dimDark : theme.colors.gray[600],
+          },
+        ]}>
+        No rankings match your filters
+      </Text>
+    </View>
+  );
+
   const handleTeamPress = (teamId: string) => {
     navigation.navigate('TeamDetail', {teamId});
   };
@@ -240,7 +578,13 @@ const RankingsScreen: React.FC = () => {
   };
 
   // Render a team ranking item
-  const renderTeamRankingItem = ({item}: {item: TeamRanking}) => (
+  const renderTeamRankingItem = ({
+    item,
+    index,
+  }: {
+    item: TeamRanking;
+    index: number;
+  }) => (
     <TouchableOpacity
       style={[
         styles.rankingRow,
@@ -256,17 +600,7 @@ const RankingsScreen: React.FC = () => {
       activeOpacity={0.7}
       onPress={() => handleTeamPress(item.team_id)}>
       {/* Rank */}
-      <View style={styles.rankCell}>
-        <Text
-          style={[
-            styles.rankText,
-            {
-              color: isDark ? theme.colors.text.dark : theme.colors.text.light,
-            },
-          ]}>
-          {item.rank}
-        </Text>
-      </View>
+      {renderRankCell(item, index)}
 
       {/* Team Info */}
       <View style={styles.teamCell}>
@@ -330,7 +664,13 @@ const RankingsScreen: React.FC = () => {
   );
 
   // Render a player ranking item
-  const renderPlayerRankingItem = ({item}: {item: PlayerRanking}) => (
+  const renderPlayerRankingItem = ({
+    item,
+    index,
+  }: {
+    item: PlayerRanking;
+    index: number;
+  }) => (
     <TouchableOpacity
       style={[
         styles.rankingRow,
@@ -346,17 +686,7 @@ const RankingsScreen: React.FC = () => {
       activeOpacity={0.7}
       onPress={() => handlePlayerPress(item.player_id)}>
       {/* Rank */}
-      <View style={styles.rankCell}>
-        <Text
-          style={[
-            styles.rankText,
-            {
-              color: isDark ? theme.colors.text.dark : theme.colors.text.light,
-            },
-          ]}>
-          {item.rank}
-        </Text>
-      </View>
+      {renderRankCell(item, index)}
 
       {/* Player Info */}
       <View style={styles.teamCell}>
@@ -418,7 +748,13 @@ const RankingsScreen: React.FC = () => {
   );
 
   // Add a render function for doubles rankings
-  const renderDoublesRankingItem = ({item}: {item: DoublesRanking}) => (
+  const renderDoublesRankingItem = ({
+    item,
+    index,
+  }: {
+    item: DoublesRanking;
+    index: number;
+  }) => (
     <View
       style={[
         styles.rankingRow,
@@ -433,17 +769,7 @@ const RankingsScreen: React.FC = () => {
         },
       ]}>
       {/* Rank */}
-      <View style={styles.rankCell}>
-        <Text
-          style={[
-            styles.rankText,
-            {
-              color: isDark ? theme.colors.text.dark : theme.colors.text.light,
-            },
-          ]}>
-          {item.rank}
-        </Text>
-      </View>
+      {renderRankCell(item, index)}
 
       {/* Players & Team Info */}
       <View style={styles.teamCell}>
@@ -718,6 +1044,99 @@ const RankingsScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Division selector */}
+        <View style={styles.filterRow}>
+          <Text
+            style={[
+              styles.filterLabel,
+              {
+                color: isDark
+                  ? theme.colors.text.dimDark
+                  : theme.colors.gray[600],
+              },
+            ]}>
+            Division:
+          </Text>
+          <View style={styles.genderControl}>
+            {DIVISIONS.map(division => (
+              <TouchableOpacity
+                key={division.value}
+                style={[
+                  styles.divisionButton,
+                  divisionType === division.value && {
+                    backgroundColor: theme.colors.primary[500],
+                  },
+                ]}
+                onPress={() => handleDivisionChange(division.value)}>
+                <Text
+                  style={[
+                    styles.genderButtonText,
+                    {
+                      color:
+                        divisionType === division.value
+                          ? theme.colors.white
+                          : isDark
+                          ? theme.colors.text.dark
+                          : theme.colors.gray[700],
+                    },
+                  ]}>
+                  {division.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Team list or conference table */}
+        {matchFormat === 'TEAM' && (
+          <View style={styles.filterRow}>
+            <Text
+              style={[
+                styles.filterLabel,
+                {
+                  color: isDark
+                    ? theme.colors.text.dimDark
+                    : theme.colors.gray[600],
+                },
+              ]}>
+              View:
+            </Text>
+            <View style={styles.genderControl}>
+              {(
+                [
+                  {value: 'list', label: 'Teams'},
+                  {value: 'conferences', label: 'Conferences'},
+                ] as const
+              ).map(view => (
+                <TouchableOpacity
+                  key={view.value}
+                  style={[
+                    styles.genderButton,
+                    teamView === view.value && {
+                      backgroundColor: theme.colors.primary[500],
+                    },
+                  ]}
+                  onPress={() => setTeamView(view.value)}>
+                  <Text
+                    style={[
+                      styles.genderButtonText,
+                      {
+                        color:
+                          teamView === view.value
+                            ? theme.colors.white
+                            : isDark
+                            ? theme.colors.text.dark
+                            : theme.colors.gray[700],
+                      },
+                    ]}>
+                    {view.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Date selector */}
         <View style={styles.filterRow}>
           <Text
@@ -766,14 +1185,31 @@ const RankingsScreen: React.FC = () => {
         </View>
       </View>
 
+      {!error &&
+        currentRankings.length > 0 &&
+        !(matchFormat === 'TEAM' && teamView === 'conferences') && (
+          <RankingsFilterBar
+            query={searchQuery}
+            onQueryChange={setSearchQuery}
+            placeholder={SEARCH_PLACEHOLDERS[matchFormat]}
+            conferences={conferences}
+            selectedConference={activeConference}
+            onConferenceChange={setSelectedConference}
+            shown={visibleRankings.length}
+            total={currentRankings.length}
+            isDark={isDark}
+          />
+        )}
+
       {/* Rankings list */}
       {error ? (
         <View style={styles.errorContainer}>
-          <Icon name="alert-circle" size={48} color={theme.colors.error} />
-          <Text style={styles.errorText}>{error}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={handleRefresh}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
+          <ErrorState
+            error={error}
+            isDark={isDark}
+            title="Couldn't load rankings"
+            onRetry={handleRefresh}
+          />
         </View>
       ) : matchFormat === 'TEAM' ? (
         teamRankings.length === 0 ? (
@@ -797,9 +1233,19 @@ const RankingsScreen: React.FC = () => {
               No team rankings available
             </Text>
           </View>
+        ) : teamView === 'conferences' ? (
+          <ConferencePowerTable
+            rows={conferencePower}
+            loadingPlayers={loadingConferencePlayers}
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            onTeamPress={handleTeamPress}
+            onPlayerPress={handlePlayerPress}
+            isDark={isDark}
+          />
         ) : (
           <FlatList
-            data={teamRankings}
+            data={visibleRankings}
             keyExtractor={(item, index) => `${item.ranking_list_id}-${index}`}
             renderItem={renderTeamRankingItem}
             refreshControl={
@@ -811,68 +1257,78 @@ const RankingsScreen: React.FC = () => {
               />
             }
             ListHeaderComponent={
-              <View
-                style={[
-                  styles.listHeader,
-                  {
-                    backgroundColor: isDark
-                      ? theme.colors.card.dark
-                      : theme.colors.card.light,
-                  },
-                ]}>
-                <View style={styles.rankHeaderCell}>
-                  <Text
-                    style={[
-                      styles.columnHeaderText,
-                      {
-                        color: isDark
-                          ? theme.colors.text.dimDark
-                          : theme.colors.gray[600],
-                      },
-                    ]}>
-                    Rank
-                  </Text>
-                </View>
-                <View style={styles.teamHeaderCell}>
-                  <Text
-                    style={[
-                      styles.columnHeaderText,
-                      {
-                        color: isDark
-                          ? theme.colors.text.dimDark
-                          : theme.colors.gray[600],
-                      },
-                    ]}>
-                    Team
-                  </Text>
-                </View>
-                <View style={styles.recordHeaderCell}>
-                  <Text
-                    style={[
-                      styles.columnHeaderText,
-                      {
-                        color: isDark
-                          ? theme.colors.text.dimDark
-                          : theme.colors.gray[600],
-                      },
-                    ]}>
-                    W-L
-                  </Text>
-                </View>
-                <View style={styles.pointsHeaderCell}>
-                  <Text
-                    style={[
-                      styles.columnHeaderText,
-                      {
-                        color: isDark
-                          ? theme.colors.text.dimDark
-                          : theme.colors.gray[600],
-                      },
-                    ]}>
-                    Pts
-                  </Text>
+              <>
+                <BiggestMovers comparison={comparison} isDark={isDark} />
+                <View
+                  style={[
+                    styles.listHeader,
+                    {
+                      backgroundColor: isDark
+                        ? theme.colors.card.dark
+                        : theme.colors.card.light,
+                    },
+                  ]}>
+                  <View style={styles.rankHeaderCell}>
+                    <Text
+                      style={[
+                        styles.columnHeaderText,
+                        {
+                          color: isDark
+                            ? theme.colors.text.dimDark
+                            : theme.colors.gray[600],
+                        },
+                      ]}>
+                      Rank
+                    </Text>
+                  </View>
+                  <View style={styles.teamHeaderCell}>
+                    <Text
+                      style={[
+                        styles.columnHeaderText,
+                        {
+                          color: isDark
+                            ? theme.colors.text.dimDark
+                            : theme.colors.gray[600],
+                        },
+                      ]}>
+                      Team
+                    </Text>
+                  </View>
+                  <View style={styles.recordHeaderCell}>
+                    <Text
+                      style={[
+                        styles.columnHeaderText,
+                        {
+                          color: isDark
+                            ? theme.colors.text.dimDark
+                            : theme.colors.gray[600],
+                        },
+                      ]}>
+                      W-L
+                    </Text>
+                  </View>
+                  <View style={styles.pointsHeaderCell}>
+                    <Text
+                      style={[
+                        styles.columnHeaderText,
+                        {
+                          color: isDark
+                            ? theme.colors.text.dimDark
+                            : theme.colors.gray[600],
+                        },
+                      ]}>
+                      Pts
+                    </Text>
+                  </View>
                 </View>
-              </View>
+              </>
+            }
+            ListEmptyComponent={renderNoMatches()}
+            ListFooterComponent={
+              <DroppedOut
+                entries={comparison?.droppedOut ?? []}
+                isDark={isDark}
+              />
             }
             contentContainerStyle={{
               paddingBottom: 120, // Extra padding at bottom
@@ -903,7 +1359,7 @@ const RankingsScreen: React.FC = () => {
           </View>
         ) : (
           <FlatList
-            data={playerRankings}
+            data={visibleRankings}
             keyExtractor={(item, index) => `${item.ranking_list_id}-${index}`}
             renderItem={renderPlayerRankingItem}
             refreshControl={
@@ -915,6 +1371,119 @@ const RankingsScreen: React.FC = () => {
               />
             }
             ListHeaderComponent={
+              <>
+                <BiggestMovers comparison={comparison} isDark={isDark} />
+                <View
+                  style={[
+                    styles.listHeader,
+                    {
+                      backgroundColor: isDark
+                        ? theme.colors.card.dark
+                        : theme.colors.card.light,
+                    },
+                  ]}>
+                  <View style={styles.rankHeaderCell}>
+                    <Text
+                      style={[
+                        styles.columnHeaderText,
+                        {
+                          color: isDark
+                            ? theme.colors.text.dimDark
+                            : theme.colors.gray[600],
+                        },
+                      ]}>
+                      Rank
+                    </Text>
+                  </View>
+                  <View style={styles.teamHeaderCell}>
+                    <Text
+                      style={[
+                        styles.columnHeaderText,
+                        {
+                          color: isDark
+                            ? theme.colors.text.dimDark
+                            : theme.colors.gray[600],
+                        },
+                      ]}>
+                      Player/Team
+                    </Text>
+                  </View>
+                  <View style={styles.recordHeaderCell}>
+                    <Text
+                      style={[
+                        styles.columnHeaderText,
+                        {
+                          color: isDark
+                            ? theme.colors.text.dimDark
+                            : theme.colors.gray[600],
+                        },
+                      ]}>
+                      W-L
+                    </Text>
+                  </View>
+                  <View style={styles.pointsHeaderCell}>
+                    <Text
+                      style={[
+                        styles.columnHeaderText,
+                        {
+                          color: isDark
+                            ? theme.colors.text.dimDark
+                            : theme.colors.gray[600],
+                        },
+                      ]}>
+                      Pts
+                    </Text>
+                  </View>
+                </View>
+              </>
+            }
+            ListEmptyComponent={renderNoMatches()}
+            ListFooterComponent={
+              <DroppedOut
+                entries={comparison?.droppedOut ?? []}
+                isDark={isDark}
+              />
+            }
+            contentContainerStyle={{
+              paddingBottom: 120, // Extra padding at bottom
+            }}
+          />
+        )
+      ) : doublesRankings.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Icon
+            name="award"
+            size={48}
+            color={isDark ? theme.colors.text.dimDark : theme.colors.gray[400]}
+          />
+          <Text
+            style={[
+              styles.emptyText,
+              {
+                color: isDark
+                  ? theme.colors.text.dimDark
+                  : theme.colors.gray[600],
+              },
+            ]}>
+            No doubles rankings available
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={visibleRankings}
+          keyExtractor={(item, index) => `${item.ranking_list_id}-${index}`}
+          renderItem={renderDoublesRankingItem}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              colors={[theme.colors.primary[500]]}
+              tintColor={theme.colors.primary[500]}
+            />
+          }
+          ListHeaderComponent={
+            <>
+              <BiggestMovers comparison={comparison} isDark={isDark} />
               <View
                 style={[
                   styles.listHeader,
@@ -947,7 +1516,7 @@ const RankingsScreen: React.FC = () => {
                           : theme.colors.gray[600],
                       },
                     ]}>
-                    Player/Team
+                    Players/Team
                   </Text>
                 </View>
                 <View style={styles.recordHeaderCell}>
@@ -977,107 +1546,14 @@ const RankingsScreen: React.FC = () => {
                   </Text>
                 </View>
               </View>
-            }
-            contentContainerStyle={{
-              paddingBottom: 120, // Extra padding at bottom
-            }}
-          />
-        )
-      ) : doublesRankings.length === 0 ? (
-        <View style={styles.emptyContainer}>
-          <Icon
-            name="award"
-            size={48}
-            color={isDark ? theme.colors.text.dimDark : theme.colors.gray[400]}
-          />
-          <Text
-            style={[
-              styles.emptyText,
-              {
-                color: isDark
-                  ? theme.colors.text.dimDark
-                  : theme.colors.gray[600],
-              },
-            ]}>
-            No doubles rankings available
-          </Text>
-        </View>
-      ) : (
-        <FlatList
-          data={doublesRankings}
-          keyExtractor={(item, index) => `${item.ranking_list_id}-${index}`}
-          renderItem={renderDoublesRankingItem}
-          refreshControl={
-            <RefreshControl
-              refreshing={refreshing}
-              onRefresh={handleRefresh}
-              colors={[theme.colors.primary[500]]}
-              tintColor={theme.colors.primary[500]}
-            />
+            </>
           }
-          ListHeaderComponent={
-            <View
-              style={[
-                styles.listHeader,
-                {
-                  backgroundColor: isDark
-                    ? theme.colors.card.dark
-                    : theme.colors.card.light,
-                },
-              ]}>
-              <View style={styles.rankHeaderCell}>
-                <Text
-                  style={[
-                    styles.columnHeaderText,
-                    {
-                      color: isDark
-                        ? theme.colors.text.dimDark
-                        : theme.colors.gray[600],
-                    },
-                  ]}>
-                  Rank
-                </Text>
-              </View>
-              <View style={styles.teamHeaderCell}>
-                <Text
-                  style={[
-                    styles.columnHeaderText,
-                    {
-                      color: isDark
-                        ? theme.colors.text.dimDark
-                        : theme.colors.gray[600],
-                    },
-                  ]}>
-                  Players/Team
-                </Text>
-              </View>
-              <View style={styles.recordHeaderCell}>
-                <Text
-                  style={[
-                    styles.columnHeaderText,
-                    {
-                      color: isDark
-                        ? theme.colors.text.dimDark
-                        : theme.colors.gray[600],
-                    },
-                  ]}>
-                  W-L
-                </Text>
-              </View>
-              <View style={styles.pointsHeaderCell}>
-                <Text
-                  style={[
-                    styles.columnHeaderText,
-                    {
-                      color: isDark
-                        ? theme.colors.text.dimDark
-                        : theme.colors.gray[600],
-                    },
-                  ]}>
-                  Pts
-                </Text>
-              </View>
-            </View>
+          ListEmptyComponent={renderNoMatches()}
+          ListFooterComponent={
+            <DroppedOut
+              entries={comparison?.droppedOut ?? []}
+              isDark={isDark}
+            />
           }
           contentContainerStyle={{
             paddingBottom: 120, // Extra padding at bottom
@@ -1218,6 +1694,14 @@ const styles = StyleSheet.create({
     fontSize: theme.typography.fontSize.sm,
     fontWeight: '600',
   },
+  divisionButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: theme.spacing[2],
+    marginHorizontal: theme.spacing[0.5],
+    borderRadius: theme.borderRadius.md,
+  },
   dateSelector: {
     flex: 1,
     flexDirection: 'row',
@@ -1270,6 +1754,13 @@ const styles = StyleSheet.create({
     width: 50,
     alignItems: 'center',
   },
+  subsetRankText: {
+    fontSize: theme.typography.fontSize.xs,
+  },
+  noMatchesContainer: {
+    padding: theme.spacing[6],
+    alignItems: 'center',
+  },
   rankText: {
     fontSize: theme.typography.fontSize.base,
     fontWeight: '700',
@@ -1317,24 +1808,6 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: theme.spacing[4],
   },
-  errorText: {
-    marginTop: theme.spacing[4],
-    fontSize: theme.typography.fontSize.base,
-    color: theme.colors.error,
-    textAlign: 'center',
-  },
-  retryButton: {
-    marginTop: theme.spacing[4],
-    backgroundColor: theme.colors.primary[500],
-    paddingVertical: theme.spacing[2],
-    paddingHorizontal: theme.spacing[4],
-    borderRadius: theme.borderRadius.md,
-  },
-  retryButtonText: {
-    color: theme.colors.white,
-    fontSize: theme.typography.fontSize.base,
-    fontWeight: '600',
-  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,243 @@
+// src/screens/SettingsScreen.tsx
+import React, {useContext, useRef, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+} from 'react-native';
+import {StackNavigationProp} from '@react-navigation/stack';
+import Icon from 'react-native-vector-icons/Feather';
+import {ThemeContext} from '../../App';
+import theme from '../theme';
+import CacheInspector from '../components/CacheInspector';
+import DeveloperMenu from '../components/DeveloperMenu';
+import NotificationSettings from '../components/NotificationSettings';
+import environmentService from '../services/environmentService';
+import {BUILD_ENVIRONMENT} from '../config/environments';
+
+// Taps on the header title that unlock the developer menu
+const DEVELOPER_MENU_TAPS = 7;
+
+type RootStackParamList = {
+  MainTabs: undefined;
+  Settings: undefined;
+};
+
+interface SettingsScreenProps {
+  navigation: StackNavigationProp<RootStackParamList, 'Settings'>;
+}
+
+const SettingsScreen: React.FC<SettingsScreenProps> = ({navigation}) => {
+  const {isDark} = useContext(ThemeContext);
+  // Hidden outside debug builds, but left visible while another environment
+  // is active so there's always a way back
+  const [showDeveloperMenu, setShowDeveloperMenu] = useState<boolean>(
+    __DEV__ ||
+      environmentService.getEnvironment().name !== BUILD_ENVIRONMENT.name,
+  );
+  const titleTaps = useRef(0);
+  const demoMode = environmentService.getEnvironment().source === 'fixtures';
+
+  // Demo mode swaps every screen over to the bundled recorded season
+  const handleDemoModeChange = async (enabled: boolean) => {
+    try {
+      await environmentService.setEnvironment(
+        enabled ? 'fixtures' : BUILD_ENVIRONMENT.name,
+      );
+    } catch (error) {
+      console.error('Failed to switch demo mode:', error);
+    }
+  };
+
+  const handleTitlePress = () => {
+    titleTaps.current += 1;
+    if (titleTaps.current >= DEVELOPER_MENU_TAPS) {
+      setShowDeveloperMenu(true);
+    }
+  };
+
+  const textColor = isDark ? theme.colors.text.dark : theme.colors.text.light;
+  const dimColor = isDark ? theme.colors.text.dimDark : theme.colors.gray[500];
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: isDark
+            ? theme.colors.background.dark
+            : theme.colors.background.light,
+        },
+      ]}>
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {
+            backgroundColor: isDark
+              ? theme.colors.card.dark
+              : theme.colors.card.light,
+            borderBottomColor: isDark
+              ? theme.colors.border.dark
+              : theme.colors.border.light,
+          },
+        ]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          activeOpacity={0.7}>
+          <Icon name="arrow-left" size={24} color={textColor} />
+        </TouchableOpacity>
+        <Text
+          style={[styles.headerTitle, {color: textColor}]}
+          onPress={handleTitlePress}
+          suppressHighlighting>
+          Settings
+        </Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Demo mode */}
+        <Text style={[styles.sectionTitle, {color: dimColor}]}>DEMO</Text>
+        <View
+          style={[
+            styles.card,
+            styles.settingRow,
+            {
+              backgroundColor: isDark
+                ? theme.colors.card.dark
+                : theme.colors.card.light,
+            },
+          ]}>
+          <View style={styles.settingInfo}>
+            <Text style={[styles.settingLabel, {color: textColor}]}>
+              Demo mode
+            </Text>
+            <Text style={[styles.settingDetail, {color: dimColor}]}>
+              Browse a recorded season without a connection
+            </Text>
+          </View>
+          <Switch
+            value={demoMode}
+            onValueChange={handleDemoModeChange}
+            trackColor={{
+              false: theme.colors.gray[400],
+              true: theme.colors.primary[500],
+            }}
+          />
+        </View>
+
+        {/* Match alerts per favorite team */}
+        <Text style={[styles.sectionTitle, {color: dimColor}]}>
+          NOTIFICATIONS
+        </Text>
+        <View
+          style={[
+            styles.card,
+            {
+              backgroundColor: isDark
+                ? theme.colors.card.dark
+                : theme.colors.card.light,
+            },
+          ]}>
+          <NotificationSettings isDark={isDark} />
+        </View>
+
+        {/* Cache */}
+        <Text style={[styles.sectionTitle, {color: dimColor}]}>
+          OFFLINE DATA
+        </Text>
+        <View
+          style={[
+            styles.card,
+            {
+              backgroundColor: isDark
+                ? theme.colors.card.dark
+                : theme.colors.card.light,
+            },
+          ]}>
+          <CacheInspector isDark={isDark} />
+        </View>
+
+        {showDeveloperMenu && (
+          <>
+            <Text style={[styles.sectionTitle, {color: dimColor}]}>
+              DEVELOPER
+            </Text>
+            <View
+              style={[
+                styles.card,
+                {
+                  backgroundColor: isDark
+                    ? theme.colors.card.dark
+                    : theme.colors.card.light,
+                },
+              ]}>
+              <DeveloperMenu isDark={isDark} />
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing[4],
+    paddingTop: 60,
+    paddingBottom: 5,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: theme.spacing[2],
+    marginRight: theme.spacing[2],
+  },
+  headerTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: 'bold',
+  },
+  content: {
+    padding: theme.spacing[4],
+    paddingBottom: 80,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.xs,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    marginBottom: theme.spacing[2],
+    marginTop: theme.spacing[2],
+  },
+  card: {
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing[4],
+    marginBottom: theme.spacing[4],
+    ...theme.shadows.sm,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  settingInfo: {
+    flex: 1,
+    marginRight: theme.spacing[2],
+  },
+  settingLabel: {
+    fontSize: theme.typography.fontSize.base,
+    fontWeight: '600',
+  },
+  settingDetail: {
+    fontSize: theme.typography.fontSize.xs,
+    marginTop: 2,
+  },
+});
+
+export default SettingsScreen;
@@ -18,8 +18,23 @@ import Icon from 'react-native-vector-icons/Feather';
 import {ThemeContext} from '../../App';
 import theme from '../theme';
 import TeamLogo from '../components/TeamLogo';
-import {api, Match, Team, Player} from '../api';
-import RankingHistoryChart from '../components/RankingHistoryChart';
+import {api, isAbortError, Match, Player, Team} from '../api';
+import type {RankingHistoryEntry, RequestOptions} from '../api';
+import RankingHistoryChart, {
+  MAX_RANKING_SERIES,
+} from '../components/RankingHistoryChart';
+import ComparisonPicker, {
+  ComparisonOption,
+} from '../components/ComparisonPicker';
+import ErrorState from '../components/ErrorState';
+import {useOnReconnect} from '../hooks/useOfflineStatus';
+import {
+  primaryRequest,
+  useNotFoundFallback,
+} from '../hooks/useNotFoundFallback';
+import {useMatchScores, useTeam, useTeams} from '../hooks/useEntities';
+import {RankingSeries, rankingsInSeason} from '../utils/rankingHistory';
+import {conferenceLabel} from '../utils/rankingFilters';
 
 // Format date for display
 const formatDate = (dateString: string) => {
@@ -39,6 +54,17 @@ const formatDate = (dateString: string) => {
   }
 };
 
+const toComparisonOption = (team: Team): ComparisonOption => ({
+  id: team.id,
+  label: team.name,
+  subtitle: team.conference ? conferenceLabel(team.conference) : undefined,
+  teamId: team.id,
+});
+
+// Teams say MALE or FEMALE; the /teams filter takes M or F
+const pageGender = (team?: Team): string | undefined =>
+  team?.gender ? (team.gender === 'FEMALE' ? 'F' : 'M') : undefined;
+
 // Define navigation props
 type RootStackParamList = {
   MainTabs: undefined;
@@ -77,14 +103,24 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({
   const {isDark} = useContext(ThemeContext);
 
   // State variables
-  const [team, setTeam] = useState<Team | null>(null);
+  // Team, opponents and scores come from the shared entity store, so the
+  // header renders right away when the team was already loaded elsewhere
+  const team = useTeam(teamId);
   const [roster, setRoster] = useState<Player[]>([]);
   const [matches, setMatches] = useState<Match[]>([]);
-  const [opponentTeams, setOpponentTeams] = useState<Record<string, Team>>({});
+  const opponentTeams = useTeams(
+    matches.map(match =>
+      match.home_team_id === teamId ? match.away_team_id : match.home_team_id,
+    ),
+  );
+  const matchScores = useMatchScores(
+    matches.filter(match => match.completed).map(match => match.id),
+  );
   const [stats, setStats] = useState<TeamStats | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [refreshing, setRefreshing] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  useNotFoundFallback(error, 'team');
   const [selectedSeason, setSelectedSeason] = useState<string>('2025');
   const [seasons] = useState<string[]>([
     '2025',
@@ -93,12 +129,24 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({
     '2022',
     '2021',
   ]);
-  const [matchScores, setMatchScores] = useState<Record<string, any>>({});
   const [matchSortOrder, setMatchSortOrder] = useState('newest');
   const [teamRanking, setTeamRanking] = useState<any>(null);
   const [teamRankingHistory, setTeamRankingHistory] = useState<any[]>([]);
+  // Every ranking fetched, across seasons, for following comparisons over
+  // a season boundary
+  const [allRankingHistory, setAllRankingHistory] = useState<
+    RankingHistoryEntry[]
+  >([]);
   const [hasSeasonData, setHasSeasonData] = useState(true);
 
+  // Other teams overlaid on the ranking history chart, with every season
+  // they were fetched for
+  const [comparisons, setComparisons] = useState<RankingSeries[]>([]);
+  const [comparisonPickerVisible, setComparisonPickerVisible] = useState(false);
+  const [conferenceRivals, setConferenceRivals] = useState<ComparisonOption[]>(
+    [],
+  );
+
   // Handle season selection
   const [dropdownVisible, setDropdownVisible] = useState(false);
 
@@ -112,32 +160,29 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({
   };
 
   // Fetch team data
-  const fetchTeamData = async () => {
+  const fetchTeamData = async (options: RequestOptions = {}) => {
     try {
       setLoading(true);
 
       // Fetch team data
-      const teamData = await api.teams.getById(teamId);
+      await primaryRequest(api.teams.getById(teamId, options));
 
       try {
-        const rankingHistory = await api.rankings.getTeamRankingHistory(teamId);
+        const rankingHistory = await api.rankings.getTeamRankingHistory(
+          teamId,
+          10,
+          options,
+        );
         console.log('Full ranking history:', rankingHistory);
 
         if (rankingHistory && rankingHistory.length > 0) {
-          const seasonRankings = rankingHistory.filter((ranking: any) => {
-            const rankingDate = new Date(ranking.publish_date);
-            const rankingYear = rankingDate.getFullYear();
-            const rankingMonth = rankingDate.getMonth();
-
-            // Determine which season this ranking belongs to
-            // Tennis season typically runs from fall to spring
-            const seasonYear =
-              rankingMonth >= 8 ? rankingYear : rankingYear - 1;
-
-            return seasonYear.toString() === selectedSeason;
-          });
+          const seasonRankings = rankingsInSeason(
+            rankingHistory,
+            selectedSeason,
+          );
 
           setTeamRankingHistory(seasonRankings);
+          setAllRankingHistory(rankingHistory);
 
           // Set current ranking (most recent)
           if (seasonRankings.length > 0) {
@@ -147,23 +192,17 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({
       } catch (rankingErr) {
         console.error('Error fetching team ranking:', rankingErr);
         setTeamRankingHistory([]);
+        setAllRankingHistory([]);
       }
 
-      // Clean the team name from gender markers
-      if (teamData && teamData.name) {
-        teamData.name = cleanTeamName(teamData.name);
-      }
-
-      setTeam(teamData);
-
       // Fetch team roster for the selected season
       let rosterData = [];
       if (api.teams.getRoster) {
         // Use the getRoster method if available
-        rosterData = await api.teams.getRoster(teamId, selectedSeason);
+        rosterData = await api.teams.getRoster(teamId, selectedSeason, options);
       } else {
         // Fallback to getAll players and filter by team
-        const allPlayers = await api.players.getAll(teamId);
+        const allPlayers = await api.players.getAll(teamId, options);
         rosterData = allPlayers || [];
       }
 
@@ -173,10 +212,14 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({
       let teamMatches = [];
       if (api.matches.getAllByTeam) {
         // Use dedicated endpoint if available
-        teamMatches = await api.matches.getAllByTeam(teamId, selectedSeason);
+        teamMatches = await api.matches.getAllByTeam(
+          teamId,
+          selectedSeason,
+          options,
+        );
       } else {
         // Fallback: get all matches and filter
-        const allMatches = await api.matches.getAll();
+        const allMatches = await api.matches.getAll(undefined, options);
         teamMatches = allMatches.filter(
           match =>
             match.home_team_id === teamId || match.away_team_id === teamId,
@@ -202,49 +245,35 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({
         }
       });
 
-      // Fetch all opponent team data
-      const teamsData: Record<string, Team> = {};
-      await Promise.all(
-        Array.from(opponentIds).map(async id => {
-          try {
-            const team = await api.teams.getById(id);
-            teamsData[id] = team;
-          } catch (err) {
-            console.error(`Error fetching team ${id}:`, err);
-          }
-        }),
-      );
+      // Fetch all opponent team data in one batch request
+      try {
+        await api.batch.getTeams(Array.from(opponentIds), options);
+      } catch (err) {
+        console.error('Error fetching opponent teams:', err);
+      }
 
-      setOpponentTeams(teamsData);
       setMatches(teamMatches);
 
       // For stats, use dedicated endpoint or calculate from matches
       let statsData: any = null;
       if (api.stats && api.stats.getTeamStats) {
-        statsData = await api.stats.getTeamStats(teamId, selectedSeason);
-        // Get scores for completed matches
-        const completedMatches = teamMatches.filter(match => match.completed);
-        const scorePromises = completedMatches.map(match =>
-          api.matches.getScore(match.id),
+        statsData = await api.stats.getTeamStats(
+          teamId,
+          selectedSeason,
+          options,
+        );
+        // Get scores for completed matches in one batch request
+        await api.batch.getMatchScores(
+          teamMatches.filter(match => match.completed).map(match => match.id),
+          options,
         );
-
-        const scores = await Promise.all(scorePromises);
-
-        // Create scores map
-        const scoresMap: Record<string, any> = {};
-        completedMatches.forEach((match, index) => {
-          scoresMap[match.id] = scores[index];
-        });
-
-        // Make sure to set the match scores here
-        setMatchScores(scoresMap);
       }
 
       setStats(statsData);
       setError(null);
     } catch (err) {
       console.error('Error fetching team data:', err);
-      setError('Failed to load team data. Please try again.');
+      setError(err);
     } finally {
       setLoading(false);
       setRefreshing(false);
@@ -256,12 +285,82 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({
     fetchTeamData();
   }, [teamId, selectedSeason]);
 
+  // Suggest conference rivals the first time the comparison picker opens
+  useEffect(() => {
+    if (
+      !comparisonPickerVisible ||
+      !team?.conference ||
+      conferenceRivals.length > 0
+    ) {
+      return;
+    }
+
+    // A conference fits on one page
+    const controller = new AbortController();
+    api.teams
+      .getPage(
+        {
+          conference: team.conference,
+          gender: pageGender(team),
+          page_size: 100,
+        },
+        {signal: controller.signal},
+      )
+      .then(page => {
+        setConferenceRivals(
+          page.items
+            .filter(other => other.id !== teamId)
+            .map(toComparisonOption),
+        );
+      })
+      .catch(err => {
+        if (!isAbortError(err)) {
+          console.error('Error fetching conference rivals:', err);
+        }
+      });
+
+    return () => controller.abort();
+  }, [comparisonPickerVisible, team, teamId, conferenceRivals.length]);
+
+  const searchComparisonTeams = async (query: string, signal: AbortSignal) => {
+    const page = await api.teams.getPage(
+      {query, gender: pageGender(team)},
+      {signal},
+    );
+    return page.items
+      .filter(other => other.id !== teamId)
+      .map(toComparisonOption);
+  };
+
+  const addComparison = async (option: ComparisonOption) => {
+    setComparisonPickerVisible(false);
+    try {
+      const rankingHistory = await api.rankings.getTeamRankingHistory(
+        option.id,
+        10,
+      );
+      setComparisons(current =>
+        current.some(series => series.id === option.id)
+          ? current
+          : [
+              ...current,
+              {id: option.id, label: option.label, rankingHistory},
+            ].slice(0, MAX_RANKING_SERIES - 1),
+      );
+    } catch (err) {
+      console.error('Error fetching comparison ranking history:', err);
+    }
+  };
+
   // Handle pull-to-refresh
   const handleRefresh = () => {
     setRefreshing(true);
-    fetchTeamData();
+    fetchTeamData({cachePolicy: 'network-first'});
   };
 
+  // Reload once the connection comes back
+  useOnReconnect(() => fetchTeamData({cachePolicy: 'network-first'}));
+
   // Navigate to player details
   const navigateToPlayer = (playerId: string) => {
     navigation.navigate('PlayerDetail', {playerId});
@@ -343,7 +442,7 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({
     }
   };
 
-  if (loading && !refreshing) {
+  if (loading && !refreshing && !team) {
     return (
       <View
         style={[
@@ -384,11 +483,12 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({
           },
         ]}>
         <View style={styles.errorContainer}>
-          <Icon name="alert-circle" size={48} color={theme.colors.error} />
-          <Text style={styles.errorText}>{error}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={fetchTeamData}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
+          <ErrorState
+            error={error}
+            isDark={isDark}
+            title="Couldn't load team"
+            onRetry={() => fetchTeamData()}
+          />
         </View>
       </View>
     );
@@ -420,7 +520,7 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({
               },
             ]}>
             {teamRanking ? `#${teamRanking.rank} ` : ''}
-            {team.name}
+            {cleanTeamName(team.name)}
           </Text>
           {team.conference && (
             <Text
@@ -1072,7 +1172,7 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({
 
                 // Determine if team won and format score string
                 if (isHome) {
-                  teamWon = score.home_team_won;
+                  teamWon = score.home_team_won === true;
 
                   // Format: W, 4-2 or L, 2-4
                   if (teamWon) {
@@ -1081,7 +1181,7 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({
                     scoreDisplay = `L, ${score.home_team_score}-${score.away_team_score}`;
                   }
                 } else {
-                  teamWon = score.away_team_won;
+                  teamWon = score.away_team_won === true;
 
                   // Format: W, 4-2 or L, 2-4
                   if (teamWon) {
@@ -1243,17 +1343,47 @@ const TeamDetailScreen: React.FC<TeamDetailScreenProps> = ({
   };
 
   const renderRankingHistory = () => {
-    if (!teamRankingHistory || teamRankingHistory.length === 0) {
+    // On its own the chart sticks to the selected season; comparisons show
+    // every ranking fetched so trajectories carry across seasons
+    const rankingHistory =
+      comparisons.length > 0 ? allRankingHistory : teamRankingHistory;
+    if (!rankingHistory || rankingHistory.length === 0) {
       return null;
     }
 
     return (
-      <RankingHistoryChart
-        rankingHistory={teamRankingHistory}
-        isDark={isDark}
-        theme={theme}
-        selectedSeason={selectedSeason}
-      />
+      <>
+        <RankingHistoryChart
+          rankingHistory={rankingHistory}
+          isDark={isDark}
+          theme={theme}
+          selectedSeason={selectedSeason}
+          primaryLabel={team?.name}
+          comparisons={comparisons}
+          onAddComparison={() => setComparisonPickerVisible(true)}
+          onRemoveComparison={id =>
+            setComparisons(current =>
+              current.filter(series => series.id !== id),
+            )
+          }
+        />
+        <ComparisonPicker
+          visible={comparisonPickerVisible}
+          onClose={() => setComparisonPickerVisible(false)}
+          title="Compare Teams"
+          placeholder="Search teams..."
+          search={searchComparisonTeams}
+          suggestions={conferenceRivals}
+          suggestionsTitle={
+            team?.conference
+              ? `${conferenceLabel(team.conference)} rivals`
+              : undefined
+          }
+          excludeIds={comparisons.map(series => series.id)}
+          onSelect={addComparison}
+          isDark={isDark}
+        />
+      </>
     );
   };
 
@@ -1326,24 +1456,6 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: theme.spacing[4],
   },
-  errorText: {
-    marginTop: theme.spacing[4],
-    fontSize: theme.typography.fontSize.base,
-    color: theme.colors.error,
-    textAlign: 'center',
-  },
-  retryButton: {
-    marginTop: theme.spacing[4],
-    paddingVertical: theme.spacing[2],
-    paddingHorizontal: theme.spacing[4],
-    backgroundColor: theme.colors.primary[500],
-    borderRadius: theme.borderRadius.md,
-  },
-  retryButtonText: {
-    color: theme.colors.white,
-    fontSize: theme.typography.fontSize.base,
-    fontWeight: '600',
-  },
   headerCard: {
     borderRadius: theme.borderRadius.lg,
     padding: theme.spacing[4],
@@ -1,5 +1,5 @@
 // src/screens/TeamsScreen.tsx
-import React, {useState, useEffect, useContext} from 'react';
+import React, {useState, useContext, useCallback} from 'react';
 import {
   View,
   Text,
@@ -16,6 +16,11 @@ import {ThemeContext} from '../../App';
 import theme from '../theme';
 import {api} from '../api';
 import TeamLogo from '../components/TeamLogo';
+import ErrorState from '../components/ErrorState';
+import {useOnReconnect} from '../hooks/useOfflineStatus';
+import {useDebouncedValue} from '../hooks/useDebouncedValue';
+import {usePagedList} from '../hooks/usePagedList';
+import type {FetchPage} from '../hooks/usePagedList';
 
 // Define navigation types
 type RootStackParamList = {
@@ -49,71 +54,35 @@ const TeamsScreen: React.FC<TeamsScreenProps> = ({navigation}) => {
   const {isDark} = useContext(ThemeContext);
 
   // State management
-  const [teams, setTeams] = useState<Team[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const query = useDebouncedValue(searchQuery.trim(), 300);
 
-  // Fetch teams from API
-  const fetchTeams = async () => {
-    try {
-      setLoading(true);
-      const teamsData = await api.teams.getAll();
-      setTeams(teamsData);
-      setError(null);
-    } catch (err) {
-      console.error('Error fetching teams:', err);
-      setError('Failed to load teams. Please try again.');
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
-
-  // Initial data load
-  useEffect(() => {
-    fetchTeams();
-  }, []);
+  // Division I teams matching the search (name, conference or
+  // abbreviation), a page at a time
+  const fetchTeamPage = useCallback<FetchPage<Team>>(
+    (page, options) =>
+      api.teams.getPage({query, division: 'DIV_I', page}, options),
+    [query],
+  );
+  const {
+    items: teams,
+    totalCount,
+    loading,
+    refreshing,
+    error,
+    loadMore,
+    refresh: onRefresh,
+    retry,
+  } = usePagedList(fetchTeamPage, query.length > 0);
 
-  // Handle refresh
-  const onRefresh = () => {
-    setRefreshing(true);
-    fetchTeams();
-  };
+  // Reload once the connection comes back
+  useOnReconnect(onRefresh);
 
   // Navigate to team details
   const handleTeamPress = (teamId: string) => {
     navigation.navigate('TeamDetail', {teamId});
   };
 
-  // Filter teams based on search query and Division 1 only
-  const filteredTeams = teams.filter(team => {
-    // Only include Division I teams
-    if (team.division !== 'DIV_I') return false;
-
-    // If no search query, include all Division I teams
-    if (!searchQuery.trim()) return true;
-
-    const searchLower = searchQuery.toLowerCase();
-    const teamName = team.name?.toLowerCase() || '';
-    const teamAbbreviation = team.abbreviation?.toLowerCase() || '';
-
-    // Format conference name for search (replacing underscores with spaces)
-    const conferenceFormatted = team.conference
-      ? team.conference.replace(/_/g, ' ').toLowerCase()
-      : '';
-    const conferenceOriginal = team.conference?.toLowerCase() || '';
-
-    // Check if search term matches any of the fields
-    return (
-      teamName.includes(searchLower) ||
-      teamAbbreviation.includes(searchLower) ||
-      conferenceFormatted.includes(searchLower) ||
-      conferenceOriginal.includes(searchLower)
-    );
-  });
-
   // Format conference name for display
   const formatConferenceName = (conference?: string) => {
     return conference ? conference.replace(/_/g, ' ') : '';
@@ -229,18 +198,17 @@ const TeamsScreen: React.FC<TeamsScreenProps> = ({navigation}) => {
     if (error) {
       return (
         <View style={styles.centerContainer}>
-          <Icon name="alert-circle" size={48} color={theme.colors.error} />
-          <Text style={[styles.errorText, {color: theme.colors.error}]}>
-            {error}
-          </Text>
-          <TouchableOpacity style={styles.retryButton} onPress={fetchTeams}>
-            <Text style={styles.retryButtonText}>Retry</Text>
-          </TouchableOpacity>
+          <ErrorState
+            error={error}
+            isDark={isDark}
+            title="Couldn't load teams"
+            onRetry={retry}
+          />
         </View>
       );
     }
 
-    if (searchQuery && filteredTeams.length === 0) {
+    if (query && totalCount === 0) {
       return (
         <View style={styles.centerContainer}>
           <Icon
@@ -363,14 +331,41 @@ const TeamsScreen: React.FC<TeamsScreenProps> = ({navigation}) => {
 
       {/* Teams List */}
       <FlatList
-        data={searchQuery ? filteredTeams : []}
+        data={searchQuery ? teams : []}
         renderItem={renderTeamItem}
         keyExtractor={item => item.id}
         contentContainerStyle={[
           styles.listContent,
           // If no items and not loading, center the empty state
-          (!searchQuery || filteredTeams.length === 0) && {flex: 1},
+          (!searchQuery || teams.length === 0) && {flex: 1},
         ]}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={
+          searchQuery && totalCount ? (
+            <Text
+              style={[
+                styles.countText,
+                {
+                  color: isDark
+                    ? theme.colors.text.dimDark
+                    : theme.colors.gray[500],
+                },
+              ]}>
+              Showing {teams.length} of {totalCount} teams
+            </Text>
+          ) : null
+        }
+        ListFooterComponent={
+          loading && teams.length > 0 ? (
+            <View style={styles.loadMoreContainer}>
+              <ActivityIndicator
+                size="small"
+                color={theme.colors.primary[500]}
+              />
+            </View>
+          ) : null
+        }
         refreshControl={
           <RefreshControl
             refreshing={refreshing}
@@ -448,6 +443,14 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     fontWeight: '500',
   },
+  countText: {
+    fontSize: theme.typography.fontSize.xs,
+    marginBottom: theme.spacing[2],
+  },
+  loadMoreContainer: {
+    paddingVertical: theme.spacing[4],
+    alignItems: 'center',
+  },
   centerContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -466,23 +469,6 @@ const styles = StyleSheet.create({
     marginTop: theme.spacing[2],
     maxWidth: '80%',
   },
-  errorText: {
-    fontSize: theme.typography.fontSize.base,
-    textAlign: 'center',
-    marginTop: theme.spacing[3],
-  },
-  retryButton: {
-    marginTop: theme.spacing[4],
-    backgroundColor: theme.colors.primary[500],
-    paddingVertical: theme.spacing[2],
-    paddingHorizontal: theme.spacing[4],
-    borderRadius: theme.borderRadius.md,
-  },
-  retryButtonText: {
-    color: theme.colors.white,
-    fontSize: theme.typography.fontSize.base,
-    fontWeight: '600',
-  },
 });
 
 export default TeamsScreen;
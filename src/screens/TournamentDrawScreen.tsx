@@ -5,6 +5,7 @@ import React, {
   useContext,
   useMemo,
   useCallback,
+  useRef,
 } from 'react';
 import {
   View,
@@ -21,12 +22,21 @@ import {StackNavigationProp} from '@react-navigation/stack';
 import Icon from 'react-native-vector-icons/Feather';
 import {
   api,
+  isAbortError,
   TournamentDrawDetails,
   TournamentDraw,
   TournamentMatch,
 } from '../api';
+import type {RequestOptions} from '../api';
 import theme from '../theme';
 import {ThemeContext} from '../../App';
+import ErrorState from '../components/ErrorState';
+import ShareSheet from '../components/ShareSheet';
+import {
+  primaryRequest,
+  useNotFoundFallback,
+} from '../hooks/useNotFoundFallback';
+import {drawRoundSummary} from '../utils/shareSummaries';
 
 const {width: screenWidth, height: screenHeight} = Dimensions.get('window');
 
@@ -82,7 +92,8 @@ const TournamentDrawScreen: React.FC<TournamentDrawScreenProps> = ({
 
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  useNotFoundFallback(error, 'tournament');
   const [availableDraws, setAvailableDraws] = useState<TournamentDraw[]>([]);
   const [selectedDraw, setSelectedDraw] =
     useState<TournamentDrawDetails | null>(null);
@@ -90,21 +101,43 @@ const TournamentDrawScreen: React.FC<TournamentDrawScreenProps> = ({
   const [activeTab, setActiveTab] = useState<string>('draw');
   const [availableStages, setAvailableStages] = useState<string[]>([]);
   const [selectedStage, setSelectedStage] = useState<string>('MAIN');
+  const [shareVisible, setShareVisible] = useState(false);
+
+  // In-flight requests for the draw list and for the selected draw; each is
+  // cancelled when superseded and when the screen closes
+  const drawsRequest = useRef<AbortController | null>(null);
+  const drawDetailsRequest = useRef<AbortController | null>(null);
 
-  const fetchDrawStages = async (drawId: string) => {
+  const fetchDrawStages = async (
+    drawId: string,
+    options: RequestOptions = {},
+  ) => {
     try {
-      const stages = await api.tournaments.getDrawStages(drawId);
+      const stages = await api.tournaments.getDrawStages(drawId, options);
       setAvailableStages(stages);
       setSelectedStage(stages.includes('MAIN') ? 'MAIN' : stages[0] || '');
     } catch (err) {
+      if (isAbortError(err)) {
+        return;
+      }
       console.error('Failed to fetch draw stages:', err);
       setAvailableStages([]);
     }
   };
 
-  const fetchAvailableDraws = async () => {
+  // Resolves to false if a newer load cancelled this one
+  const fetchAvailableDraws = async (
+    fetchOptions: RequestOptions = {},
+  ): Promise<boolean> => {
+    drawsRequest.current?.abort();
+    const controller = new AbortController();
+    drawsRequest.current = controller;
+    const options = {...fetchOptions, signal: controller.signal};
+
     try {
-      const draws = await api.tournaments.getDraws(tournamentId);
+      const draws = await primaryRequest(
+        api.tournaments.getDraws(tournamentId, {}, options),
+      );
       console.log(draws);
       setAvailableDraws(draws);
 
@@ -125,23 +158,52 @@ const TournamentDrawScreen: React.FC<TournamentDrawScreenProps> = ({
 
       if (targetDraw) {
         setSelectedDrawId(targetDraw.draw_id);
-        await fetchDrawDetails(targetDraw.draw_id);
-        await fetchDrawStages(targetDraw.draw_id);
+        const completed = await fetchDrawDetails(
+          targetDraw.draw_id,
+          undefined,
+          fetchOptions,
+        );
+        if (!completed) {
+          return false;
+        }
+        await fetchDrawStages(targetDraw.draw_id, options);
       }
+      return !controller.signal.aborted;
     } catch (err) {
+      if (isAbortError(err)) {
+        return false;
+      }
       console.error('Failed to fetch available draws:', err);
-      setError('Failed to load tournament draws');
+      setError(err);
+      return true;
     }
   };
 
-  const fetchDrawDetails = async (drawId: string, stage?: string) => {
+  // Resolves to false if a newer draw selection cancelled this one
+  const fetchDrawDetails = async (
+    drawId: string,
+    stage?: string,
+    options: RequestOptions = {},
+  ): Promise<boolean> => {
+    drawDetailsRequest.current?.abort();
+    const controller = new AbortController();
+    drawDetailsRequest.current = controller;
+
     try {
-      const details = await api.tournaments.getDrawDetails(drawId, stage);
+      const details = await api.tournaments.getDrawDetails(drawId, stage, {
+        ...options,
+        signal: controller.signal,
+      });
       setSelectedDraw(details);
       setError(null);
+      return true;
     } catch (err) {
+      if (isAbortError(err)) {
+        return false;
+      }
       console.error('Failed to fetch draw details:', err);
-      setError('Failed to load draw details');
+      setError(err);
+      return true;
     }
   };
 
@@ -149,13 +211,22 @@ const TournamentDrawScreen: React.FC<TournamentDrawScreenProps> = ({
   useEffect(() => {
     const loadData = async () => {
       setLoading(true);
-      await fetchAvailableDraws();
-      setLoading(false);
+      if (await fetchAvailableDraws()) {
+        setLoading(false);
+      }
     };
     loadData();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [tournamentId, eventId, drawName]);
 
+  // Cancel anything still loading when the screen closes
+  useEffect(() => {
+    return () => {
+      drawsRequest.current?.abort();
+      drawDetailsRequest.current?.abort();
+    };
+  }, []);
+
   // Reset active tab when draw changes
   useEffect(() => {
     if (selectedDraw) {
@@ -172,13 +243,15 @@ const TournamentDrawScreen: React.FC<TournamentDrawScreenProps> = ({
     setSelectedDrawId(drawId);
     setSelectedStage(stage || '');
     setLoading(true);
-    await fetchDrawDetails(drawId, stage);
-    setLoading(false);
+    // A newer selection keeps the spinner until its own details arrive
+    if (await fetchDrawDetails(drawId, stage)) {
+      setLoading(false);
+    }
   };
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await fetchAvailableDraws();
+    await fetchAvailableDraws({cachePolicy: 'network-first'});
     setRefreshing(false);
   };
 
@@ -206,6 +279,22 @@ const TournamentDrawScreen: React.FC<TournamentDrawScreenProps> = ({
       }));
   }, [selectedDraw]);
 
+  // The furthest round with a result, so a share shows the latest news
+  const shareSummary = useMemo(() => {
+    if (!selectedDraw || rounds.length === 0) {
+      return null;
+    }
+    const round =
+      [...rounds].reverse().find(r => r.matches.some(mt => mt.winning_side)) ??
+      rounds[0];
+    return drawRoundSummary({
+      tournamentId,
+      drawName: selectedDraw.draw_name,
+      roundName: round.roundName,
+      matches: round.matches,
+    });
+  }, [tournamentId, selectedDraw, rounds]);
+
   const veryLarge = (selectedDraw?.draw_size || 0) > 64;
 
   // ---- Bracket geometry (absolute layout) ----
@@ -1243,23 +1332,12 @@ const TournamentDrawScreen: React.FC<TournamentDrawScreenProps> = ({
               : theme.colors.background.light,
           },
         ]}>
-        <Icon name="alert-circle" size={48} color={theme.colors.error} />
-        <Text
-          style={[
-            styles.errorText,
-            {color: isDark ? theme.colors.text.dark : theme.colors.text.light},
-          ]}>
-          {error}
-        </Text>
-        <TouchableOpacity
-          style={[
-            styles.retryButton,
-            {backgroundColor: theme.colors.primary[600]},
-          ]}
-          onPress={onRefresh}
-          activeOpacity={0.7}>
-          <Text style={styles.retryButtonText}>Retry</Text>
-        </TouchableOpacity>
+        <ErrorState
+          error={error}
+          isDark={isDark}
+          title="Couldn't load the draw"
+          onRetry={onRefresh}
+        />
       </View>
     );
   }
@@ -1325,6 +1403,19 @@ const TournamentDrawScreen: React.FC<TournamentDrawScreenProps> = ({
             </Text>
           )}
         </View>
+
+        {shareSummary && (
+          <TouchableOpacity
+            style={styles.shareButton}
+            onPress={() => setShareVisible(true)}
+            activeOpacity={0.7}>
+            <Icon
+              name="share"
+              size={22}
+              color={isDark ? theme.colors.text.dark : theme.colors.text.light}
+            />
+          </TouchableOpacity>
+        )}
       </View>
 
       <ScrollView
@@ -1344,6 +1435,13 @@ const TournamentDrawScreen: React.FC<TournamentDrawScreenProps> = ({
         {/* Switch between bracket and round-robin */}
         {isRoundRobin ? renderRoundRobin() : renderBracket()}
       </ScrollView>
+
+      <ShareSheet
+        visible={shareVisible}
+        onClose={() => setShareVisible(false)}
+        summary={shareSummary}
+        isDark={isDark}
+      />
     </View>
   );
 };
@@ -1361,6 +1459,7 @@ const styles = StyleSheet.create({
   },
   backButton: {padding: 8, marginRight: 8},
   headerContent: {flex: 1},
+  shareButton: {padding: 8},
   headerTitle: {fontSize: 18, fontWeight: 'bold'},
   headerSubtitle: {fontSize: 14, marginTop: 2},
   content: {flex: 1},
@@ -1444,19 +1543,6 @@ const styles = StyleSheet.create({
   emptyState: {alignItems: 'center', paddingVertical: 40},
   emptyStateText: {fontSize: 16, marginTop: 12},
   loadingText: {fontSize: 16, marginTop: 12},
-  errorText: {
-    fontSize: 16,
-    textAlign: 'center',
-    marginHorizontal: 32,
-    marginTop: 12,
-  },
-  retryButton: {
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    borderRadius: 8,
-    marginTop: 16,
-  },
-  retryButtonText: {color: 'white', fontSize: 16, fontWeight: '600'},
 
   // --- round robin styles ---
   rrCard: {
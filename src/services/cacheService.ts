@@ -1,13 +1,24 @@
 // src/services/cacheService.ts
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import traceService, {debugLog} from './traceService';
+import type {CacheOutcome} from './traceService';
 
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
   ttl: number; // Time to live in milliseconds
+  tags?: string[];
 }
 
-interface CacheConfig {
+// Bookkeeping kept for every stored entry so eviction doesn't have to read it
+interface CacheIndexRecord {
+  category: keyof CacheConfig;
+  size: number; // Serialized length of the entry
+  lastAccess: number;
+  tags?: string[];
+}
+
+export interface CacheConfig {
   rankings: number;
   tournaments: number;
   stats: number;
@@ -19,6 +30,8 @@ interface CacheConfig {
 const FIVE_HOURS = 5 * 60 * 60 * 1000; // 5 hours in milliseconds
 const TWENTY_FOUR_HOURS = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
 
+const SEVEN_DAYS = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
+
 const DEFAULT_CACHE_CONFIG: CacheConfig = {
   rankings: TWENTY_FOUR_HOURS, // Rankings update weekly
   tournaments: FIVE_HOURS,
@@ -28,26 +41,341 @@ const DEFAULT_CACHE_CONFIG: CacheConfig = {
   batch: FIVE_HOURS,
 };
 
+// Categories that serve expired entries while refreshing them in the background
+const DEFAULT_STALE_WHILE_REVALIDATE: Array<keyof CacheConfig> = [
+  'rankings',
+  'stats',
+  'matches',
+  'batch',
+];
+
+// Expired entries older than this are never served, even in stale mode
+const MAX_STALE_AGE = SEVEN_DAYS;
+
+// Storage budget; least recently used entries are evicted past either limit
+const MAX_ENTRIES = 500;
+const MAX_SIZE = 4 * 1024 * 1024; // ~4MB, under Android's 6MB AsyncStorage cap
+
+// Arrays longer than this are hashed instead of inlined into the key
+const MAX_INLINE_ARRAY_LENGTH = 10;
+
+const INDEX_PERSIST_DELAY = 1000;
+
+// Quarantine records kept for diagnostics
+const MAX_QUARANTINE_RECORDS = 50;
+
+// cache-first: serve cached data, only hitting the network on a miss
+// network-first: hit the network, falling back to any cached copy on failure
+// network-only: always hit the network; the result still refreshes the cache
+export type CachePolicy = 'cache-first' | 'network-first' | 'network-only';
+
+// Entities an entry describes (e.g. 'match:123'), fixed or derived from the
+// response, so invalidate() can drop every entry about one entity
+export type CacheTags<T> = string[] | ((data: T) => string[]);
+
+// An entry another call reads, filled from this call's response
+export interface RelatedEntry {
+  category: keyof CacheConfig;
+  params: any;
+  data: unknown;
+  tags?: string[];
+}
+
+export interface CachedCallOptions<T = unknown> {
+  policy?: CachePolicy;
+  // Return an expired entry right away and refresh it in the background.
+  // Defaults to the category's setting in DEFAULT_STALE_WHILE_REVALIDATE.
+  staleWhileRevalidate?: boolean;
+  tags?: CacheTags<T>;
+  // Stop waiting when aborted. The shared request itself is only cancelled
+  // once every caller waiting on it has aborted.
+  signal?: AbortSignal;
+  // Checks the data's shape and returns it typed, throwing if it doesn't
+  // match. Fresh data that fails isn't stored; cached data that fails is
+  // quarantined and refetched.
+  validate?: (data: unknown) => T;
+  // Other entries the fresh response also answers, e.g. one per entity in a
+  // batch response, so single-entity calls are served from the cache
+  related?: (data: T) => RelatedEntry[];
+  // Sees every response served for this call, cached or fresh, including
+  // background refreshes that finish after the caller got stale data
+  onData?: (data: T) => void;
+}
+
+// The options that travel with a request once the cache decided to fetch
+type FetchOptions<T> = Pick<
+  CachedCallOptions<T>,
+  'tags' | 'signal' | 'validate' | 'related' | 'onData'
+>;
+
+// Receives the shared request's signal, to pass on to the HTTP client
+export type CacheApiCall<T> = (signal: AbortSignal) => Promise<T>;
+
+export type CacheListener = (params: any, data: unknown) => void;
+
+export interface CacheCategoryUsage {
+  entries: number;
+  size: number;
+}
+
+// While offline, cached data is served regardless of age. oldestDataTimestamp
+// is the oldest entry served since the connection dropped.
+export interface OfflineStatus {
+  offline: boolean;
+  oldestDataTimestamp: number | null;
+}
+
+export type OfflineStatusListener = (status: OfflineStatus) => void;
+
+// An entry served from cache while offline, refreshed once we reconnect
+interface OfflineServedEntry {
+  category: keyof CacheConfig;
+  params: any;
+  apiCall: CacheApiCall<unknown>;
+  options: FetchOptions<any>;
+}
+
+// Cached entries set aside because they no longer match their schema
+export interface QuarantineRecord {
+  key: string;
+  reason: string;
+  timestamp: number;
+}
+
+// A network call shared by every caller asking for the same key
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+export interface CacheUsage {
+  categories: Record<keyof CacheConfig, CacheCategoryUsage>;
+  totalEntries: number;
+  totalSize: number;
+  maxEntries: number;
+  maxSize: number;
+  quarantined: number;
+}
+
+const createAbortError = (): Error => {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+// djb2 string hash, enough to keep long id lists out of storage keys
+const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 33 + value.charCodeAt(i)) % 4294967296;
+  }
+  return hash.toString(36);
+};
+
+// Sort object keys and collapse long arrays so equivalent params share a key
+const normalizeParams = (value: any): any => {
+  if (Array.isArray(value)) {
+    if (value.length > MAX_INLINE_ARRAY_LENGTH) {
+      const items = value
+        .map(item => JSON.stringify(normalizeParams(item)))
+        .sort()
+        .join(',');
+      return `#${hashString(items)}:${value.length}`;
+    }
+    return value.map(normalizeParams);
+  }
+
+  if (value && typeof value === 'object') {
+    const normalized: Record<string, any> = {};
+    Object.keys(value)
+      .sort()
+      .forEach(key => {
+        if (value[key] !== undefined) {
+          normalized[key] = normalizeParams(value[key]);
+        }
+      });
+    return normalized;
+  }
+
+  return value;
+};
+
 class CacheService {
   private config: CacheConfig;
   private keyPrefix = '@tennis_cache:';
+  private indexKey = '@tennis_cache_index';
+  private quarantineKey = '@tennis_cache_quarantine';
+  private index: Record<string, CacheIndexRecord> | null = null;
+  private indexLoad: Promise<Record<string, CacheIndexRecord>> | null = null;
+  private indexPersistTimer: ReturnType<typeof setTimeout> | null = null;
+  private staleCategories: Set<keyof CacheConfig>;
+  private inFlight = new Map<string, InFlightRequest>();
+  private listeners = new Map<keyof CacheConfig, Set<CacheListener>>();
+  private offline = false;
+  private oldestOfflineTimestamp: number | null = null;
+  private offlineServed = new Map<string, OfflineServedEntry>();
+  private statusListeners = new Set<OfflineStatusListener>();
+  private namespace = '';
 
-  constructor(config: Partial<CacheConfig> = {}) {
+  constructor(
+    config: Partial<CacheConfig> = {},
+    staleCategories: Array<keyof CacheConfig> = DEFAULT_STALE_WHILE_REVALIDATE,
+  ) {
     this.config = {...DEFAULT_CACHE_CONFIG, ...config};
+    this.staleCategories = new Set(staleCategories);
   }
 
   /**
    * Generate a cache key from category and parameters
    */
   private generateKey(category: string, params: any): string {
-    const paramString = JSON.stringify(params);
+    const paramString = JSON.stringify(normalizeParams(params ?? {}));
     return `${this.keyPrefix}${category}:${paramString}`;
   }
 
+  private categoryFromKey(key: string): keyof CacheConfig | null {
+    const category = key.slice(this.keyPrefix.length).split(':')[0];
+    return category in this.config ? (category as keyof CacheConfig) : null;
+  }
+
   /**
-   * Get data from cache
+   * Load the entry index from storage once per app session
    */
-  async get<T>(category: keyof CacheConfig, params: any): Promise<T | null> {
+  private loadIndex(): Promise<Record<string, CacheIndexRecord>> {
+    if (this.index) {
+      return Promise.resolve(this.index);
+    }
+    if (!this.indexLoad) {
+      const load: Promise<Record<string, CacheIndexRecord>> =
+        AsyncStorage.getItem(this.indexKey)
+          .then(stored => (stored ? JSON.parse(stored) : {}))
+          .catch(error => {
+            console.error('Cache index load error:', error);
+            return {};
+          })
+          .then(index => {
+            // Ignore a load that finished after the namespace changed
+            if (this.indexLoad === load) {
+              this.index = index;
+            }
+            return index;
+          });
+      this.indexLoad = load;
+    }
+    return this.indexLoad;
+  }
+
+  /**
+   * Write the index back to storage, batching bursts of updates
+   */
+  private persistIndex(): void {
+    if (this.indexPersistTimer) {
+      return;
+    }
+    this.indexPersistTimer = setTimeout(
+      () => this.flushIndex(),
+      INDEX_PERSIST_DELAY,
+    );
+  }
+
+  private flushIndex(): void {
+    if (this.indexPersistTimer) {
+      clearTimeout(this.indexPersistTimer);
+      this.indexPersistTimer = null;
+    }
+    AsyncStorage.setItem(this.indexKey, JSON.stringify(this.index ?? {})).catch(
+      error => console.error('Cache index save error:', error),
+    );
+  }
+
+  /**
+   * Keep entries under a separate set of keys, e.g. one per backend, so
+   * data from different environments never mixes. Requests still in flight
+   * for the previous namespace are cancelled.
+   */
+  setNamespace(namespace: string): void {
+    if (namespace === this.namespace) {
+      return;
+    }
+    if (this.indexPersistTimer) {
+      this.flushIndex();
+    }
+    this.inFlight.forEach(request => request.controller.abort());
+    this.inFlight.clear();
+    this.offlineServed.clear();
+    this.oldestOfflineTimestamp = null;
+
+    this.namespace = namespace;
+    const suffix = namespace ? `@${namespace}` : '';
+    this.keyPrefix = `@tennis_cache${suffix}:`;
+    this.indexKey = `@tennis_cache_index${suffix}`;
+    this.quarantineKey = `@tennis_cache_quarantine${suffix}`;
+    this.index = null;
+    this.indexLoad = null;
+    debugLog(`Cache namespace: ${namespace || 'default'}`);
+    this.notifyStatus();
+  }
+
+  private async touch(key: string): Promise<void> {
+    const index = await this.loadIndex();
+    if (index[key]) {
+      index[key].lastAccess = Date.now();
+      this.persistIndex();
+    }
+  }
+
+  private async removeKeys(keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+    const index = await this.loadIndex();
+    await AsyncStorage.multiRemove(keys);
+    keys.forEach(key => delete index[key]);
+    this.persistIndex();
+  }
+
+  /**
+   * Evict least recently used entries until the cache fits its budget
+   */
+  private async enforceBudget(): Promise<void> {
+    const index = await this.loadIndex();
+    const keys = Object.keys(index);
+    let totalSize = keys.reduce((sum, key) => sum + index[key].size, 0);
+    let totalEntries = keys.length;
+
+    if (totalEntries <= MAX_ENTRIES && totalSize <= MAX_SIZE) {
+      return;
+    }
+
+    const evicted: string[] = [];
+    keys
+      .sort((a, b) => index[a].lastAccess - index[b].lastAccess)
+      .some(key => {
+        if (totalEntries <= MAX_ENTRIES && totalSize <= MAX_SIZE) {
+          return true;
+        }
+        evicted.push(key);
+        totalEntries -= 1;
+        totalSize -= index[key].size;
+        return false;
+      });
+
+    debugLog(`Cache evict: ${evicted.length} entries`);
+    await this.removeKeys(evicted);
+  }
+
+  /**
+   * Read a raw cache entry. Expired entries are kept only while they can
+   * still be served stale, or indefinitely while offline. Entries failing
+   * validation are quarantined and treated as a miss.
+   */
+  private async getEntry<T>(
+    category: keyof CacheConfig,
+    params: any,
+    allowStale: boolean,
+    validate?: (data: unknown) => T,
+  ): Promise<{data: T; stale: boolean; timestamp: number} | null> {
     try {
       const key = this.generateKey(category, params);
       const cached = await AsyncStorage.getItem(key);
@@ -57,22 +385,99 @@ class CacheService {
       }
 
       const entry: CacheEntry<T> = JSON.parse(cached);
-      const now = Date.now();
+      const age = Date.now() - entry.timestamp;
+
+      if (validate) {
+        try {
+          validate(entry.data);
+        } catch (error) {
+          await this.quarantine(key, error);
+          return null;
+        }
+      }
 
       // Check if cache has expired
-      if (now - entry.timestamp > entry.ttl) {
-        await AsyncStorage.removeItem(key);
-        return null;
+      if (age > entry.ttl) {
+        if (!this.offline && (!allowStale || age > entry.ttl + MAX_STALE_AGE)) {
+          await this.removeKeys([key]);
+          return null;
+        }
+        await this.touch(key);
+        return {data: entry.data, stale: true, timestamp: entry.timestamp};
       }
 
-      console.log(`✅ Cache HIT: ${category}`, params);
-      return entry.data;
+      await this.touch(key);
+      return {data: entry.data, stale: false, timestamp: entry.timestamp};
     } catch (error) {
       console.error('Cache get error:', error);
       return null;
     }
   }
 
+  /**
+   * Remove an entry whose data no longer matches its schema (e.g. cached by
+   * an older app version) and keep a record of why
+   */
+  private async quarantine(key: string, error: unknown): Promise<void> {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.warn(`Cache quarantine: ${key} (${reason})`);
+    try {
+      await this.removeKeys([key]);
+      const records = await this.getQuarantine();
+      records.unshift({key, reason, timestamp: Date.now()});
+      await AsyncStorage.setItem(
+        this.quarantineKey,
+        JSON.stringify(records.slice(0, MAX_QUARANTINE_RECORDS)),
+      );
+    } catch (storageError) {
+      console.error('Cache quarantine error:', storageError);
+    }
+  }
+
+  /**
+   * Entries quarantined for failing validation, newest first
+   */
+  async getQuarantine(): Promise<QuarantineRecord[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.quarantineKey);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Cache quarantine load error:', error);
+      return [];
+    }
+  }
+
+  async clearQuarantine(): Promise<void> {
+    await AsyncStorage.removeItem(this.quarantineKey);
+  }
+
+  /**
+   * Read cached data regardless of age, without touching or removing it
+   */
+  async peek<T>(category: keyof CacheConfig, params: any): Promise<T | null> {
+    try {
+      const cached = await AsyncStorage.getItem(
+        this.generateKey(category, params),
+      );
+      return cached ? (JSON.parse(cached) as CacheEntry<T>).data : null;
+    } catch (error) {
+      console.error('Cache peek error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get data from cache
+   */
+  async get<T>(category: keyof CacheConfig, params: any): Promise<T | null> {
+    const entry = await this.getEntry<T>(category, params, false);
+    if (!entry) {
+      return null;
+    }
+
+    return entry.data;
+  }
+
   /**
    * Set data in cache
    */
@@ -80,6 +485,7 @@ class CacheService {
     category: keyof CacheConfig,
     params: any,
     data: T,
+    tags?: string[],
   ): Promise<void> {
     try {
       const key = this.generateKey(category, params);
@@ -87,38 +493,505 @@ class CacheService {
         data,
         timestamp: Date.now(),
         ttl: this.config[category],
+        tags,
       };
 
-      await AsyncStorage.setItem(key, JSON.stringify(entry));
-      console.log(`💾 Cache SET: ${category}`, params);
+      const serialized = JSON.stringify(entry);
+      await AsyncStorage.setItem(key, serialized);
+
+      const index = await this.loadIndex();
+      index[key] = {
+        category,
+        size: serialized.length,
+        lastAccess: Date.now(),
+        tags,
+      };
+      this.persistIndex();
+      await this.enforceBudget();
+      debugLog(`Cache set: ${category}`, params);
     } catch (error) {
       console.error('Cache set error:', error);
     }
   }
 
   /**
-   * Wrapper function to cache API calls
+   * Startup sweep: drop entries too old to serve even stale, and rebuild the
+   * index from what's actually in storage. Returns the number removed.
    */
-  async cachedCall<T>(
+  async sweep(): Promise<number> {
+    try {
+      const index = await this.loadIndex();
+      const allKeys = await AsyncStorage.getAllKeys();
+      const cacheKeys = allKeys.filter(key => key.startsWith(this.keyPrefix));
+      const stored = await AsyncStorage.multiGet(cacheKeys);
+      const now = Date.now();
+
+      const expired: string[] = [];
+      const rebuilt: Record<string, CacheIndexRecord> = {};
+      stored.forEach(([key, value]) => {
+        const category = this.categoryFromKey(key);
+        if (!value || !category) {
+          expired.push(key);
+          return;
+        }
+        try {
+          const entry: CacheEntry<unknown> = JSON.parse(value);
+          if (now - entry.timestamp > entry.ttl + MAX_STALE_AGE) {
+            expired.push(key);
+            return;
+          }
+          rebuilt[key] = {
+            category,
+            size: value.length,
+            lastAccess: index[key]?.lastAccess ?? entry.timestamp,
+            tags: entry.tags,
+          };
+        } catch {
+          expired.push(key);
+        }
+      });
+
+      if (expired.length > 0) {
+        await AsyncStorage.multiRemove(expired);
+      }
+      this.index = rebuilt;
+      this.persistIndex();
+      await this.enforceBudget();
+
+      debugLog(`Cache sweep: removed ${expired.length} entries`);
+      return expired.length;
+    } catch (error) {
+      console.error('Cache sweep error:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Storage used per category, for the cache inspector
+   */
+  async getUsage(): Promise<CacheUsage> {
+    const index = await this.loadIndex();
+    const categories = {} as Record<keyof CacheConfig, CacheCategoryUsage>;
+    (Object.keys(this.config) as Array<keyof CacheConfig>).forEach(category => {
+      categories[category] = {entries: 0, size: 0};
+    });
+
+    let totalEntries = 0;
+    let totalSize = 0;
+    Object.values(index).forEach(record => {
+      const usage = categories[record.category];
+      if (usage) {
+        usage.entries += 1;
+        usage.size += record.size;
+      }
+      totalEntries += 1;
+      totalSize += record.size;
+    });
+
+    return {
+      categories,
+      totalEntries,
+      totalSize,
+      maxEntries: MAX_ENTRIES,
+      maxSize: MAX_SIZE,
+      quarantined: (await this.getQuarantine()).length,
+    };
+  }
+
+  /**
+   * Remove every entry in one category
+   */
+  async clearCategory(category: keyof CacheConfig): Promise<void> {
+    const index = await this.loadIndex();
+    const allKeys = await AsyncStorage.getAllKeys();
+    const keys = allKeys.filter(
+      key =>
+        key.startsWith(this.keyPrefix) &&
+        (index[key]?.category ?? this.categoryFromKey(key)) === category,
+    );
+    await this.removeKeys(keys);
+    debugLog(`Cache clear: ${category} (${keys.length} entries)`);
+  }
+
+  /**
+   * Remove every entry tagged with any of the given tags. Returns the number
+   * of entries removed.
+   */
+  async invalidate(tags: string | string[]): Promise<number> {
+    const targets = new Set(Array.isArray(tags) ? tags : [tags]);
+    const index = await this.loadIndex();
+    const keys = Object.keys(index).filter(key =>
+      index[key].tags?.some(tag => targets.has(tag)),
+    );
+    await this.removeKeys(keys);
+    debugLog(
+      `Cache invalidate: ${Array.from(targets).join(', ')} (${
+        keys.length
+      } entries)`,
+    );
+    return keys.length;
+  }
+
+  /**
+   * Remove every cached entry
+   */
+  async clear(): Promise<void> {
+    const allKeys = await AsyncStorage.getAllKeys();
+    await this.removeKeys(
+      allKeys.filter(key => key.startsWith(this.keyPrefix)),
+    );
+  }
+
+  /**
+   * Subscribe to background refreshes in a category. The listener is called
+   * with the params and fresh data whenever a stale entry is revalidated.
+   */
+  subscribe(category: keyof CacheConfig, listener: CacheListener): () => void {
+    let categoryListeners = this.listeners.get(category);
+    if (!categoryListeners) {
+      categoryListeners = new Set();
+      this.listeners.set(category, categoryListeners);
+    }
+    categoryListeners.add(listener);
+
+    return () => {
+      categoryListeners?.delete(listener);
+    };
+  }
+
+  /**
+   * Switch offline mode. Going offline serves cached data of any age; coming
+   * back online refreshes everything that was served stale in the meantime.
+   */
+  setOffline(offline: boolean): void {
+    if (offline === this.offline) {
+      return;
+    }
+    this.offline = offline;
+
+    if (offline) {
+      debugLog('Cache offline');
+    } else {
+      const served = Array.from(this.offlineServed.values());
+      this.offlineServed.clear();
+      this.oldestOfflineTimestamp = null;
+      debugLog(`Cache online: refreshing ${served.length} entries`);
+      served.forEach(entry =>
+        this.revalidate(
+          entry.category,
+          entry.params,
+          entry.apiCall,
+          entry.options,
+        ),
+      );
+    }
+    this.notifyStatus();
+  }
+
+  getOfflineStatus(): OfflineStatus {
+    return {
+      offline: this.offline,
+      oldestDataTimestamp: this.oldestOfflineTimestamp,
+    };
+  }
+
+  /**
+   * Subscribe to offline mode changes and to the age of data served offline
+   */
+  subscribeOfflineStatus(listener: OfflineStatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private notifyStatus() {
+    const status = this.getOfflineStatus();
+    this.statusListeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('Cache status listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * Remember an entry served while offline: its age feeds the offline banner
+   * and stale ones are refreshed on reconnect.
+   */
+  private recordOfflineServe<T>(
+    category: keyof CacheConfig,
+    params: any,
+    apiCall: CacheApiCall<T>,
+    cached: {stale: boolean; timestamp: number},
+    options: FetchOptions<T>,
+  ): void {
+    if (cached.stale) {
+      this.offlineServed.set(this.generateKey(category, params), {
+        category,
+        params,
+        apiCall,
+        options: {
+          tags: options.tags,
+          validate: options.validate,
+          related: options.related,
+          onData: options.onData,
+        },
+      });
+    }
+    if (
+      this.oldestOfflineTimestamp === null ||
+      cached.timestamp < this.oldestOfflineTimestamp
+    ) {
+      this.oldestOfflineTimestamp = cached.timestamp;
+      this.notifyStatus();
+    }
+  }
+
+  private notify(category: keyof CacheConfig, params: any, data: unknown) {
+    this.listeners.get(category)?.forEach(listener => {
+      try {
+        listener(params, data);
+      } catch (error) {
+        console.error('Cache listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * Run an API call and store its result, sharing one pending promise per
+   * cache key so concurrent identical requests only hit the network once.
+   */
+  private fetchAndStore<T>(
     category: keyof CacheConfig,
     params: any,
-    apiCall: () => Promise<T>,
+    apiCall: CacheApiCall<T>,
+    options: FetchOptions<T> = {},
+    outcome: CacheOutcome = 'miss',
   ): Promise<T> {
-    // Try to get from cache first
-    const cached = await this.get<T>(category, params);
-    if (cached !== null) {
-      return cached;
+    const {tags, signal, validate, related} = options;
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    const key = this.generateKey(category, params);
+    let current = this.inFlight.get(key);
+    if (current) {
+      traceService.recordCacheLookup(category, 'join');
+    } else {
+      const controller = new AbortController();
+      const namespace = this.namespace;
+      // Background refreshes were already counted as the stale lookup
+      if (outcome !== 'revalidate') {
+        traceService.recordCacheLookup(category, outcome);
+      }
+      traceService.tagRequest(controller.signal, {category, cache: outcome});
+      const promise = (async () => {
+        try {
+          const response = await apiCall(controller.signal);
+          // The environment changed while this was loading
+          if (this.namespace !== namespace) {
+            throw createAbortError();
+          }
+          let data: T = response;
+          if (validate) {
+            try {
+              data = validate(response);
+            } catch (error) {
+              console.warn(
+                `Cache invalid response: ${category}`,
+                params,
+                error instanceof Error ? error.message : error,
+              );
+              throw error;
+            }
+          }
+          const resolvedTags = typeof tags === 'function' ? tags(data) : tags;
+          await this.set(category, params, data, resolvedTags);
+          if (related) {
+            await Promise.all(
+              related(data).map(entry =>
+                this.set(entry.category, entry.params, entry.data, entry.tags),
+              ),
+            );
+          }
+          return data;
+        } finally {
+          if (this.inFlight.get(key)?.controller === controller) {
+            this.inFlight.delete(key);
+          }
+        }
+      })();
+      current = {promise, controller, waiters: 0};
+      this.inFlight.set(key, current);
+    }
+
+    const shared = current;
+    shared.waiters += 1;
+    if (!signal) {
+      return shared.promise as Promise<T>;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.waiters -= 1;
+        if (shared.waiters === 0) {
+          debugLog(`Cache abort: ${category}`, params);
+          shared.controller.abort();
+          // Later callers start a fresh request instead of joining this one
+          if (this.inFlight.get(key) === shared) {
+            this.inFlight.delete(key);
+          }
+        }
+        reject(createAbortError());
+      };
+      signal.addEventListener('abort', onAbort);
+      (shared.promise as Promise<T>)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Refresh a stale entry without blocking the caller. Only one refresh
+   * runs per key at a time.
+   */
+  private revalidate<T>(
+    category: keyof CacheConfig,
+    params: any,
+    apiCall: CacheApiCall<T>,
+    options: FetchOptions<T>,
+  ): void {
+    if (this.inFlight.has(this.generateKey(category, params))) {
+      return;
     }
 
-    // If not in cache, make API call
-    console.log(`🌐 Cache MISS: ${category}`, params);
-    const data = await apiCall();
+    // Background refreshes outlive the caller, so they ignore its signal
+    this.fetchAndStore(
+      category,
+      params,
+      apiCall,
+      {
+        tags: options.tags,
+        validate: options.validate,
+        related: options.related,
+      },
+      'revalidate',
+    )
+      .then(data => {
+        this.deliver(data, options.onData);
+        this.notify(category, params, data);
+      })
+      .catch(error => {
+        console.error('Cache revalidate error:', error);
+      });
+  }
 
-    // Store in cache
-    await this.set(category, params, data);
+  /**
+   * Call the network directly, bypassing cached data. With network-first the
+   * cached copy (stale or not) is used if the request fails.
+   */
+  private async networkCall<T>(
+    category: keyof CacheConfig,
+    params: any,
+    apiCall: CacheApiCall<T>,
+    policy: CachePolicy,
+    options: FetchOptions<T>,
+  ): Promise<T> {
+    try {
+      return await this.fetchAndStore(
+        category,
+        params,
+        apiCall,
+        options,
+        'bypass',
+      );
+    } catch (error) {
+      if (policy === 'network-first' && !options.signal?.aborted) {
+        const cached = await this.getEntry<T>(
+          category,
+          params,
+          true,
+          options.validate,
+        );
+        if (cached !== null) {
+          traceService.recordCacheLookup(category, 'fallback');
+          if (this.offline) {
+            this.recordOfflineServe(category, params, apiCall, cached, options);
+          }
+          return cached.data;
+        }
+      }
+      throw error;
+    }
+  }
 
+  /**
+   * Wrapper function to cache API calls. Rejects with an AbortError once
+   * options.signal is aborted, even if the data came from the cache.
+   */
+  async cachedCall<T>(
+    category: keyof CacheConfig,
+    params: any,
+    apiCall: CacheApiCall<T>,
+    options: CachedCallOptions<T> = {},
+  ): Promise<T> {
+    const data = await this.resolveCall(category, params, apiCall, options);
+    this.deliver(data, options.onData);
+    if (options.signal?.aborted) {
+      throw createAbortError();
+    }
     return data;
   }
+
+  private deliver<T>(data: T, onData?: (data: T) => void) {
+    try {
+      onData?.(data);
+    } catch (error) {
+      console.error('Cache onData error:', error);
+    }
+  }
+
+  private async resolveCall<T>(
+    category: keyof CacheConfig,
+    params: any,
+    apiCall: CacheApiCall<T>,
+    options: CachedCallOptions<T>,
+  ): Promise<T> {
+    const policy = options.policy ?? 'cache-first';
+
+    if (policy !== 'cache-first') {
+      return this.networkCall(category, params, apiCall, policy, options);
+    }
+
+    const staleWhileRevalidate =
+      options.staleWhileRevalidate ?? this.staleCategories.has(category);
+
+    // Try to get from cache first
+    const cached = await this.getEntry<T>(
+      category,
+      params,
+      staleWhileRevalidate,
+      options.validate,
+    );
+    if (cached !== null) {
+      if (this.offline) {
+        // No point refreshing now; stale entries are refreshed on reconnect
+        traceService.recordCacheLookup(category, 'offline');
+        this.recordOfflineServe(category, params, apiCall, cached, options);
+      } else if (cached.stale) {
+        traceService.recordCacheLookup(category, 'stale');
+        this.revalidate(category, params, apiCall, options);
+      } else {
+        traceService.recordCacheLookup(category, 'hit');
+      }
+      return cached.data;
+    }
+
+    // If not in cache, make API call (or join one already in flight)
+    return this.fetchAndStore(category, params, apiCall, options);
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,291 @@
+// src/services/entityStore.ts
+// Normalized in-memory copy of every team, player, match, lineup and ranking
+// the app has loaded, keyed by id. Filled from API responses so every screen
+// shows the same data and detail screens can render before their own
+// requests finish.
+import type {
+  DoublesRanking,
+  Match,
+  MatchesWithData,
+  MatchLineup,
+  MatchScore,
+  Player,
+  PlayerRanking,
+  PlayerSearchResult,
+  PlayerTeam,
+  RankingList,
+  Team,
+  TeamRanking,
+} from '../api';
+
+export type RankingEntry = TeamRanking | PlayerRanking | DoublesRanking;
+
+type Listener = () => void;
+
+// A ranking row's team, player or pair, unique within its list
+const rankingKey = (entry: RankingEntry): string =>
+  'player1_id' in entry
+    ? `${entry.player1_id}-${entry.player2_id}`
+    : 'player_id' in entry
+    ? entry.player_id
+    : entry.team_id;
+
+// Copy only the fields that carry a value, so partial records don't blank
+// out what a fuller response already filled in
+const definedFields = <T extends object>(value: T): Partial<T> => {
+  const fields: Partial<T> = {};
+  (Object.keys(value) as Array<keyof T>).forEach(key => {
+    if (value[key] !== undefined && value[key] !== null) {
+      fields[key] = value[key];
+    }
+  });
+  return fields;
+};
+
+class EntityStore {
+  private teams = new Map<string, Team>();
+  private players = new Map<string, Player>();
+  private matches = new Map<string, Match>();
+  private scores = new Map<string, MatchScore>();
+  private lineups = new Map<string, MatchLineup[]>();
+  private playerTeamIds = new Map<string, string>();
+  private rankingLists = new Map<string, RankingList>();
+  private rankings = new Map<string, RankingEntry[]>();
+  private listeners = new Set<Listener>();
+  private version = 0;
+  private changed = false;
+  private depth = 0;
+
+  /**
+   * Merge a record into a map. Unchanged records keep their identity so
+   * components reading them don't re-render.
+   */
+  private merge<T extends object>(map: Map<string, T>, id: string, value: T) {
+    const existing = map.get(id);
+    const fields = definedFields(value);
+    if (
+      existing &&
+      (Object.keys(fields) as Array<keyof T>).every(
+        key => existing[key] === fields[key],
+      )
+    ) {
+      return;
+    }
+    map.set(id, {...existing, ...fields} as T);
+    this.changed = true;
+  }
+
+  // For records derived from another entity's response, e.g. a team name
+  // on a ranking row: only used until the entity itself is loaded
+  private fill<T extends object>(map: Map<string, T>, id: string, value: T) {
+    if (!map.has(id)) {
+      map.set(id, value);
+      this.changed = true;
+    }
+  }
+
+  private replace<T>(map: Map<string, T>, id: string, value: T) {
+    if (map.get(id) !== value) {
+      map.set(id, value);
+      this.changed = true;
+    }
+  }
+
+  /**
+   * Apply a batch of updates and notify subscribers once
+   */
+  private update(apply: () => void) {
+    this.depth += 1;
+    try {
+      apply();
+    } finally {
+      this.depth -= 1;
+    }
+    if (this.depth > 0 || !this.changed) {
+      return;
+    }
+    this.changed = false;
+    this.version += 1;
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Entity store listener error:', error);
+      }
+    });
+  }
+
+  putTeams = (teams: Team[]) =>
+    this.update(() => {
+      teams.forEach(team => this.merge(this.teams, team.id, team));
+    });
+
+  putPlayers = (players: Player[]) =>
+    this.update(() => {
+      players.forEach(player =>
+        this.merge(this.players, player.person_id, player),
+      );
+    });
+
+  putMatches = (matches: Match[]) =>
+    this.update(() => {
+      matches.forEach(match => this.merge(this.matches, match.id, match));
+    });
+
+  putScores = (scores: Record<string, MatchScore>) =>
+    this.update(() => {
+      Object.entries(scores).forEach(([matchId, score]) =>
+        this.merge(this.scores, matchId, score),
+      );
+    });
+
+  putLineup = (matchId: string, lineup: MatchLineup[]) =>
+    this.update(() => this.replace(this.lineups, matchId, lineup));
+
+  putMatchesWithData = (data: MatchesWithData) =>
+    this.update(() => {
+      this.putMatches(data.matches);
+      this.putTeams(Object.values(data.teams));
+      this.putScores(data.scores);
+    });
+
+  putPlayerTeam = (playerId: string, team: PlayerTeam) =>
+    this.update(() => {
+      this.replace(this.playerTeamIds, playerId, team.team_id);
+      this.fill(this.teams, team.team_id, {
+        id: team.team_id,
+        name: team.team_name,
+        abbreviation: team.abbreviation,
+        conference: team.conference,
+        gender: team.gender,
+      });
+    });
+
+  putSearchResults = (results: PlayerSearchResult[]) =>
+    this.update(() => {
+      results.forEach(result => {
+        this.merge(this.players, result.person_id, {
+          person_id: result.person_id,
+          tennis_id: result.tennis_id,
+          first_name: result.first_name,
+          last_name: result.last_name,
+          avatar_url: result.avatar_url,
+        });
+        if (result.team_id) {
+          this.replace(this.playerTeamIds, result.person_id, result.team_id);
+          this.fill(this.teams, result.team_id, {
+            id: result.team_id,
+            name: result.team_name ?? '',
+            conference: result.conference,
+            division: result.division,
+            gender: result.gender,
+          });
+        }
+      });
+    });
+
+  putRankingLists = (lists: RankingList[]) =>
+    this.update(() => {
+      lists.forEach(list => this.merge(this.rankingLists, list.id, list));
+    });
+
+  putRankings = (entries: RankingEntry[]) =>
+    this.update(() => {
+      if (entries.length === 0) {
+        return;
+      }
+      // Fetches with different limits return the top of the same list, so a
+      // shorter one updates the rows it has and keeps the rest
+      const listId = entries[0].ranking_list_id;
+      const rows = new Map(
+        (this.rankings.get(listId) ?? []).map(entry => [
+          rankingKey(entry),
+          entry,
+        ]),
+      );
+      entries.forEach(entry => rows.set(rankingKey(entry), entry));
+      this.replace(
+        this.rankings,
+        listId,
+        Array.from(rows.values()).sort((a, b) => a.rank - b.rank),
+      );
+      entries.forEach(entry =>
+        this.fill(this.teams, entry.team_id, {
+          id: entry.team_id,
+          name: entry.team_name,
+          conference: entry.conference,
+        }),
+      );
+    });
+
+  getTeam(id: string): Team | undefined {
+    return this.teams.get(id);
+  }
+
+  getPlayer(id: string): Player | undefined {
+    return this.players.get(id);
+  }
+
+  getMatch(id: string): Match | undefined {
+    return this.matches.get(id);
+  }
+
+  getScore(matchId: string): MatchScore | undefined {
+    return this.scores.get(matchId);
+  }
+
+  getLineup(matchId: string): MatchLineup[] | undefined {
+    return this.lineups.get(matchId);
+  }
+
+  getPlayerTeam(playerId: string): Team | undefined {
+    const teamId = this.playerTeamIds.get(playerId);
+    return teamId ? this.teams.get(teamId) : undefined;
+  }
+
+  getRankingList(id: string): RankingList | undefined {
+    return this.rankingLists.get(id);
+  }
+
+  getRankings(listId: string): RankingEntry[] | undefined {
+    return this.rankings.get(listId);
+  }
+
+  // Increases on every change, for hooks that read several entities
+  getVersion(): number {
+    return this.version;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Forget everything, e.g. after switching to another backend
+   */
+  clear(): void {
+    this.update(() => {
+      [
+        this.teams,
+        this.players,
+        this.matches,
+        this.scores,
+        this.lineups,
+        this.playerTeamIds,
+        this.rankingLists,
+        this.rankings,
+      ].forEach((map: Map<string, unknown>) => {
+        if (map.size > 0) {
+          map.clear();
+          this.changed = true;
+        }
+      });
+    });
+  }
+}
+
+export const entityStore = new EntityStore();
+export default entityStore;
@@ -0,0 +1,91 @@
+// src/services/environmentService.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import cacheService from './cacheService';
+import {debugLog} from './traceService';
+import entityStore from './entityStore';
+import {
+  BUILD_ENVIRONMENT,
+  ENVIRONMENTS,
+  isEnvironmentAvailable,
+  isEnvironmentName,
+} from '../config/environments';
+import type {Environment, EnvironmentName} from '../config/environments';
+
+export type EnvironmentListener = (environment: Environment) => void;
+
+// Production keeps the original cache keys so existing caches stay valid
+const cacheNamespaceFor = (environment: Environment): string =>
+  environment.name === 'production' ? '' : environment.name;
+
+class EnvironmentService {
+  private storageKey = '@tennis_environment';
+  private current: Environment = BUILD_ENVIRONMENT;
+  private listeners = new Set<EnvironmentListener>();
+
+  getEnvironment(): Environment {
+    return this.current;
+  }
+
+  /**
+   * Apply the environment picked in the developer menu, if any. Call once
+   * on launch before the first request.
+   */
+  async load(): Promise<Environment> {
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey);
+      if (
+        isEnvironmentName(stored) &&
+        isEnvironmentAvailable(ENVIRONMENTS[stored])
+      ) {
+        this.apply(ENVIRONMENTS[stored]);
+      } else {
+        this.apply(BUILD_ENVIRONMENT);
+      }
+    } catch (error) {
+      console.error('Environment load error:', error);
+    }
+    return this.current;
+  }
+
+  /**
+   * Switch environments at runtime and remember the choice across launches
+   */
+  async setEnvironment(name: EnvironmentName): Promise<void> {
+    const environment = ENVIRONMENTS[name];
+    if (!isEnvironmentAvailable(environment)) {
+      throw new Error(`${environment.label} is not available in this build`);
+    }
+    if (name === BUILD_ENVIRONMENT.name) {
+      await AsyncStorage.removeItem(this.storageKey);
+    } else {
+      await AsyncStorage.setItem(this.storageKey, name);
+    }
+    if (name !== this.current.name) {
+      this.apply(environment);
+    }
+  }
+
+  subscribe(listener: EnvironmentListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private apply(environment: Environment) {
+    this.current = environment;
+    cacheService.setNamespace(cacheNamespaceFor(environment));
+    entityStore.clear();
+    debugLog(`Environment: ${environment.label}`);
+    this.listeners.forEach(listener => {
+      try {
+        listener(environment);
+      } catch (error) {
+        console.error('Environment listener error:', error);
+      }
+    });
+  }
+}
+
+export const environmentService = new EnvironmentService();
+export default environmentService;
@@ -0,0 +1,448 @@
+// src/services/notificationService.ts
+// Local notifications for the favorite teams' matches: a reminder before
+// each match starts, and the final score once a match we saw in progress
+// or upcoming is completed. Everything is derived from the teams'
+// schedules; there are no push notifications.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import notifee, {
+  AndroidImportance,
+  AuthorizationStatus,
+  EventType,
+  TriggerType,
+} from '@notifee/react-native';
+import type {Event} from '@notifee/react-native';
+import BackgroundFetch from 'react-native-background-fetch';
+import {api, isAbortError} from '../api';
+import type {Match, Team} from '../api';
+import cacheService from './cacheService';
+import {debugLog} from './traceService';
+import environmentService from './environmentService';
+import {PreferencesManager} from '../utils/preferencesManager';
+import {getCurrentSeason} from '../utils/season';
+
+export type NotificationEvent = 'start' | 'result';
+
+// Which events a favorite team notifies about
+export type TeamNotificationSettings = Record<NotificationEvent, boolean>;
+
+export interface MatchAlert {
+  id: string;
+  event: NotificationEvent;
+  matchId: string;
+  teamId: string;
+  title: string;
+  body: string;
+  timestamp: number; // When the alert fired
+  read: boolean;
+}
+
+export type NotificationSync = 'launch' | 'foreground' | 'background';
+
+type AlertListener = (alerts: MatchAlert[]) => void;
+
+// A scheduled start reminder, moved to the history once it has fired
+interface ScheduledAlert extends Omit<MatchAlert, 'id' | 'read'> {}
+
+interface WatchState {
+  // Upcoming or in-progress matches, by id, waiting for a final score
+  pending: Record<string, string>;
+  scheduled: Record<string, ScheduledAlert>;
+}
+
+export const DEFAULT_TEAM_SETTINGS: TeamNotificationSettings = {
+  start: true,
+  result: true,
+};
+
+// How long before the start the reminder fires
+export const START_REMINDER_MINUTES = 30;
+
+// Alerts kept in the notification center
+const MAX_ALERTS = 100;
+
+const CHANNEL_ID = 'matches';
+
+const formatTeamName = (team?: Team): string =>
+  team ? team.name.replace(/\s*\((M|W)\)$/, '') : 'TBD';
+
+// A TBD match only has a start date, which is midnight UTC, so it gets no
+// start reminder
+const startTimeOf = (match: Match): number | null =>
+  match.scheduled_time ? new Date(match.scheduled_time).getTime() : null;
+
+class NotificationService {
+  private settingsKey = '@tennis_notification_settings';
+  private alertsKey = '@tennis_notification_alerts';
+  private watchKey = '@tennis_notification_watch';
+  private alerts: MatchAlert[] | null = null;
+  private listeners = new Set<AlertListener>();
+  private syncing: Promise<void> | null = null;
+
+  /**
+   * Ask for permission, set up the Android channel and the background
+   * check. Call once on launch, after the environment has loaded.
+   */
+  async initialize(): Promise<void> {
+    try {
+      const settings = await notifee.requestPermission();
+      if (settings.authorizationStatus === AuthorizationStatus.DENIED) {
+        debugLog('Notifications are turned off for this app');
+      }
+      await notifee.createChannel({
+        id: CHANNEL_ID,
+        name: 'Match alerts',
+        importance: AndroidImportance.HIGH,
+      });
+      await BackgroundFetch.configure(
+        {
+          minimumFetchInterval: 15,
+          stopOnTerminate: false,
+          startOnBoot: true,
+          enableHeadless: true,
+          requiredNetworkType: BackgroundFetch.NETWORK_TYPE_ANY,
+        },
+        async taskId => {
+          await this.sync('background');
+          BackgroundFetch.finish(taskId);
+        },
+        taskId => BackgroundFetch.finish(taskId),
+      );
+    } catch (error) {
+      console.error('Notification setup error:', error);
+    }
+  }
+
+  async getTeamSettings(): Promise<Record<string, TeamNotificationSettings>> {
+    try {
+      const stored = await AsyncStorage.getItem(this.settingsKey);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Failed to load notification settings:', error);
+      return {};
+    }
+  }
+
+  async getSettingsFor(teamId: string): Promise<TeamNotificationSettings> {
+    const settings = await this.getTeamSettings();
+    return {...DEFAULT_TEAM_SETTINGS, ...settings[teamId]};
+  }
+
+  /**
+   * Change which events a team notifies about. Reminders already scheduled
+   * are updated right away.
+   */
+  async setSettingsFor(
+    teamId: string,
+    settings: TeamNotificationSettings,
+  ): Promise<void> {
+    const allSettings = await this.getTeamSettings();
+    allSettings[teamId] = settings;
+    await AsyncStorage.setItem(this.settingsKey, JSON.stringify(allSettings));
+    await this.sync('foreground');
+  }
+
+  /**
+   * Schedule start reminders for the favorites' upcoming matches and post
+   * results for matches that finished since the last check
+   */
+  sync(reason: NotificationSync): Promise<void> {
+    // Overlapping triggers share one check
+    if (!this.syncing) {
+      this.syncing = this.runSync(reason).finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  async getAlerts(): Promise<MatchAlert[]> {
+    if (!this.alerts) {
+      try {
+        const stored = await AsyncStorage.getItem(this.alertsKey);
+        this.alerts = stored ? JSON.parse(stored) : [];
+      } catch (error) {
+        console.error('Failed to load alerts:', error);
+        this.alerts = [];
+      }
+    }
+    return this.alerts ?? [];
+  }
+
+  async markRead(alertId: string): Promise<void> {
+    const alerts = await this.getAlerts();
+    await this.saveAlerts(
+      alerts.map(alert =>
+        alert.id === alertId ? {...alert, read: true} : alert,
+      ),
+    );
+  }
+
+  async markAllRead(): Promise<void> {
+    const alerts = await this.getAlerts();
+    await this.saveAlerts(alerts.map(alert => ({...alert, read: true})));
+  }
+
+  async clearAlerts(): Promise<void> {
+    await this.saveAlerts([]);
+    await notifee.cancelDisplayedNotifications();
+  }
+
+  /**
+   * Notification events from notifee, in the foreground or background.
+   * Notification ids match alert ids, so opening one marks it read.
+   */
+  async handleEvent({type, detail}: Event): Promise<void> {
+    if (type === EventType.PRESS && detail.notification?.id) {
+      await this.markRead(detail.notification.id);
+    }
+  }
+
+  subscribe(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async runSync(reason: NotificationSync): Promise<void> {
+    if (cacheService.getOfflineStatus().offline) {
+      return;
+    }
+    try {
+      const prefs = await PreferencesManager.getPreferences();
+      const favoriteTeams: string[] = prefs?.favoriteTeams ?? [];
+      const settings = await this.getTeamSettings();
+      const watch = await this.loadWatch();
+      const now = Date.now();
+
+      // Start reminders that fired since the last check join the history
+      const fired = Object.entries(watch.scheduled).filter(
+        ([, alert]) => alert.timestamp <= now,
+      );
+      fired.forEach(([matchId]) => delete watch.scheduled[matchId]);
+      if (fired.length > 0) {
+        await this.addAlerts(fired.map(([, alert]) => alert));
+      }
+
+      const season = getCurrentSeason();
+      const schedules = await Promise.all(
+        favoriteTeams.map(async teamId => {
+          try {
+            const matches = await api.matches.getAllByTeam(teamId, season, {
+              cachePolicy: 'network-first',
+            });
+            return {teamId, matches};
+          } catch (error) {
+            if (!isAbortError(error)) {
+              console.error(`Failed to check ${teamId}'s schedule:`, error);
+            }
+            return {teamId, matches: null};
+          }
+        }),
+      );
+      // Teams whose schedule didn't load keep what was watched before
+      const unchecked = new Set(
+        schedules
+          .filter(({matches}) => matches === null)
+          .map(({teamId}) => teamId),
+      );
+
+      // A match between two favorites is announced once, for the first
+      const matchTeams = new Map<string, {match: Match; teamId: string}>();
+      schedules.forEach(({teamId, matches}) =>
+        matches?.forEach(match => {
+          if (!matchTeams.has(match.id)) {
+            matchTeams.set(match.id, {match, teamId});
+          }
+        }),
+      );
+      const teams = await api.batch.getTeams(
+        Array.from(
+          new Set(
+            Array.from(matchTeams.values()).flatMap(({match}) =>
+              [match.home_team_id, match.away_team_id].filter(
+                (id): id is string => !!id,
+              ),
+            ),
+          ),
+        ),
+      );
+
+      const reminders: ScheduledAlert[] = Object.values(watch.scheduled).filter(
+        ({teamId}) => unchecked.has(teamId),
+      );
+      const results: Array<{match: Match; teamId: string}> = [];
+      matchTeams.forEach(({match, teamId}) => {
+        const teamSettings = {...DEFAULT_TEAM_SETTINGS, ...settings[teamId]};
+        if (!match.completed) {
+          watch.pending[match.id] = teamId;
+          const startsAt = startTimeOf(match);
+          const remindAt =
+            startsAt === null
+              ? null
+              : startsAt - START_REMINDER_MINUTES * 60 * 1000;
+          if (teamSettings.start && remindAt !== null && remindAt > now) {
+            reminders.push({
+              event: 'start',
+              matchId: match.id,
+              teamId,
+              title: 'Match starting soon',
+              body: `${formatTeamName(
+                teams[match.home_team_id ?? ''],
+              )} vs ${formatTeamName(
+                teams[match.away_team_id ?? ''],
+              )} starts in ${START_REMINDER_MINUTES} minutes`,
+              timestamp: remindAt,
+            });
+          }
+        } else if (watch.pending[match.id]) {
+          delete watch.pending[match.id];
+          if (teamSettings.result) {
+            results.push({match, teamId});
+          }
+        }
+      });
+
+      // Matches no longer on a favorite's schedule stop being watched
+      Object.entries(watch.pending).forEach(([matchId, teamId]) => {
+        if (!matchTeams.has(matchId) && !unchecked.has(teamId)) {
+          delete watch.pending[matchId];
+        }
+      });
+
+      await this.scheduleReminders(reminders, watch);
+      await this.postResults(results, teams);
+      await AsyncStorage.setItem(this.watchStorageKey(), JSON.stringify(watch));
+      debugLog(
+        `Notifications (${reason}): ${reminders.length} reminders, ${results.length} results`,
+      );
+    } catch (error) {
+      console.error('Notification sync error:', error);
+    }
+  }
+
+  // Replace the scheduled reminders with the ones still wanted
+  private async scheduleReminders(
+    reminders: ScheduledAlert[],
+    watch: WatchState,
+  ) {
+    const wanted = new Set(reminders.map(({matchId}) => `start-${matchId}`));
+    const existing = await notifee.getTriggerNotificationIds();
+    const stale = existing.filter(id => !wanted.has(id));
+    if (stale.length > 0) {
+      await notifee.cancelTriggerNotifications(stale);
+    }
+
+    watch.scheduled = {};
+    await Promise.all(
+      reminders.map(async reminder => {
+        watch.scheduled[reminder.matchId] = reminder;
+        await notifee.createTriggerNotification(
+          {
+            id: `start-${reminder.matchId}`,
+            title: reminder.title,
+            body: reminder.body,
+            data: {matchId: reminder.matchId},
+            android: {channelId: CHANNEL_ID, pressAction: {id: 'default'}},
+          },
+          {type: TriggerType.TIMESTAMP, timestamp: reminder.timestamp},
+        );
+      }),
+    );
+  }
+
+  private async postResults(
+    results: Array<{match: Match; teamId: string}>,
+    teams: Record<string, Team>,
+  ) {
+    const alerts = await Promise.all(
+      results.map(async ({match, teamId}) => {
+        const home = formatTeamName(teams[match.home_team_id ?? '']);
+        const away = formatTeamName(teams[match.away_team_id ?? '']);
+        let title = `Final: ${home} vs ${away}`;
+        let body = 'The match is over. Tap for the box score.';
+        try {
+          const score = await api.matches.getScore(match.id, {
+            cachePolicy: 'network-first',
+          });
+          title = `Final: ${home} ${score.home_team_score}, ${away} ${score.away_team_score}`;
+          if (score.home_team_won || score.away_team_won) {
+            body = score.home_team_won
+              ? `${home} beat ${away}`
+              : `${away} beat ${home}`;
+          }
+        } catch (error) {
+          console.error(`Failed to load the score of ${match.id}:`, error);
+        }
+
+        await notifee.displayNotification({
+          id: `result-${match.id}`,
+          title,
+          body,
+          data: {matchId: match.id},
+          android: {channelId: CHANNEL_ID, pressAction: {id: 'default'}},
+        });
+        return {
+          event: 'result' as const,
+          matchId: match.id,
+          teamId,
+          title,
+          body,
+          timestamp: Date.now(),
+        };
+      }),
+    );
+    if (alerts.length > 0) {
+      await this.addAlerts(alerts);
+    }
+  }
+
+  // Each environment has its own schedules to watch
+  private watchStorageKey(): string {
+    return `${this.watchKey}:${environmentService.getEnvironment().name}`;
+  }
+
+  private async loadWatch(): Promise<WatchState> {
+    try {
+      const stored = await AsyncStorage.getItem(this.watchStorageKey());
+      return stored ? JSON.parse(stored) : {pending: {}, scheduled: {}};
+    } catch (error) {
+      console.error('Failed to load watched matches:', error);
+      return {pending: {}, scheduled: {}};
+    }
+  }
+
+  private async addAlerts(alerts: Array<Omit<MatchAlert, 'id' | 'read'>>) {
+    const existing = await this.getAlerts();
+    const added = alerts.map(alert => ({
+      ...alert,
+      id: `${alert.event}-${alert.matchId}`,
+      read: false,
+    }));
+    const addedIds = new Set(added.map(({id}) => id));
+    await this.saveAlerts(
+      [...added, ...existing.filter(({id}) => !addedIds.has(id))]
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, MAX_ALERTS),
+    );
+  }
+
+  private async saveAlerts(alerts: MatchAlert[]) {
+    this.alerts = alerts;
+    try {
+      await AsyncStorage.setItem(this.alertsKey, JSON.stringify(alerts));
+    } catch (error) {
+      console.error('Failed to save alerts:', error);
+    }
+    this.listeners.forEach(listener => {
+      try {
+        listener(alerts);
+      } catch (error) {
+        console.error('Alert listener error:', error);
+      }
+    });
+  }
+}
+
+export const notificationService = new NotificationService();
+export default notificationService;
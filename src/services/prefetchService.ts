@@ -0,0 +1,221 @@
+// src/services/prefetchService.ts
+// Warms the cache with the favorites' data the Home tab shows, so
+// FavoriteTeamDashboard and FavoritePlayerSection render from cache instead
+// of waiting on one request per id.
+import NetInfo from '@react-native-community/netinfo';
+import {api, isAbortError} from '../api';
+import type {Match, RequestOptions} from '../api';
+import cacheService from './cacheService';
+import {debugLog} from './traceService';
+import environmentService from './environmentService';
+import {PreferencesManager} from '../utils/preferencesManager';
+import {getCurrentSeason} from '../utils/season';
+
+export type PrefetchReason = 'launch' | 'foreground';
+
+// Requests in flight at once, so the prefetch doesn't crowd out the screen
+// the user is looking at
+const MAX_CONCURRENT_REQUESTS = 2;
+
+// Coming back to the foreground more often than this doesn't prefetch again
+const MIN_FOREGROUND_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+class PrefetchService {
+  private controller: AbortController | null = null;
+  private lastRun = 0;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  /**
+   * Prefetch the favorites' teams, schedules, stats and results. Skipped
+   * while offline or on a metered connection, and cancelled if the
+   * connection drops or the environment changes mid-run.
+   */
+  async run(reason: PrefetchReason): Promise<void> {
+    if (this.controller) {
+      return;
+    }
+    if (
+      reason === 'foreground' &&
+      Date.now() - this.lastRun < MIN_FOREGROUND_INTERVAL
+    ) {
+      return;
+    }
+
+    const controller = new AbortController();
+    this.controller = controller;
+    const unsubscribeOffline = cacheService.subscribeOfflineStatus(
+      ({offline}) => {
+        if (offline) {
+          controller.abort();
+        }
+      },
+    );
+    const unsubscribeEnvironment = environmentService.subscribe(() =>
+      controller.abort(),
+    );
+
+    try {
+      if (!(await this.canPrefetch())) {
+        debugLog(`Prefetch skipped (${reason}): offline or low data`);
+        return;
+      }
+      this.lastRun = Date.now();
+
+      const prefs = await PreferencesManager.getPreferences();
+      const favoriteTeams: string[] = prefs?.favoriteTeams ?? [];
+      const favoritePlayers: string[] = prefs?.favoritePlayers ?? [];
+      if (favoriteTeams.length === 0 && favoritePlayers.length === 0) {
+        return;
+      }
+
+      const options: RequestOptions = {signal: controller.signal};
+      await Promise.all([
+        this.prefetchTeams(favoriteTeams, options),
+        this.prefetchPlayers(favoritePlayers, options),
+      ]);
+      debugLog(
+        controller.signal.aborted
+          ? `Prefetch (${reason}) stopped`
+          : `Prefetch (${reason}): ${favoriteTeams.length} teams, ${
+              favoritePlayers.length
+            } players in ${Date.now() - this.lastRun}ms`,
+      );
+    } catch (error) {
+      console.error('Prefetch error:', error);
+    } finally {
+      unsubscribeOffline();
+      unsubscribeEnvironment();
+      this.controller = null;
+    }
+  }
+
+  /**
+   * Stop a running prefetch, e.g. when the app goes to the background
+   */
+  cancel(): void {
+    this.controller?.abort();
+  }
+
+  private async canPrefetch(): Promise<boolean> {
+    if (cacheService.getOfflineStatus().offline) {
+      return false;
+    }
+    // The bundled fixtures cost nothing to load
+    if (environmentService.getEnvironment().source === 'fixtures') {
+      return true;
+    }
+    try {
+      const state = await NetInfo.fetch();
+      return (
+        state.isConnected !== false &&
+        state.isInternetReachable !== false &&
+        state.details?.isConnectionExpensive !== true
+      );
+    } catch (error) {
+      console.error('Prefetch connectivity check failed:', error);
+      return false;
+    }
+  }
+
+  // The requests FavoriteTeamDashboard makes, with the same parameters so
+  // it finds them cached
+  private async prefetchTeams(teamIds: string[], options: RequestOptions) {
+    if (teamIds.length === 0) {
+      return;
+    }
+    const season = getCurrentSeason();
+
+    const [, , ...schedules] = await Promise.all([
+      this.request(() => api.batch.getTeams(teamIds, options), options),
+      this.request(
+        () => api.rankings.getLatestTeamRankings('DIV1', 'M', 25, options),
+        options,
+      ),
+      ...teamIds.map(teamId =>
+        this.request(
+          () => api.matches.getAllByTeam(teamId, season, options),
+          options,
+        ),
+      ),
+    ]);
+
+    // Scores for each team's two latest results, in one batch
+    const recentResultIds = (schedules as Array<Match[] | undefined>).flatMap(
+      teamMatches =>
+        (teamMatches ?? [])
+          .filter(match => match.completed)
+          .sort(
+            (a, b) =>
+              new Date(b.start_date).getTime() -
+              new Date(a.start_date).getTime(),
+          )
+          .slice(0, 2)
+          .map(match => match.id),
+    );
+    if (recentResultIds.length > 0) {
+      await this.request(
+        () => api.batch.getMatchScores(recentResultIds, options),
+        options,
+      );
+    }
+  }
+
+  // The requests FavoritePlayerSection makes
+  private async prefetchPlayers(playerIds: string[], options: RequestOptions) {
+    await Promise.all(
+      playerIds.flatMap(playerId => [
+        this.request(() => api.players.getById(playerId, options), options),
+        this.request(
+          () => api.players.getTeam(playerId, undefined, options),
+          options,
+        ),
+        this.request(
+          () => api.players.getStats(playerId, undefined, options),
+          options,
+        ),
+        this.request(
+          () => api.players.getMatchResults(playerId, undefined, options),
+          options,
+        ),
+      ]),
+    );
+  }
+
+  /**
+   * Run one request once a slot is free. Failures only lose that request's
+   * result; requests still queued when the run is aborted are dropped.
+   */
+  private async request<T>(
+    call: () => Promise<T>,
+    {signal}: RequestOptions,
+  ): Promise<T | undefined> {
+    // A finished request hands its slot straight to the next one waiting
+    if (this.active >= MAX_CONCURRENT_REQUESTS) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.active += 1;
+    }
+    try {
+      if (signal?.aborted) {
+        return undefined;
+      }
+      return await call();
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Prefetch request failed:', error);
+      }
+      return undefined;
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active -= 1;
+      }
+    }
+  }
+}
+
+export const prefetchService = new PrefetchService();
+export default prefetchService;
@@ -0,0 +1,233 @@
+// src/services/traceService.ts
+// Structured record of every API request and cache lookup, for the
+// diagnostics screen. Kept in memory only; export it as JSON to share.
+
+// How the cache answered a lookup. Network requests carry the outcome that
+// triggered them: miss, bypass (network-first/only) or revalidate.
+export type CacheOutcome =
+  | 'hit'
+  | 'stale'
+  | 'offline'
+  | 'miss'
+  | 'join'
+  | 'bypass'
+  | 'revalidate'
+  | 'fallback';
+
+export interface RequestTrace {
+  id: number;
+  timestamp: number;
+  method: string;
+  url: string;
+  // The url with ids replaced, e.g. /players/:id/stats
+  endpoint: string;
+  status: number | null;
+  duration: number; // ms from the first attempt, retries included
+  size: number; // Response body length
+  retries: number;
+  category: string | null;
+  cache: CacheOutcome | null;
+  error: string | null;
+}
+
+export interface EndpointSummary {
+  endpoint: string;
+  count: number;
+  errors: number;
+  retries: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+  averageSize: number;
+}
+
+export type CacheOutcomeCounts = Record<CacheOutcome, number>;
+
+export interface TraceExport {
+  exportedAt: string;
+  endpoints: EndpointSummary[];
+  cache: Record<string, CacheOutcomeCounts>;
+  traces: RequestTrace[];
+}
+
+// Where a request came from in the cache layer, looked up by its signal
+interface RequestContext {
+  category: string;
+  cache: CacheOutcome;
+}
+
+type TraceListener = () => void;
+
+// Turn on for a line per cache eviction, sweep, retry and the like in a
+// debug build's console. Lookups and requests are traced either way.
+const VERBOSE_LOGGING = false;
+
+export const debugLog = (...args: unknown[]): void => {
+  if (__DEV__ && VERBOSE_LOGGING) {
+    console.log(...args);
+  }
+};
+
+// Recent requests kept for percentiles and the slowest-calls list
+const MAX_TRACES = 300;
+
+const CACHE_OUTCOMES: CacheOutcome[] = [
+  'hit',
+  'stale',
+  'offline',
+  'miss',
+  'join',
+  'bypass',
+  'revalidate',
+  'fallback',
+];
+
+// Path segments that identify an entity rather than a route: UUIDs and
+// anything with a digit in it (ids, dates, seasons)
+const ID_SEGMENT = /^([0-9a-f]{8}-[0-9a-f-]{27}|.*\d.*)$/i;
+
+export const endpointFor = (method: string, url: string): string => {
+  const path = url.replace(/^https?:\/\/[^/]+/, '').split('?')[0];
+  const normalized = path
+    .split('/')
+    .map(segment => (ID_SEGMENT.test(segment) ? ':id' : segment))
+    .join('/');
+  return `${method.toUpperCase()} ${normalized}`;
+};
+
+// Nearest-rank percentile of an ascending list
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+};
+
+const emptyCounts = (): CacheOutcomeCounts =>
+  CACHE_OUTCOMES.reduce(
+    (counts, outcome) => ({...counts, [outcome]: 0}),
+    {} as CacheOutcomeCounts,
+  );
+
+class TraceService {
+  private traces: RequestTrace[] = [];
+  private cacheCounts = new Map<string, CacheOutcomeCounts>();
+  private contexts = new WeakMap<object, RequestContext>();
+  private listeners = new Set<TraceListener>();
+  private nextId = 1;
+
+  /**
+   * Remember which cache lookup a request's signal belongs to, so the
+   * request's trace can name it
+   */
+  tagRequest(signal: AbortSignal, context: RequestContext): void {
+    this.contexts.set(signal, context);
+  }
+
+  contextFor(signal: unknown): RequestContext | undefined {
+    return signal && typeof signal === 'object'
+      ? this.contexts.get(signal)
+      : undefined;
+  }
+
+  recordRequest(trace: Omit<RequestTrace, 'id'>): void {
+    this.traces.push({id: this.nextId++, ...trace});
+    if (this.traces.length > MAX_TRACES) {
+      this.traces.splice(0, this.traces.length - MAX_TRACES);
+    }
+    this.notify();
+  }
+
+  recordCacheLookup(category: string, outcome: CacheOutcome): void {
+    const counts = this.cacheCounts.get(category) ?? emptyCounts();
+    counts[outcome] += 1;
+    this.cacheCounts.set(category, counts);
+    this.notify();
+  }
+
+  getTraces(): RequestTrace[] {
+    return [...this.traces];
+  }
+
+  // Latency percentiles per endpoint, slowest p90 first
+  getEndpointSummaries(): EndpointSummary[] {
+    const byEndpoint = new Map<string, RequestTrace[]>();
+    this.traces.forEach(trace => {
+      const traces = byEndpoint.get(trace.endpoint) ?? [];
+      traces.push(trace);
+      byEndpoint.set(trace.endpoint, traces);
+    });
+
+    return Array.from(byEndpoint.entries())
+      .map(([endpoint, traces]) => {
+        const durations = traces
+          .map(trace => trace.duration)
+          .sort((a, b) => a - b);
+        return {
+          endpoint,
+          count: traces.length,
+          errors: traces.filter(trace => trace.error !== null).length,
+          retries: traces.reduce((sum, trace) => sum + trace.retries, 0),
+          p50: percentile(durations, 50),
+          p90: percentile(durations, 90),
+          p99: percentile(durations, 99),
+          max: durations[durations.length - 1],
+          averageSize: Math.round(
+            traces.reduce((sum, trace) => sum + trace.size, 0) / traces.length,
+          ),
+        };
+      })
+      .sort((a, b) => b.p90 - a.p90);
+  }
+
+  getSlowest(limit = 10): RequestTrace[] {
+    return [...this.traces]
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, limit);
+  }
+
+  getCacheCounts(): Record<string, CacheOutcomeCounts> {
+    const counts: Record<string, CacheOutcomeCounts> = {};
+    this.cacheCounts.forEach((value, category) => {
+      counts[category] = {...value};
+    });
+    return counts;
+  }
+
+  export(): TraceExport {
+    return {
+      exportedAt: new Date().toISOString(),
+      endpoints: this.getEndpointSummaries(),
+      cache: this.getCacheCounts(),
+      traces: this.getTraces(),
+    };
+  }
+
+  clear(): void {
+    this.traces = [];
+    this.cacheCounts.clear();
+    this.notify();
+  }
+
+  subscribe(listener: TraceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Trace listener error:', error);
+      }
+    });
+  }
+}
+
+export const traceService = new TraceService();
+export default traceService;
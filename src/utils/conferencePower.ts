@@ -0,0 +1,104 @@
+// src/utils/conferencePower.ts
+// Conference strength from one week's team, singles and doubles rankings
+
+export interface RankedTeam {
+  team_id: string;
+  rank: number;
+  points: number;
+  conference?: string;
+}
+
+export interface RankedPlayers {
+  team_id: string;
+  rank: number;
+  conference?: string;
+}
+
+export interface ConferencePower<T, S, D> {
+  conference: string;
+  teams: T[];
+  singles: S[];
+  doubles: D[];
+  bestRank: number;
+  averageRank: number;
+  points: number;
+  score: number;
+}
+
+// How much ranked players count next to ranked teams
+const SINGLES_WEIGHT = 0.5;
+const DOUBLES_WEIGHT = 0.25;
+
+// 1 for the top entry of a list, falling to just above 0 for the last
+const depth = (rank: number, listSize: number): number =>
+  listSize > 0 ? 1 - (rank - 1) / listSize : 0;
+
+const sumDepth = (items: {rank: number}[], listSize: number): number =>
+  items.reduce((sum, item) => sum + depth(item.rank, listSize), 0);
+
+// Groups ranked teams by conference. Players count toward their own
+// conference, or their team's when the ranking doesn't carry one; only
+// conferences with a ranked team get a row.
+//
+// The score adds up how high each entry sits in its list, so it rewards
+// both top-end teams and depth: a #1 team adds 10, a team halfway down adds
+// 5, and ranked singles players and doubles pairs add half and a quarter of
+// that.
+export const buildConferencePower = <
+  T extends RankedTeam,
+  S extends RankedPlayers,
+  D extends RankedPlayers,
+>(
+  teams: T[],
+  singles: S[],
+  doubles: D[],
+): ConferencePower<T, S, D>[] => {
+  const teamConferences = new Map(
+    teams
+      .filter(team => team.conference)
+      .map(team => [team.team_id, team.conference as string]),
+  );
+  const conferenceOf = (item: RankedPlayers) =>
+    item.conference || teamConferences.get(item.team_id);
+
+  const groups = new Map<string, ConferencePower<T, S, D>>();
+  teams.forEach(team => {
+    if (!team.conference) {
+      return;
+    }
+    const group = groups.get(team.conference) ?? {
+      conference: team.conference,
+      teams: [],
+      singles: [],
+      doubles: [],
+      bestRank: team.rank,
+      averageRank: 0,
+      points: 0,
+      score: 0,
+    };
+    group.teams.push(team);
+    group.bestRank = Math.min(group.bestRank, team.rank);
+    group.points += team.points;
+    groups.set(team.conference, group);
+  });
+  singles.forEach(player => {
+    groups.get(conferenceOf(player) ?? '')?.singles.push(player);
+  });
+  doubles.forEach(pair => {
+    groups.get(conferenceOf(pair) ?? '')?.doubles.push(pair);
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({
+      ...group,
+      averageRank:
+        group.teams.reduce((sum, team) => sum + team.rank, 0) /
+        group.teams.length,
+      score:
+        10 *
+        (sumDepth(group.teams, teams.length) +
+          SINGLES_WEIGHT * sumDepth(group.singles, singles.length) +
+          DOUBLES_WEIGHT * sumDepth(group.doubles, doubles.length)),
+    }))
+    .sort((a, b) => b.score - a.score || a.bestRank - b.bestRank);
+};
@@ -0,0 +1,67 @@
+// src/utils/dualMatch.ts
+import type {Match, MatchLineup} from '../api';
+
+// Matches still not final this long after the start are treated as stale
+// data rather than in progress
+const LIVE_WINDOW = 12 * 60 * 60 * 1000; // 12 hours
+
+// Doubles courts a team has to win for the doubles point
+const DOUBLES_POINT_COURTS = 2;
+
+export interface TeamPointTally {
+  home: number;
+  away: number;
+  // null until one team has won enough doubles courts
+  doublesPoint: 'home' | 'away' | null;
+}
+
+/**
+ * True once a match has started and until it's final. A TBD match without a
+ * scheduled time is never live: its start date alone is midnight UTC.
+ */
+export const isMatchLive = (
+  match: Pick<Match, 'completed' | 'scheduled_time'>,
+  now: Date = new Date(),
+): boolean => {
+  if (match.completed || !match.scheduled_time) {
+    return false;
+  }
+  const start = new Date(match.scheduled_time).getTime();
+  if (Number.isNaN(start)) {
+    return false;
+  }
+  const elapsed = now.getTime() - start;
+  return elapsed >= 0 && elapsed < LIVE_WINDOW;
+};
+
+/**
+ * Team points from the courts decided so far: one for the doubles point,
+ * one per singles court. Side 1 is the home team.
+ */
+export const getTeamPointTally = (lineup: MatchLineup[]): TeamPointTally => {
+  let doublesHome = 0;
+  let doublesAway = 0;
+  let home = 0;
+  let away = 0;
+
+  lineup.forEach(line => {
+    if (line.match_type === 'DOUBLES') {
+      doublesHome += line.side1_won ? 1 : 0;
+      doublesAway += line.side2_won ? 1 : 0;
+    } else if (line.match_type === 'SINGLES') {
+      home += line.side1_won ? 1 : 0;
+      away += line.side2_won ? 1 : 0;
+    }
+  });
+
+  let doublesPoint: TeamPointTally['doublesPoint'] = null;
+  if (doublesHome >= DOUBLES_POINT_COURTS) {
+    doublesPoint = 'home';
+    home += 1;
+  } else if (doublesAway >= DOUBLES_POINT_COURTS) {
+    doublesPoint = 'away';
+    away += 1;
+  }
+
+  return {home, away, doublesPoint};
+};
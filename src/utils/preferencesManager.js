@@ -13,6 +13,8 @@ const defaultPreferences = {
   favoritePlayers: [],
   preferredDivision: 'DIV1',
   preferredGender: 'M',
+  // Last division picked on the rankings tab; falls back to preferredDivision
+  rankingsDivision: null,
   onboardingCompleted: false,
   deviceId: null,
 };
@@ -129,6 +131,27 @@ export const PreferencesManager = {
     }
   },
 
+  // Remember the division last shown on the rankings tab
+  setRankingsDivision: async division => {
+    try {
+      const prefs = await PreferencesManager.getPreferences();
+      if (!prefs) {
+        return false;
+      }
+
+      const updatedPrefs = {
+        ...prefs,
+        rankingsDivision: division,
+      };
+
+      await PreferencesManager.savePreferences(updatedPrefs);
+      return updatedPrefs;
+    } catch (error) {
+      console.error('Failed to save rankings division:', error);
+      return null;
+    }
+  },
+
   // Update preferences after onboarding
   completeOnboarding: async selections => {
     try {
@@ -0,0 +1,46 @@
+// src/utils/rankingFilters.ts
+// Search and conference filtering within one ranking list
+
+// The fields team, singles and doubles rankings share for filtering
+export interface FilterableRanking {
+  conference?: string;
+  team_name?: string;
+  player_name?: string;
+  player1_name?: string;
+  player2_name?: string;
+}
+
+export const conferenceLabel = (conference: string): string =>
+  conference.replace(/_/g, ' ');
+
+// Conferences present in the list, alphabetically
+export const rankingConferences = (items: FilterableRanking[]): string[] =>
+  Array.from(
+    new Set(
+      items
+        .map(item => item.conference)
+        .filter((conference): conference is string => !!conference),
+    ),
+  ).sort((a, b) => conferenceLabel(a).localeCompare(conferenceLabel(b)));
+
+export const filterRankings = <T extends FilterableRanking>(
+  items: T[],
+  query: string,
+  conference: string | null,
+): T[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle && !conference) {
+    return items;
+  }
+  return items.filter(
+    item =>
+      (!conference || item.conference === conference) &&
+      (!needle ||
+        [
+          item.player_name,
+          item.player1_name,
+          item.player2_name,
+          item.team_name,
+        ].some(name => name?.toLowerCase().includes(needle))),
+  );
+};
@@ -0,0 +1,64 @@
+// src/utils/rankingHistory.ts
+// Lines up several ranking histories on one date axis for the overlay chart
+import {getSeasonOf} from './season';
+
+export interface RankingPoint {
+  rank: number;
+  publish_date: string;
+}
+
+export interface RankingSeries {
+  id: string;
+  label: string;
+  rankingHistory: RankingPoint[];
+}
+
+export interface RankingOverlay {
+  // Every publish date in any series, oldest first
+  dates: string[];
+  // Per series, the rank on each of `dates`, or null when it wasn't ranked
+  ranks: (number | null)[][];
+  // Indexes into `dates` where a new season starts
+  seasonStarts: number[];
+}
+
+const dayOf = (date: string): string => date.split('T')[0];
+
+// The part of a ranking history published during `season`
+export const rankingsInSeason = <T extends RankingPoint>(
+  rankingHistory: T[],
+  season: string,
+): T[] =>
+  rankingHistory.filter(point => getSeasonOf(point.publish_date) === season);
+
+export const buildRankingOverlay = (
+  series: RankingSeries[],
+): RankingOverlay => {
+  const dates = Array.from(
+    new Set(
+      series.flatMap(entry =>
+        entry.rankingHistory.map(point => dayOf(point.publish_date)),
+      ),
+    ),
+  ).sort();
+
+  const ranks = series.map(entry => {
+    const byDate = new Map(
+      entry.rankingHistory.map(point => [
+        dayOf(point.publish_date),
+        point.rank,
+      ]),
+    );
+    return dates.map(date => byDate.get(date) ?? null);
+  });
+
+  const seasonStarts = dates
+    .map((date, index) => index)
+    .filter(
+      index =>
+        index > 0 &&
+        getSeasonOf(dates[index]) !== getSeasonOf(dates[index - 1]),
+    );
+
+  return {dates, ranks, seasonStarts};
+};
@@ -0,0 +1,134 @@
+// src/utils/rankingMovement.ts
+// Week-over-week movement between a ranking list and the one published
+// before it for the same format, gender and division, and pairing lists of
+// different formats by date.
+
+export interface RankingListDates {
+  id: string;
+  publish_date?: string;
+  planned_publish_date?: string;
+}
+
+// A ranked team, player or doubles pair, keyed the same way in both lists
+export interface RankedEntry {
+  key: string;
+  rank: number;
+  name: string;
+}
+
+export type Movement =
+  | {kind: 'up' | 'down'; delta: number}
+  | {kind: 'same'}
+  | {kind: 'new'};
+
+export interface Mover extends RankedEntry {
+  previousRank: number;
+  delta: number;
+}
+
+export interface RankingComparison {
+  movements: Record<string, Movement>;
+  // Shown in the previous list but not this one, by previous rank
+  droppedOut: RankedEntry[];
+  risers: Mover[];
+  fallers: Mover[];
+}
+
+const publishedAt = (list: RankingListDates): string =>
+  list.planned_publish_date || list.publish_date?.split('T')[0] || '';
+
+// The latest list published before `selected`, or null for the first one
+export const previousRankingList = <T extends RankingListDates>(
+  lists: T[],
+  selected: T | null,
+): T | null => {
+  if (!selected) {
+    return null;
+  }
+  const selectedDate = publishedAt(selected);
+  return lists.reduce<T | null>((previous, list) => {
+    const date = publishedAt(list);
+    if (list.id === selected.id || !date || date >= selectedDate) {
+      return previous;
+    }
+    return !previous || date > publishedAt(previous) ? list : previous;
+  }, null);
+};
+
+// The latest list published on or before `selected`'s date, e.g. the
+// singles list from the same week as a team list
+export const rankingListAsOf = <T extends RankingListDates>(
+  lists: T[],
+  selected: RankingListDates,
+): T | null => {
+  const selectedDate = publishedAt(selected);
+  return lists.reduce<T | null>((latest, list) => {
+    const date = publishedAt(list);
+    if (!date || date > selectedDate) {
+      return latest;
+    }
+    return !latest || date > publishedAt(latest) ? list : latest;
+  }, null);
+};
+
+export interface CompareOptions {
+  moverCount?: number;
+  // Ranks on screen. The previous list should be fetched past it, so an
+  // entry that climbed in from just below isn't counted as new.
+  shownRanks?: number;
+}
+
+export const compareRankings = (
+  current: RankedEntry[],
+  previous: RankedEntry[],
+  {moverCount = 3, shownRanks = Infinity}: CompareOptions = {},
+): RankingComparison => {
+  const previousRanks = new Map(previous.map(entry => [entry.key, entry.rank]));
+  const shownKeys = new Set(
+    current.filter(entry => entry.rank <= shownRanks).map(entry => entry.key),
+  );
+
+  const movements: Record<string, Movement> = {};
+  const movers: Mover[] = [];
+  current.forEach(entry => {
+    const shown = shownKeys.has(entry.key);
+    const previousRank = previousRanks.get(entry.key);
+    if (previousRank === undefined) {
+      if (shown) {
+        movements[entry.key] = {kind: 'new'};
+      }
+      return;
+    }
+    // Rows below the shown ranks only matter when they fell out of view
+    if (!shown && previousRank > shownRanks) {
+      return;
+    }
+    const delta = previousRank - entry.rank;
+    if (shown) {
+      movements[entry.key] =
+        delta === 0 ? {kind: 'same'} : {kind: delta > 0 ? 'up' : 'down', delta};
+    }
+    if (delta !== 0) {
+      movers.push({...entry, previousRank, delta});
+    }
+  });
+
+  // Bigger jumps first; a tie goes to the better current rank
+  const byDelta = (a: Mover, b: Mover) =>
+    Math.abs(b.delta) - Math.abs(a.delta) || a.rank - b.rank;
+
+  return {
+    movements,
+    droppedOut: previous
+      .filter(entry => entry.rank <= shownRanks && !shownKeys.has(entry.key))
+      .sort((a, b) => a.rank - b.rank),
+    risers: movers
+      .filter(mover => mover.delta > 0)
+      .sort(byDelta)
+      .slice(0, moverCount),
+    fallers: movers
+      .filter(mover => mover.delta < 0)
+      .sort(byDelta)
+      .slice(0, moverCount),
+  };
+};
@@ -0,0 +1,20 @@
+// src/utils/season.ts
+
+// Seasons are named for the year they start in, in August
+const SEASON_START_MONTH = 7; // zero-based
+
+const seasonStartingIn = (year: number, month: number): string =>
+  (month < SEASON_START_MONTH ? year - 1 : year).toString();
+
+// Current college season, e.g. "2024" for the 2024-2025 season. From January
+// to July we're in the second half of the academic year, so the season
+// started the previous year.
+export const getCurrentSeason = (today: Date = new Date()): string =>
+  seasonStartingIn(today.getFullYear(), today.getMonth());
+
+// The season of an API date such as "2025-02-11" or "2025-02-11T00:00:00Z",
+// read from the date as written rather than shifted into the local time zone
+export const getSeasonOf = (date: string): string => {
+  const [year, month] = date.split('-').map(Number);
+  return seasonStartingIn(year, month - 1);
+};
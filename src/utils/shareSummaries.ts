@@ -0,0 +1,244 @@
+// src/utils/shareSummaries.ts
+// Shareable summaries of a dual match, a player's season and a draw round.
+// The same summary is sent as plain text or drawn as an image card.
+import {format} from 'date-fns';
+import type {
+  Match,
+  MatchLineup,
+  MatchScore,
+  Player,
+  Team,
+  TournamentMatch,
+  TournamentMatchParticipant,
+} from '../api';
+import {links} from '../config/linking';
+import {getTeamPointTally} from './dualMatch';
+
+export interface SummarySection {
+  title: string;
+  lines: string[];
+}
+
+export interface ShareSummary {
+  title: string;
+  subtitle?: string;
+  sections: SummarySection[];
+  // Logos on the image card
+  homeTeamId?: string;
+  awayTeamId?: string;
+  url: string;
+}
+
+const teamName = (team?: Pick<Team, 'name'> | null): string =>
+  team ? team.name.replace(/\s*\((M|W)\)$/, '') : 'TBD';
+
+const playerName = (player?: Player): string =>
+  player ? `${player.first_name.charAt(0)}. ${player.last_name}` : 'TBD';
+
+// A set score from the other side's point of view, e.g. 6-7(4) -> 7(4)-6
+const flipSet = (set: string): string => {
+  const match = set.match(/^(\d+)(\(\d+\))?-(\d+)(\(\d+\))?$/);
+  return match
+    ? `${match[3]}${match[4] ?? ''}-${match[1]}${match[2] ?? ''}`
+    : set;
+};
+
+// Sets separated by single spaces, whatever the source used
+const setsOf = (score: string): string[] =>
+  score.replace(/,\s*/g, ' ').split(' ').filter(Boolean);
+
+export const flipScore = (score: string): string =>
+  setsOf(score).map(flipSet).join(' ');
+
+// One court, winner first: "#1 A. Smith/B. Jones d. C. Lee/D. Park 6-4"
+const courtLine = (line: MatchLineup, players: Record<string, Player>) => {
+  const side = (first: string, second?: string) =>
+    [first, second]
+      .filter((id): id is string => !!id)
+      .map(id => playerName(players[id]))
+      .join('/');
+  const side1 = side(line.side1_player1_id, line.side1_player2_id);
+  const side2 = side(line.side2_player1_id, line.side2_player2_id);
+  const score = line.side1_score ?? '';
+
+  if (line.side2_won) {
+    return `#${line.position} ${side2} d. ${side1} ${flipScore(score)}`.trim();
+  }
+  if (line.side1_won) {
+    const sets = setsOf(score).join(' ');
+    return `#${line.position} ${side1} d. ${side2} ${sets}`.trim();
+  }
+  return `#${line.position} ${side1} vs ${side2} ${score}${
+    score ? ' ' : ''
+  }(unfinished)`;
+};
+
+export const matchBoxScore = ({
+  match,
+  homeTeam,
+  awayTeam,
+  lineup,
+  score,
+  players,
+}: {
+  match: Match;
+  homeTeam?: Team;
+  awayTeam?: Team;
+  lineup: MatchLineup[];
+  score?: MatchScore | null;
+  players: Record<string, Player>;
+}): ShareSummary => {
+  const home = teamName(homeTeam);
+  const away = teamName(awayTeam);
+  const byPosition = (type: string) =>
+    lineup
+      .filter(line => line.match_type === type)
+      .sort((a, b) => a.position - b.position);
+  const doubles = byPosition('DOUBLES');
+  const singles = byPosition('SINGLES');
+  const tally = getTeamPointTally(lineup);
+
+  let title = `${home} vs ${away}`;
+  if (match.completed && score) {
+    title = `${home} ${score.home_team_score}, ${away} ${score.away_team_score}`;
+  } else if (lineup.length > 0) {
+    title = `${home} ${tally.home}, ${away} ${tally.away}`;
+  }
+
+  const sections: SummarySection[] = [];
+  if (doubles.length > 0) {
+    sections.push({
+      title: tally.doublesPoint
+        ? `Doubles (${tally.doublesPoint === 'home' ? home : away})`
+        : 'Doubles',
+      lines: doubles.map(line => courtLine(line, players)),
+    });
+  }
+  if (singles.length > 0) {
+    sections.push({
+      title: 'Singles',
+      lines: singles.map(line => courtLine(line, players)),
+    });
+  }
+  if (match.completed && (score?.home_team_won || score?.away_team_won)) {
+    sections.push({
+      title: 'Result',
+      lines: [`${score.home_team_won ? home : away} wins`],
+    });
+  }
+
+  return {
+    title,
+    subtitle: [
+      match.completed ? 'Final' : lineup.length > 0 ? 'In progress' : null,
+      format(new Date(match.start_date), 'EEE, MMM d, yyyy'),
+    ]
+      .filter(Boolean)
+      .join(' · '),
+    sections,
+    homeTeamId: match.home_team_id,
+    awayTeamId: match.away_team_id,
+    url: links.match(match.id),
+  };
+};
+
+export interface PlayerSeason {
+  season: string;
+  singlesWins: number;
+  singlesLosses: number;
+  doublesWins: number;
+  doublesLosses: number;
+  wtnSingles?: number | null;
+  wtnDoubles?: number | null;
+  rank?: number | null;
+}
+
+export const playerSummary = ({
+  player,
+  team,
+  season,
+}: {
+  player: Player;
+  team?: {id: string; name: string} | null;
+  season: PlayerSeason;
+}): ShareSummary => {
+  const lines = [
+    `Singles: ${season.singlesWins}-${season.singlesLosses}`,
+    `Doubles: ${season.doublesWins}-${season.doublesLosses}`,
+  ];
+  const ratings = [
+    season.wtnSingles != null && `singles ${season.wtnSingles.toFixed(1)}`,
+    season.wtnDoubles != null && `doubles ${season.wtnDoubles.toFixed(1)}`,
+  ].filter(Boolean);
+  if (ratings.length > 0) {
+    lines.push(`WTN: ${ratings.join(', ')}`);
+  }
+  if (season.rank) {
+    lines.push(`Singles ranking: #${season.rank}`);
+  }
+
+  return {
+    title: `${season.rank ? `#${season.rank} ` : ''}${player.first_name} ${
+      player.last_name
+    }`,
+    subtitle: [team && teamName(team), `${season.season} season`]
+      .filter(Boolean)
+      .join(' · '),
+    sections: [{title: 'Season record', lines}],
+    homeTeamId: team?.id,
+    url: links.player(player.person_id),
+  };
+};
+
+const participantName = (side: TournamentMatchParticipant): string => {
+  const name =
+    [side.player1_name, side.player2_name].filter(Boolean).join('/') ||
+    side.participant_name ||
+    'TBD';
+  return side.school_name ? `${name} (${side.school_name})` : name;
+};
+
+export const drawRoundSummary = ({
+  tournamentId,
+  drawName,
+  roundName,
+  matches,
+}: {
+  tournamentId: string;
+  drawName: string;
+  roundName: string;
+  matches: TournamentMatch[];
+}): ShareSummary => {
+  const decided = matches.filter(match => match.winning_side);
+  const lines = matches.map(match => {
+    const side1 = participantName(match.side1);
+    const side2 = participantName(match.side2);
+    if (match.winning_side === 1) {
+      return `${side1} d. ${side2} ${match.score_side1 ?? ''}`.trim();
+    }
+    if (match.winning_side === 2) {
+      return `${side2} d. ${side1} ${match.score_side2 ?? ''}`.trim();
+    }
+    return `${side1} vs ${side2}`;
+  });
+
+  // No logos: a round has no pair of schools that stands for all of it
+  return {
+    title: `${drawName}: ${roundName}`,
+    subtitle: `${decided.length} of ${matches.length} matches decided`,
+    sections: [{title: roundName, lines}],
+    url: links.tournamentDraw(tournamentId, drawName),
+  };
+};
+
+export const summaryToText = (summary: ShareSummary): string =>
+  [
+    summary.title,
+    summary.subtitle,
+    ...summary.sections.map(section =>
+      [`\n${section.title}`, ...section.lines].join('\n'),
+    ),
+    `\n${summary.url}`,
+  ]
+    .filter(Boolean)
+    .join('\n');